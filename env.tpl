@@ -101,6 +101,35 @@ MCP_SEARCH_PROVIDER=
 MCP_THINKING_MODEL=
 # (Optional) MCP Server task model id, used for secondary tasks, high output models are recommended.
 MCP_TASK_MODEL=
+# (Optional) MCP Server session mode. Default, `stateless`
+# Possible values ​​include: stateless, stateful
+# Stateful sessions are kept in memory, only use it with a long-running server (e.g. Docker or Node.js), not with serverless deployments.
+MCP_SESSION_MODE=
+# (Optional) Minutes of inactivity before a stateful MCP session is closed. Default, `30`
+# Sessions with a running tool call are kept for at least 6 hours of inactivity.
+MCP_SESSION_TTL=
+# (Optional) Where stateful MCP sessions store events for resuming streams. Default, `memory`
+# Possible values ​​include: memory, file
+# The file store requires the standalone build (e.g. Docker), other deployments fall back to memory.
+MCP_EVENT_STORE=
+# (Optional) Directory of the file event store. Default, `/tmp/deep-research-mcp`
+MCP_EVENT_STORE_DIR=
+
+# (Optional) AI provider of the OpenAI-compatible API (`/api/v1/chat/completions`), which uses Deep Think or Ultra Think as the model.
+# Possible values ​​include: google, openai, anthropic, deepseek, xai, mistral, azure, openrouter, openaicompatible, pollinations, ollama
+CHAT_API_AI_PROVIDER=
+# (Optional) Search provider of the OpenAI-compatible API, used when `enableWebSearch` is set. Default, `model`
+# Possible values ​​include: model, tavily, firecrawl, exa, bocha, searxng
+CHAT_API_SEARCH_PROVIDER=
+# (Optional) Thinking model used when the model name is only `deep-think` or `ultra-think`
+CHAT_API_THINKING_MODEL=
+
+# (Optional) Where the job API (`/api/jobs`) stores jobs and their events. Default, `memory`
+# Possible values ​​include: memory, file, sqlite
+# The job API is only available in the standalone build (`pnpm build:standalone` or Docker). The sqlite store requires Node.js 22.5 or later.
+JOB_STORE=
+# (Optional) Directory of the file store, or the directory or `.db` file of the sqlite store. Default, `./data/jobs`
+JOB_STORE_PATH=
 
 # (Optional) Disable server-side AI provider usage permissions
 # Possible values ​​include: google, openai, anthropic, deepseek, xai, mistral, azure, openrouter, openaicompatible, pollinations, ollama
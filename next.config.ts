@@ -70,6 +70,17 @@ export default async function Config(phase: string) {
     };
   } else if (BUILD_MODE === "standalone") {
     nextConfig.output = "standalone";
+    // Routes named `route.node.ts` need the Node.js runtime (e.g. the job API
+    // and the file event store of the MCP API), they are only enabled in the
+    // standalone build.
+    nextConfig.pageExtensions = ["node.ts", "tsx", "ts", "jsx", "js"];
+    // A route cannot have both an edge and a Node.js handler, so the MCP API
+    // is served by its Node.js route in the standalone build.
+    nextConfig.rewrites = async () => ({
+      beforeFiles: [{ source: "/api/mcp", destination: "/api/mcp/node" }],
+      afterFiles: [],
+      fallback: [],
+    });
   } else {
     nextConfig.rewrites = async () => {
       return [
@@ -1,4 +1,5 @@
 import { NextResponse, type NextRequest } from "next/server";
+import { crawlPage } from "@/utils/crawler";
 
 export const runtime = "edge";
 export const preferredRegion = [
@@ -16,14 +17,8 @@ export async function POST(req: NextRequest) {
   try {
     const { url } = await req.json();
     if (!url) throw new Error("Missing parameters!");
-    const response = await fetch(url, { next: { revalidate: 60 } });
-    const result = await response.text();
-
-    const titleRegex = /<title>(.*?)<\/title>/i;
-    const titleMatch = result.match(titleRegex);
-    const title = titleMatch ? titleMatch[1].trim() : "";
-
-    return NextResponse.json({ url, title, content: result });
+    const result = await crawlPage(url);
+    return NextResponse.json(result);
   } catch (error) {
     if (error instanceof Error) {
       console.error(error);
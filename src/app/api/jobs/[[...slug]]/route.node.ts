@@ -0,0 +1,182 @@
+import { NextResponse, type NextRequest } from "next/server";
+import {
+  JobTypes,
+  getJobStore,
+  createJob,
+  cancelJob,
+  deleteJob,
+  subscribeJob,
+  isJobFinished,
+} from "../manager";
+import type { JobEvent, JobType } from "../store";
+
+// 任务在请求结束后继续在后台运行，并且需要读写文件系统，只能使用 Node.js 运行时。
+// 该路由只在 standalone 构建中启用，见 next.config.ts 中的 pageExtensions
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+function getPathSegments(req: NextRequest) {
+  return req.nextUrl.pathname
+    .replace(/^\/api\/jobs\/?/, "")
+    .split("/")
+    .filter(Boolean)
+    .map(decodeURIComponent);
+}
+
+function errorResponse(status: number, message: string) {
+  return NextResponse.json({ code: status, message }, { status });
+}
+
+function handleError(error: unknown) {
+  console.error(error);
+  return errorResponse(
+    500,
+    error instanceof Error ? error.message : "Unknown error"
+  );
+}
+
+function formatEvent({ id, event, data }: JobEvent) {
+  return `id: ${id}\nevent: ${event}\ndata: ${JSON.stringify(data)}\n\n`;
+}
+
+/**
+ * 推送任务事件：先补发 Last-Event-ID 之后已保存的事件，再推送新的事件，
+ * 任务结束后关闭连接
+ */
+async function streamJobEvents(req: NextRequest, jobId: string) {
+  const store = await getJobStore();
+  const job = await store.getJob(jobId);
+  if (!job) return errorResponse(404, "Job not found");
+
+  const lastEventId =
+    Number(
+      req.headers.get("Last-Event-ID") ||
+        req.nextUrl.searchParams.get("lastEventId")
+    ) || 0;
+
+  const encoder = new TextEncoder();
+  let unsubscribe: (() => void) | undefined;
+  const readableStream = new ReadableStream({
+    start: async (controller) => {
+      let closed = false;
+      let sentEventId = lastEventId;
+      // 补发历史事件期间收到的新事件先缓存，补发完成后按顺序推送
+      let pending: (JobEvent | null)[] | undefined = [];
+
+      function close() {
+        if (closed) return;
+        closed = true;
+        unsubscribe?.();
+        controller.close();
+      }
+
+      function send(event: JobEvent | null) {
+        if (closed) return;
+        if (event === null) return close();
+        if (event.id <= sentEventId) return;
+        sentEventId = event.id;
+        controller.enqueue(encoder.encode(formatEvent(event)));
+      }
+
+      unsubscribe = subscribeJob(jobId, (event) => {
+        if (pending) {
+          pending.push(event);
+        } else {
+          send(event);
+        }
+      });
+      req.signal.addEventListener("abort", close);
+
+      try {
+        for (const event of await store.getEvents(jobId, lastEventId)) {
+          send(event);
+        }
+      } catch (err) {
+        console.error(err);
+        return close();
+      }
+      const buffered = pending;
+      pending = undefined;
+      buffered.forEach(send);
+
+      // 任务在订阅之前已经结束
+      const latest = await store.getJob(jobId);
+      if (!latest || isJobFinished(latest)) close();
+    },
+    cancel: () => {
+      unsubscribe?.();
+    },
+  });
+
+  return new NextResponse(readableStream, {
+    headers: {
+      "Content-Type": "text/event-stream; charset=utf-8",
+      "Cache-Control": "no-cache, no-transform",
+      Connection: "keep-alive",
+      "X-Accel-Buffering": "no",
+      "Access-Control-Allow-Origin": "*",
+    },
+  });
+}
+
+export async function GET(req: NextRequest) {
+  const [jobId, action] = getPathSegments(req);
+  try {
+    const store = await getJobStore();
+    if (!jobId) {
+      const limit = Number(req.nextUrl.searchParams.get("limit")) || 100;
+      return NextResponse.json({ jobs: await store.listJobs(limit) });
+    }
+    if (action === "events") return await streamJobEvents(req, jobId);
+    if (action) return errorResponse(404, "Not found");
+
+    const job = await store.getJob(jobId);
+    if (!job) return errorResponse(404, "Job not found");
+    return NextResponse.json(job);
+  } catch (error) {
+    return handleError(error);
+  }
+}
+
+export async function POST(req: NextRequest) {
+  const [jobId, action] = getPathSegments(req);
+  try {
+    if (!jobId) {
+      const { type, ...params } = await req.json();
+      if (!JobTypes.includes(type)) {
+        return errorResponse(
+          400,
+          `The job type must be one of: ${JobTypes.join(", ")}`
+        );
+      }
+      const job = await createJob(type as JobType, params);
+      return NextResponse.json(job, { status: 201 });
+    }
+    if (action !== "cancel") return errorResponse(404, "Not found");
+
+    const store = await getJobStore();
+    const job = await store.getJob(jobId);
+    if (!job) return errorResponse(404, "Job not found");
+    if (!cancelJob(jobId)) {
+      return errorResponse(409, `The job is already ${job.status}`);
+    }
+    // 任务在处理完取消后才会更新状态
+    return NextResponse.json(job, { status: 202 });
+  } catch (error) {
+    return handleError(error);
+  }
+}
+
+export async function DELETE(req: NextRequest) {
+  const [jobId, action] = getPathSegments(req);
+  if (!jobId || action) return errorResponse(404, "Not found");
+  try {
+    const store = await getJobStore();
+    const job = await store.getJob(jobId);
+    if (!job) return errorResponse(404, "Job not found");
+    await deleteJob(jobId);
+    return NextResponse.json({ id: jobId, deleted: true });
+  } catch (error) {
+    return handleError(error);
+  }
+}
@@ -0,0 +1,161 @@
+import { customAlphabet } from "nanoid";
+import { runResearchWorkload, runThinkWorkload } from "../workloads";
+import {
+  MemoryJobStore,
+  FileJobStore,
+  SQLiteJobStore,
+  type Job,
+  type JobEvent,
+  type JobStore,
+  type JobType,
+} from "./store";
+
+const JOB_STORE = process.env.JOB_STORE || "memory";
+const JOB_STORE_PATH = process.env.JOB_STORE_PATH || "./data/jobs";
+
+const nanoid = customAlphabet("1234567890abcdefghijklmnopqrstuvwxyz", 16);
+
+export const JobTypes: JobType[] = ["research", "think"];
+
+// `null` 表示任务已结束，不会再有新的事件
+type JobListener = (event: JobEvent | null) => void;
+
+const runningJobs = new Map<string, AbortController>();
+// 删除时仍在运行的任务，结束后再从存储中删除
+const deletingJobs = new Set<string>();
+const listeners = new Map<string, Set<JobListener>>();
+let storePromise: Promise<JobStore> | undefined;
+
+async function createJobStore(): Promise<JobStore> {
+  const store =
+    JOB_STORE === "sqlite"
+      ? new SQLiteJobStore(
+          JOB_STORE_PATH.endsWith(".db")
+            ? JOB_STORE_PATH
+            : `${JOB_STORE_PATH}/jobs.db`
+        )
+      : JOB_STORE === "file"
+      ? new FileJobStore(JOB_STORE_PATH)
+      : new MemoryJobStore();
+  await store.init();
+
+  // 服务重启前未完成的任务已经无法继续执行
+  for (const job of await store.listJobs(Number.MAX_SAFE_INTEGER)) {
+    if (job.status === "pending" || job.status === "running") {
+      await store.updateJob(job.id, {
+        status: "failed",
+        error: "The server restarted before the job finished",
+      });
+    }
+  }
+  return store;
+}
+
+export function getJobStore() {
+  if (!storePromise) {
+    storePromise = createJobStore().catch((err) => {
+      storePromise = undefined;
+      throw err;
+    });
+  }
+  return storePromise;
+}
+
+function notify(jobId: string, event: JobEvent | null) {
+  listeners.get(jobId)?.forEach((listener) => listener(event));
+}
+
+/**
+ * Listens to the new events of a job, returns a function to stop listening.
+ */
+export function subscribeJob(jobId: string, listener: JobListener) {
+  const jobListeners = listeners.get(jobId) ?? new Set();
+  jobListeners.add(listener);
+  listeners.set(jobId, jobListeners);
+  return () => {
+    jobListeners.delete(listener);
+    if (jobListeners.size === 0) listeners.delete(jobId);
+  };
+}
+
+export function isJobFinished(job: Job) {
+  return ["completed", "failed", "cancelled"].includes(job.status);
+}
+
+async function runJob(store: JobStore, job: Job) {
+  const controller = new AbortController();
+  runningJobs.set(job.id, controller);
+
+  // 事件按顺序写入存储后再通知订阅者
+  let queue: Promise<unknown> = Promise.resolve();
+  function sendEvent(event: string, data: any) {
+    if (deletingJobs.has(job.id)) return;
+    queue = queue
+      .then(() => store.appendEvent(job.id, event, data))
+      .then((jobEvent) => notify(job.id, jobEvent))
+      .catch((err) => console.error(`Failed to save job event: ${err}`));
+  }
+
+  const workload = job.type === "think" ? runThinkWorkload : runResearchWorkload;
+  let updates: Partial<Job>;
+  try {
+    await store.updateJob(job.id, { status: "running" });
+    const result = await workload(job.params, sendEvent, controller.signal);
+    updates = controller.signal.aborted
+      ? { status: "cancelled", result }
+      : { status: "completed", result };
+  } catch (err) {
+    updates = controller.signal.aborted
+      ? { status: "cancelled" }
+      : {
+          status: "failed",
+          error: err instanceof Error ? err.message : "Unknown error",
+        };
+  }
+
+  await queue;
+  runningJobs.delete(job.id);
+  if (deletingJobs.delete(job.id)) {
+    await store.deleteJob(job.id);
+  } else {
+    await store.updateJob(job.id, updates);
+  }
+  notify(job.id, null);
+}
+
+/**
+ * Creates a job and runs it in the background, independent of the request.
+ */
+export async function createJob(type: JobType, params: Record<string, any>) {
+  const store = await getJobStore();
+  const now = Date.now();
+  const job: Job = {
+    id: nanoid(),
+    type,
+    status: "pending",
+    params,
+    createdAt: now,
+    updatedAt: now,
+  };
+  await store.createJob(job);
+  runJob(store, job).catch((err) => {
+    console.error(`Job ${job.id} failed: ${err}`);
+  });
+  return job;
+}
+
+export function cancelJob(id: string) {
+  const controller = runningJobs.get(id);
+  if (!controller) return false;
+  controller.abort();
+  return true;
+}
+
+export async function deleteJob(id: string) {
+  if (cancelJob(id)) {
+    deletingJobs.add(id);
+  } else {
+    const store = await getJobStore();
+    await store.deleteJob(id);
+  }
+}
@@ -0,0 +1,372 @@
+import fs from "node:fs/promises";
+import path from "node:path";
+
+export type JobType = "research" | "think";
+
+export type JobStatus =
+  | "pending"
+  | "running"
+  | "completed"
+  | "failed"
+  | "cancelled";
+
+export interface Job {
+  id: string;
+  type: JobType;
+  status: JobStatus;
+  // 创建任务时的请求参数，与 `/api/sse` 和 `/api/sse/think` 的请求体相同
+  params: Record<string, any>;
+  result?: unknown;
+  error?: string;
+  createdAt: number;
+  updatedAt: number;
+}
+
+export interface JobEvent {
+  // 任务内从 1 开始递增，用作 SSE 的事件 ID
+  id: number;
+  event: string;
+  data: unknown;
+}
+
+export interface JobStore {
+  init(): Promise<void>;
+  createJob(job: Job): Promise<void>;
+  updateJob(
+    id: string,
+    updates: Partial<Omit<Job, "id" | "type">>
+  ): Promise<Job | undefined>;
+  getJob(id: string): Promise<Job | undefined>;
+  listJobs(limit?: number): Promise<Job[]>;
+  deleteJob(id: string): Promise<void>;
+  appendEvent(jobId: string, event: string, data: unknown): Promise<JobEvent>;
+  getEvents(jobId: string, afterId?: number): Promise<JobEvent[]>;
+}
+
+function sortJobs(jobs: Job[], limit: number) {
+  return jobs.sort((a, b) => b.createdAt - a.createdAt).slice(0, limit);
+}
+
+/**
+ * Keeps jobs in the memory of the server process, they are lost on restart.
+ */
+export class MemoryJobStore implements JobStore {
+  private _jobs: Map<string, Job> = new Map();
+  private _events: Map<string, JobEvent[]> = new Map();
+
+  async init() {}
+
+  async createJob(job: Job) {
+    this._jobs.set(job.id, { ...job });
+    this._events.set(job.id, []);
+  }
+
+  async updateJob(id: string, updates: Partial<Omit<Job, "id" | "type">>) {
+    const job = this._jobs.get(id);
+    if (!job) return undefined;
+    const updated = { ...job, ...updates, updatedAt: Date.now() };
+    this._jobs.set(id, updated);
+    return updated;
+  }
+
+  async getJob(id: string) {
+    return this._jobs.get(id);
+  }
+
+  async listJobs(limit = 100) {
+    return sortJobs(Array.from(this._jobs.values()), limit);
+  }
+
+  async deleteJob(id: string) {
+    this._jobs.delete(id);
+    this._events.delete(id);
+  }
+
+  async appendEvent(jobId: string, event: string, data: unknown) {
+    const events = this._events.get(jobId) ?? [];
+    const jobEvent = { id: events.length + 1, event, data };
+    events.push(jobEvent);
+    this._events.set(jobId, events);
+    return jobEvent;
+  }
+
+  async getEvents(jobId: string, afterId = 0) {
+    return (this._events.get(jobId) ?? []).filter(({ id }) => id > afterId);
+  }
+}
+
+/**
+ * Stores each job as `{id}.json` and appends its events to `{id}.jsonl`.
+ */
+export class FileJobStore implements JobStore {
+  private _dir: string;
+  // 每个任务最后一个事件的 ID，重启后首次写入时从文件中恢复
+  private _lastEventIds: Map<string, number> = new Map();
+  // 串行写入，保证事件按顺序追加
+  private _queue: Promise<unknown> = Promise.resolve();
+
+  constructor(dir: string) {
+    this._dir = dir;
+  }
+
+  private enqueue<T>(task: () => Promise<T>): Promise<T> {
+    const result = this._queue.then(task);
+    this._queue = result.catch(() => {});
+    return result;
+  }
+
+  private getJobPath(id: string) {
+    return path.join(this._dir, `${encodeURIComponent(id)}.json`);
+  }
+
+  private getEventsPath(id: string) {
+    return path.join(this._dir, `${encodeURIComponent(id)}.jsonl`);
+  }
+
+  // 先写入临时文件再重命名，避免读取到写了一半的任务文件
+  private async writeJob(job: Job) {
+    const jobPath = this.getJobPath(job.id);
+    await fs.writeFile(`${jobPath}.tmp`, JSON.stringify(job), "utf-8");
+    await fs.rename(`${jobPath}.tmp`, jobPath);
+  }
+
+  private async readEvents(jobId: string): Promise<JobEvent[]> {
+    try {
+      const content = await fs.readFile(this.getEventsPath(jobId), "utf-8");
+      return content
+        .split("\n")
+        .filter((line) => line !== "")
+        .map((line) => JSON.parse(line) as JobEvent);
+    } catch {
+      return [];
+    }
+  }
+
+  async init() {
+    await fs.mkdir(this._dir, { recursive: true });
+  }
+
+  async createJob(job: Job) {
+    await this.enqueue(() => this.writeJob(job));
+  }
+
+  async updateJob(id: string, updates: Partial<Omit<Job, "id" | "type">>) {
+    return await this.enqueue(async () => {
+      const job = await this.getJob(id);
+      if (!job) return undefined;
+      const updated = { ...job, ...updates, updatedAt: Date.now() };
+      await this.writeJob(updated);
+      return updated;
+    });
+  }
+
+  async getJob(id: string) {
+    try {
+      const content = await fs.readFile(this.getJobPath(id), "utf-8");
+      return JSON.parse(content) as Job;
+    } catch {
+      return undefined;
+    }
+  }
+
+  async listJobs(limit = 100) {
+    const files = await fs.readdir(this._dir);
+    const jobs = await Promise.all(
+      files
+        .filter((file) => file.endsWith(".json"))
+        .map((file) => this.getJob(decodeURIComponent(file.slice(0, -5))))
+    );
+    return sortJobs(
+      jobs.filter((job): job is Job => !!job),
+      limit
+    );
+  }
+
+  async deleteJob(id: string) {
+    await this.enqueue(async () => {
+      await fs.rm(this.getJobPath(id), { force: true });
+      await fs.rm(this.getEventsPath(id), { force: true });
+      this._lastEventIds.delete(id);
+    });
+  }
+
+  async appendEvent(jobId: string, event: string, data: unknown) {
+    return await this.enqueue(async () => {
+      let lastEventId = this._lastEventIds.get(jobId);
+      if (lastEventId === undefined) {
+        const events = await this.readEvents(jobId);
+        lastEventId = events.length > 0 ? events[events.length - 1].id : 0;
+      }
+      const jobEvent = { id: lastEventId + 1, event, data };
+      await fs.appendFile(
+        this.getEventsPath(jobId),
+        `${JSON.stringify(jobEvent)}\n`,
+        "utf-8"
+      );
+      this._lastEventIds.set(jobId, jobEvent.id);
+      return jobEvent;
+    });
+  }
+
+  async getEvents(jobId: string, afterId = 0) {
+    // 等待排队中的写入完成，保证返回所有已追加的事件
+    await this._queue;
+    const events = await this.readEvents(jobId);
+    return events.filter(({ id }) => id > afterId);
+  }
+}
+
+// `node:sqlite` 中用到的部分接口
+interface SQLiteStatement {
+  run(...params: unknown[]): unknown;
+  get(...params: unknown[]): Record<string, any> | undefined;
+  all(...params: unknown[]): Record<string, any>[];
+}
+
+interface SQLiteDatabase {
+  exec(sql: string): void;
+  prepare(sql: string): SQLiteStatement;
+}
+
+function rowToJob(row: Record<string, any>): Job {
+  return {
+    id: row.id,
+    type: row.type,
+    status: row.status,
+    params: JSON.parse(row.params),
+    result: row.result ? JSON.parse(row.result) : undefined,
+    error: row.error ?? undefined,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+  };
+}
+
+/**
+ * Stores jobs and events in a SQLite database with the built-in `node:sqlite`
+ * module, which requires Node.js 22.5 or later.
+ */
+export class SQLiteJobStore implements JobStore {
+  private _file: string;
+  private _db?: SQLiteDatabase;
+
+  constructor(file: string) {
+    this._file = file;
+  }
+
+  private get db(): SQLiteDatabase {
+    if (!this._db) {
+      throw new Error("SQLiteJobStore is not initialized, call init() first");
+    }
+    return this._db;
+  }
+
+  async init() {
+    let sqlite: { DatabaseSync: new (file: string) => SQLiteDatabase };
+    try {
+      sqlite = await import(/* webpackIgnore: true */ "node:sqlite" as string);
+    } catch {
+      throw new Error("SQLite job store requires Node.js 22.5 or later");
+    }
+    await fs.mkdir(path.dirname(this._file), { recursive: true });
+    this._db = new sqlite.DatabaseSync(this._file);
+    this._db.exec(`
+      CREATE TABLE IF NOT EXISTS jobs (
+        id TEXT PRIMARY KEY,
+        type TEXT NOT NULL,
+        status TEXT NOT NULL,
+        params TEXT NOT NULL,
+        result TEXT,
+        error TEXT,
+        created_at INTEGER NOT NULL,
+        updated_at INTEGER NOT NULL
+      );
+      CREATE TABLE IF NOT EXISTS job_events (
+        job_id TEXT NOT NULL,
+        id INTEGER NOT NULL,
+        event TEXT NOT NULL,
+        data TEXT NOT NULL,
+        PRIMARY KEY (job_id, id)
+      );
+    `);
+  }
+
+  async createJob(job: Job) {
+    this.db
+      .prepare(
+        "INSERT INTO jobs (id, type, status, params, result, error, created_at, updated_at) VALUES (?, ?, ?, ?, ?, ?, ?, ?)"
+      )
+      .run(
+        job.id,
+        job.type,
+        job.status,
+        JSON.stringify(job.params),
+        job.result === undefined ? null : JSON.stringify(job.result),
+        job.error ?? null,
+        job.createdAt,
+        job.updatedAt
+      );
+  }
+
+  async updateJob(id: string, updates: Partial<Omit<Job, "id" | "type">>) {
+    const job = await this.getJob(id);
+    if (!job) return undefined;
+    const updated = { ...job, ...updates, updatedAt: Date.now() };
+    this.db
+      .prepare(
+        "UPDATE jobs SET status = ?, params = ?, result = ?, error = ?, updated_at = ? WHERE id = ?"
+      )
+      .run(
+        updated.status,
+        JSON.stringify(updated.params),
+        updated.result === undefined ? null : JSON.stringify(updated.result),
+        updated.error ?? null,
+        updated.updatedAt,
+        id
+      );
+    return updated;
+  }
+
+  async getJob(id: string) {
+    const row = this.db.prepare("SELECT * FROM jobs WHERE id = ?").get(id);
+    return row ? rowToJob(row) : undefined;
+  }
+
+  async listJobs(limit = 100) {
+    return this.db
+      .prepare("SELECT * FROM jobs ORDER BY created_at DESC LIMIT ?")
+      .all(limit)
+      .map(rowToJob);
+  }
+
+  async deleteJob(id: string) {
+    this.db.prepare("DELETE FROM job_events WHERE job_id = ?").run(id);
+    this.db.prepare("DELETE FROM jobs WHERE id = ?").run(id);
+  }
+
+  async appendEvent(jobId: string, event: string, data: unknown) {
+    // DatabaseSync 是同步执行的，查询和写入之间不会插入其他写入
+    const row = this.db
+      .prepare("SELECT MAX(id) AS id FROM job_events WHERE job_id = ?")
+      .get(jobId);
+    const jobEvent = { id: (row?.id ?? 0) + 1, event, data };
+    this.db
+      .prepare(
+        "INSERT INTO job_events (job_id, id, event, data) VALUES (?, ?, ?, ?)"
+      )
+      .run(jobId, jobEvent.id, event, JSON.stringify(data ?? null));
+    return jobEvent;
+  }
+
+  async getEvents(jobId: string, afterId = 0) {
+    return this.db
+      .prepare(
+        "SELECT id, event, data FROM job_events WHERE job_id = ? AND id > ? ORDER BY id"
+      )
+      .all(jobId, afterId)
+      .map((row) => ({
+        id: row.id,
+        event: row.event,
+        data: JSON.parse(row.data),
+      }));
+  }
+}
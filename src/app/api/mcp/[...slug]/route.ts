@@ -24,7 +24,7 @@ const POST_ENDPOINT_PATH = "/api/mcp/sse/messages"; // This must match your POST
 
 export async function GET(): Promise<NextResponse> {
   // Create an MCP server
-  const server = initMcpServer();
+  const server = initMcpServer({ saveResults: true });
 
   // Create a new transport instance for this session
   const transport = new SSEServerTransport({
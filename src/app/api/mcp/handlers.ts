@@ -0,0 +1,112 @@
+import { NextResponse, type NextRequest } from "next/server";
+import { StreamableHTTPServerTransport } from "@/libs/mcp-server/streamableHttp";
+import { initMcpServer } from "./server";
+import {
+  isStatefulMode,
+  createSession,
+  getSession,
+  removeExpiredSessions,
+} from "./session";
+
+function sessionNotFound() {
+  return NextResponse.json(
+    {
+      jsonrpc: "2.0",
+      error: { code: -32001, message: "Session not found" },
+      id: null,
+    },
+    { status: 404 }
+  );
+}
+
+/**
+ * 有状态模式：客户端通过 mcp-session-id 复用同一个会话，
+ * 断线后可以带上 Last-Event-ID 通过 GET 请求恢复事件流
+ */
+async function handleSessionRequest(req: NextRequest) {
+  await removeExpiredSessions();
+
+  const sessionId = req.headers.get("mcp-session-id");
+  if (sessionId) {
+    const session = getSession(sessionId);
+    if (!session) return sessionNotFound();
+    const response = await session.transport.handleRequest(req);
+    return new NextResponse(response.body, response);
+  }
+
+  // 没有会话 ID 时只允许通过 initialize 请求创建新会话
+  if (req.method !== "POST") return sessionNotFound();
+  const { transport } = await createSession();
+  const response = await transport.handleRequest(req);
+  // 不是合法的 initialize 请求，会话不会被登记，直接释放
+  if (!transport.sessionId) await transport.close();
+  return new NextResponse(response.body, response);
+}
+
+function handleError(error: unknown) {
+  if (error instanceof Error) {
+    console.error(error);
+    return NextResponse.json(
+      { code: 500, message: error.message },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(req: NextRequest) {
+  try {
+    if (isStatefulMode()) return await handleSessionRequest(req);
+
+    const server = initMcpServer();
+    const transport: StreamableHTTPServerTransport =
+      new StreamableHTTPServerTransport({
+        sessionIdGenerator: undefined,
+      });
+
+    transport.onclose = () => {
+      transport.close();
+      server.close();
+    };
+
+    transport.onerror = (err) => {
+      return NextResponse.json(
+        { code: 500, message: err.message },
+        { status: 500 }
+      );
+    };
+
+    await server.connect(transport);
+    const response = await transport.handleRequest(req);
+    return new NextResponse(response.body, response);
+  } catch (error) {
+    return handleError(error);
+  }
+}
+
+export async function GET(req: NextRequest) {
+  if (!isStatefulMode()) {
+    return NextResponse.json(
+      { code: 405, message: "Method not allowed" },
+      { status: 405 }
+    );
+  }
+  try {
+    return await handleSessionRequest(req);
+  } catch (error) {
+    return handleError(error);
+  }
+}
+
+export async function DELETE(req: NextRequest) {
+  if (!isStatefulMode()) {
+    return NextResponse.json(
+      { code: 405, message: "Method not allowed" },
+      { status: 405 }
+    );
+  }
+  try {
+    return await handleSessionRequest(req);
+  } catch (error) {
+    return handleError(error);
+  }
+}
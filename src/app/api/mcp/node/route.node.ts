@@ -0,0 +1,6 @@
+export { POST, GET, DELETE } from "../handlers";
+
+// 有状态会话使用文件事件存储（MCP_EVENT_STORE=file）时需要 Node.js 运行时。
+// 该路由只在 standalone 构建中启用，/api/mcp 会被重写到这里，见 next.config.ts
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
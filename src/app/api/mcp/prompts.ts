@@ -0,0 +1,218 @@
+import { z } from "zod";
+import { McpServer } from "@/libs/mcp-server/mcp";
+import { completable } from "@/libs/mcp-server/completable";
+import { McpError, ErrorCode } from "@/libs/mcp-server/types";
+import {
+  getSystemPrompt,
+  generateQuestionsPrompt,
+  writeReportPlanPrompt,
+  generateSerpQueriesPrompt,
+  writeFinalReportPrompt,
+} from "@/utils/deep-research/prompts";
+import {
+  verificationSystemPrompt,
+  buildVerificationPrompt,
+  buildAskQuestionsPrompt,
+  buildThinkingPlanPrompt,
+  buildInitialThinkingPrompt,
+} from "@/utils/deep-think/prompts";
+import locales from "@/constants/locales";
+import { researchStore, thinkStore } from "./store";
+
+function getResponseLanguagePrompt(language?: string) {
+  return language
+    ? `**Respond in ${language}**`
+    : `**Respond in the same language as the user's language**`;
+}
+
+// MCP 提示词不支持 system 角色，系统提示词与任务提示词合并为一条用户消息
+function userMessage(...parts: string[]) {
+  return {
+    messages: [
+      {
+        role: "user" as const,
+        content: { type: "text" as const, text: parts.join("\n\n") },
+      },
+    ],
+  };
+}
+
+function languageArgument() {
+  return completable(z.string(), (value) =>
+    Object.values(locales).filter((language) =>
+      language.toLowerCase().startsWith(value.toLowerCase())
+    )
+  )
+    .optional()
+    .describe("The response language.");
+}
+
+/**
+ * 将应用内置的提示词模板注册为 MCP 提示词，方便客户端直接复用
+ */
+export function registerPrompts(server: McpServer) {
+  server.prompt(
+    "clarifying-questions",
+    "Ask follow-up questions to clarify the research direction of a query.",
+    {
+      query: z.string().describe("The topic for deep research."),
+      language: languageArgument(),
+    },
+    ({ query, language }) =>
+      userMessage(
+        getSystemPrompt(),
+        generateQuestionsPrompt(query),
+        getResponseLanguagePrompt(language)
+      )
+  );
+
+  server.prompt(
+    "research-plan",
+    "Write a research plan for a query.",
+    {
+      query: z.string().describe("The topic for deep research."),
+      language: languageArgument(),
+    },
+    ({ query, language }) =>
+      userMessage(
+        getSystemPrompt(),
+        writeReportPlanPrompt(query),
+        getResponseLanguagePrompt(language)
+      )
+  );
+
+  server.prompt(
+    "serp-queries",
+    "Generate a list of SERP queries based on a research plan.",
+    {
+      plan: z.string().describe("Research plan for deep research."),
+      language: languageArgument(),
+    },
+    ({ plan, language }) =>
+      userMessage(
+        getSystemPrompt(),
+        generateSerpQueriesPrompt(plan),
+        getResponseLanguagePrompt(language)
+      )
+  );
+
+  server.prompt(
+    "thinking-questions",
+    "Ask clarifying questions before thinking deeply about a problem.",
+    {
+      problem: z.string().describe("The problem to think about."),
+    },
+    ({ problem }) => userMessage(buildAskQuestionsPrompt(problem))
+  );
+
+  server.prompt(
+    "thinking-plan",
+    "Make a structured plan before thinking deeply about a problem.",
+    {
+      problem: z.string().describe("The problem to think about."),
+      userAnswers: z
+        .string()
+        .optional()
+        .describe("Answers to clarifying questions about the problem."),
+    },
+    ({ problem, userAnswers }) =>
+      userMessage(buildThinkingPlanPrompt(problem, userAnswers))
+  );
+
+  server.prompt(
+    "deep-think",
+    "Think deeply about a problem and write a rigorous analysis.",
+    {
+      problem: z.string().describe("The problem to think about."),
+      knowledgeContext: z
+        .string()
+        .optional()
+        .describe("Reference knowledge to use while thinking."),
+    },
+    ({ problem, knowledgeContext }) =>
+      userMessage(buildInitialThinkingPrompt(problem, [], knowledgeContext))
+  );
+
+  server.prompt(
+    "verify-solution",
+    "Critically review the analysis or solution of a problem.",
+    {
+      problem: z.string().describe("The original problem."),
+      solution: z.string().describe("The analysis or solution to review."),
+    },
+    ({ problem, solution }) =>
+      userMessage(
+        verificationSystemPrompt,
+        buildVerificationPrompt(problem, solution)
+      )
+  );
+}
+
+/**
+ * 基于已保存结果的提示词，只在结果可以跨请求读取时注册，见 registerResources
+ */
+export function registerSavedResultPrompts(server: McpServer) {
+  server.prompt(
+    "rewrite-report",
+    "Rewrite the final report of a saved research with new requirements.",
+    {
+      id: completable(
+        z.string().describe("ID of the research report resource."),
+        (value) => researchStore.completeId(value)
+      ),
+      requirement: z
+        .string()
+        .optional()
+        .describe("Writing requirements for the new report."),
+      language: languageArgument(),
+    },
+    ({ id, requirement = "", language }) => {
+      const item = researchStore.get(id);
+      if (!item) {
+        throw new McpError(
+          ErrorCode.InvalidParams,
+          `Research report ${id} not found`
+        );
+      }
+      const { learnings, sources, images } = item.result;
+      return userMessage(
+        getSystemPrompt(),
+        writeFinalReportPrompt(
+          item.query,
+          learnings,
+          sources,
+          images,
+          requirement,
+          images.length > 0,
+          sources.length > 0,
+          false
+        ),
+        getResponseLanguagePrompt(language)
+      );
+    }
+  );
+
+  server.prompt(
+    "verify-think-result",
+    "Critically review the final solution of a saved think result.",
+    {
+      id: completable(
+        z.string().describe("ID of the think result resource."),
+        (value) => thinkStore.completeId(value)
+      ),
+    },
+    ({ id }) => {
+      const item = thinkStore.get(id);
+      if (!item) {
+        throw new McpError(
+          ErrorCode.InvalidParams,
+          `Think result ${id} not found`
+        );
+      }
+      return userMessage(
+        verificationSystemPrompt,
+        buildVerificationPrompt(item.query, item.result.finalSolution)
+      );
+    }
+  );
+}
@@ -0,0 +1,117 @@
+import { McpServer, ResourceTemplate } from "@/libs/mcp-server/mcp";
+import { McpError, ErrorCode } from "@/libs/mcp-server/types";
+import { researchStore, thinkStore, type StoredResult } from "./store";
+
+export function getResearchUri(id: string) {
+  return `research://${id}`;
+}
+
+export function getThinkUri(id: string) {
+  return `think://${id}`;
+}
+
+function getVariable(value: string | string[]) {
+  return Array.isArray(value) ? value[0] : value;
+}
+
+function toResource<T>(item: StoredResult<T>, uri: string) {
+  return {
+    uri,
+    name: item.title,
+    description: `Created at ${new Date(item.createdAt).toISOString()}`,
+    mimeType: "text/markdown",
+  };
+}
+
+/**
+ * 将工具调用保存的研究报告和思考结果注册为资源，
+ * 每个资源同时提供 Markdown 正文和完整的 JSON 结果
+ */
+export function registerResources(server: McpServer) {
+  server.resource(
+    "research-report",
+    new ResourceTemplate("research://{id}", {
+      list: () => ({
+        resources: researchStore
+          .list()
+          .map((item) => toResource(item, getResearchUri(item.id))),
+      }),
+      complete: {
+        id: (value) => researchStore.completeId(value),
+      },
+    }),
+    {
+      description:
+        "Final reports of the deep research tasks run by this server.",
+      mimeType: "text/markdown",
+    },
+    (uri, { id }) => {
+      const item = researchStore.get(getVariable(id));
+      if (!item) {
+        throw new McpError(
+          ErrorCode.InvalidParams,
+          `Research report ${uri.href} not found`
+        );
+      }
+      return {
+        contents: [
+          {
+            uri: uri.href,
+            mimeType: "text/markdown",
+            text: item.result.finalReport,
+          },
+          {
+            uri: uri.href,
+            mimeType: "application/json",
+            text: JSON.stringify({ query: item.query, ...item.result }),
+          },
+        ],
+      };
+    }
+  );
+
+  server.resource(
+    "think-result",
+    new ResourceTemplate("think://{id}", {
+      list: () => ({
+        resources: thinkStore
+          .list()
+          .map((item) => toResource(item, getThinkUri(item.id))),
+      }),
+      complete: {
+        id: (value) => thinkStore.completeId(value),
+      },
+    }),
+    {
+      description:
+        "Results of the Deep Think and Ultra Think tasks run by this server.",
+      mimeType: "text/markdown",
+    },
+    (uri, { id }) => {
+      const item = thinkStore.get(getVariable(id));
+      if (!item) {
+        throw new McpError(
+          ErrorCode.InvalidParams,
+          `Think result ${uri.href} not found`
+        );
+      }
+      return {
+        contents: [
+          {
+            uri: uri.href,
+            mimeType: "text/markdown",
+            text: item.result.summary || item.result.finalSolution,
+          },
+          {
+            uri: uri.href,
+            mimeType: "application/json",
+            text: JSON.stringify({
+              problemStatement: item.query,
+              ...item.result,
+            }),
+          },
+        ],
+      };
+    }
+  );
+}
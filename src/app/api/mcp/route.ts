@@ -1,7 +1,7 @@
-import { NextResponse, type NextRequest } from "next/server";
-import { StreamableHTTPServerTransport } from "@/libs/mcp-server/streamableHttp";
-import { initMcpServer } from "./server";
+export { POST, GET, DELETE } from "./handlers";
 
+// standalone 构建中 /api/mcp 会被重写到使用 Node.js 运行时的 node/route.node.ts，
+// 见 next.config.ts
 export const runtime = "edge";
 export const dynamic = "force-dynamic";
 export const preferredRegion = [
@@ -14,37 +14,3 @@ export const preferredRegion = [
   "hnd1",
   "kix1",
 ];
-
-export async function POST(req: NextRequest) {
-  try {
-    const server = initMcpServer();
-    const transport: StreamableHTTPServerTransport =
-      new StreamableHTTPServerTransport({
-        sessionIdGenerator: undefined,
-      });
-
-    transport.onclose = () => {
-      transport.close();
-      server.close();
-    };
-
-    transport.onerror = (err) => {
-      return NextResponse.json(
-        { code: 500, message: err.message },
-        { status: 500 }
-      );
-    };
-
-    await server.connect(transport);
-    const response = await transport.handleRequest(req);
-    return new NextResponse(response.body, response);
-  } catch (error) {
-    if (error instanceof Error) {
-      console.error(error);
-      return NextResponse.json(
-        { code: 500, message: error.message },
-        { status: 500 }
-      );
-    }
-  }
-}
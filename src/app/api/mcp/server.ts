@@ -1,6 +1,19 @@
 import { z } from "zod";
 import { McpServer } from "@/libs/mcp-server/mcp";
-import DeepResearch from "@/utils/deep-research";
+import type { RequestHandlerExtra } from "@/libs/mcp-server/shared/protocol";
+import type {
+  ServerNotification,
+  ServerRequest,
+} from "@/libs/mcp-server/types";
+import DeepResearch, { type FinalReportResult } from "@/utils/deep-research";
+import { createAIProvider } from "@/utils/deep-research/provider";
+import { createSearchProvider } from "@/utils/deep-research/search";
+import {
+  runDeepThink,
+  runUltraThink,
+  type DeepThinkProgressEvent,
+} from "@/utils/deep-think";
+import { deepThinkCheckpointSchema } from "@/utils/deep-think/checkpoint";
 import { multiApiKeyPolling } from "@/utils/model";
 import {
   getAIProviderBaseURL,
@@ -8,6 +21,9 @@ import {
   getSearchProviderBaseURL,
   getSearchProviderApiKey,
 } from "../utils";
+import { researchStore, thinkStore } from "./store";
+import { registerResources, getResearchUri, getThinkUri } from "./resources";
+import { registerPrompts, registerSavedResultPrompts } from "./prompts";
 
 const AI_PROVIDER = process.env.MCP_AI_PROVIDER || "";
 const SEARCH_PROVIDER = process.env.MCP_SEARCH_PROVIDER || "model";
@@ -17,12 +33,27 @@ const TASK_MODEL = process.env.MCP_TASK_MODEL || "";
 function initDeepResearchServer({
   language,
   maxResult,
+  parallelSearch,
+  depth,
+  breadth,
+  fetchFullPage,
+  maxSourceTokens,
 }: {
   language?: string;
   maxResult?: number;
+  parallelSearch?: number;
+  depth?: number;
+  breadth?: number;
+  fetchFullPage?: boolean;
+  maxSourceTokens?: number;
 }) {
   const deepResearch = new DeepResearch({
     language,
+    parallelSearch,
+    depth,
+    breadth,
+    fetchFullPage,
+    maxSourceTokens,
     AIProvider: {
       baseURL: getAIProviderBaseURL(AI_PROVIDER),
       apiKey: multiApiKeyPolling(getAIProviderApiKey(AI_PROVIDER)),
@@ -54,7 +85,138 @@ function initDeepResearchServer({
   return deepResearch;
 }
 
-export function initMcpServer() {
+function initDeepThinkServer({ maxResult }: { maxResult?: number }) {
+  async function createModelProvider(
+    model: string,
+    settings?: any,
+    stageProvider: string = AI_PROVIDER
+  ) {
+    return await createAIProvider({
+      provider: stageProvider,
+      baseURL: getAIProviderBaseURL(stageProvider),
+      apiKey: multiApiKeyPolling(getAIProviderApiKey(stageProvider)),
+      model,
+      settings,
+    });
+  }
+
+  // External search provider, exposed to the model as a search tool
+  async function webSearch(query: string) {
+    return await createSearchProvider({
+      provider: SEARCH_PROVIDER,
+      baseURL: getSearchProviderBaseURL(SEARCH_PROVIDER),
+      apiKey: multiApiKeyPolling(getSearchProviderApiKey(SEARCH_PROVIDER)),
+      query,
+      maxResult,
+    });
+  }
+
+  return {
+    createModelProvider,
+    webSearch,
+    thinkingModel: THINKING_MODEL,
+    taskModel: TASK_MODEL,
+    searchProvider: { provider: SEARCH_PROVIDER, maxResult },
+  };
+}
+
+function getThinkProgressMessage(event: DeepThinkProgressEvent) {
+  switch (event.type) {
+    case "init":
+      return "Initializing...";
+    case "asking":
+      return "Generating clarifying questions...";
+    case "planning":
+      return "Planning the thinking process...";
+    case "thinking":
+      return `Thinking (iteration ${event.data.iteration}, phase: ${event.data.phase})`;
+    case "solution":
+      return `Solution generated (iteration ${event.data.iteration})`;
+    case "verification":
+      return `Verification ${
+        event.data.passed ? "passed" : "failed"
+      } (iteration ${event.data.iteration})`;
+    case "correction":
+      return `Correcting solution (iteration ${event.data.iteration})`;
+    case "summarizing":
+    case "progress":
+      return event.data.message;
+    case "success":
+      return "Successfully completed!";
+    case "failure":
+      return `Failed: ${event.data.reason}`;
+    case "cancelled":
+      return `Cancelled (iteration ${event.data.iteration})`;
+  }
+}
+
+/**
+ * Report progress through MCP progress notifications, only when the client
+ * requested them with a progress token.
+ */
+function createProgressNotifier(
+  extra: RequestHandlerExtra<ServerRequest, ServerNotification>
+) {
+  const progressToken = extra._meta?.progressToken;
+  let progress = 0;
+
+  return (message: string) => {
+    if (progressToken === undefined || extra.signal.aborted) return;
+    progress += 1;
+    extra
+      .sendNotification({
+        method: "notifications/progress",
+        params: { progressToken, progress, message },
+      })
+      .catch((err) => console.error("Failed to send progress:", err));
+  };
+}
+
+/**
+ * 将保存的结果作为内嵌资源返回，客户端之后可以按 uri 重新读取
+ */
+function savedResultContent(uri: string, text: string) {
+  return {
+    type: "resource" as const,
+    resource: { uri, mimeType: "text/markdown", text },
+  };
+}
+
+interface McpServerOptions {
+  /**
+   * 保存工具调用的结果并注册为资源，只在服务端内存可以跨请求保留时开启，
+   * 例如有状态会话和 SSE 连接，无状态请求每次都会新建服务
+   */
+  saveResults?: boolean;
+}
+
+export function initMcpServer({ saveResults = false }: McpServerOptions = {}) {
+  function researchResultContent(query: string, result: FinalReportResult) {
+    const content = [{ type: "text" as const, text: JSON.stringify(result) }];
+    if (!saveResults) return content;
+    const { id } = researchStore.save(query, result.title, result);
+    return [
+      ...content,
+      savedResultContent(getResearchUri(id), result.finalReport),
+    ];
+  }
+
+  function thinkResultContent(problemStatement: string, result: ThinkResult) {
+    const content = [
+      { type: "text" as const, text: result.summary || result.finalSolution },
+      { type: "text" as const, text: JSON.stringify(result) },
+    ];
+    if (!saveResults) return content;
+    const { id } = thinkStore.save(problemStatement, "", result);
+    return [
+      ...content,
+      savedResultContent(
+        getThinkUri(id),
+        result.summary || result.finalSolution
+      ),
+    ];
+  }
+
   const deepResearchToolDescription =
     "Start deep research on any question, obtain and organize information through search engines, and generate research report.";
   const writeResearchPlanDescription =
@@ -65,6 +227,10 @@ export function initMcpServer() {
     "Generate SERP queries based on the research plan.";
   const writeFinalReportDescription =
     "Write a final research report based on the research plan and the results of the information collection tasks.";
+  const deepThinkDescription =
+    "Solve a complex problem with Deep Think: iteratively generate, verify and correct a solution until it passes verification.";
+  const ultraThinkDescription =
+    "Solve a complex problem with Ultra Think: multiple agents explore different approaches in parallel and their solutions are synthesized into a final answer.";
 
   const server = new McpServer(
     {
@@ -89,6 +255,12 @@ export function initMcpServer() {
           "write-final-report": {
             description: writeFinalReportDescription,
           },
+          "deep-think": {
+            description: deepThinkDescription,
+          },
+          "ultra-think": {
+            description: ultraThinkDescription,
+          },
         },
       },
     }
@@ -108,6 +280,41 @@ export function initMcpServer() {
         .optional()
         .default(5)
         .describe("Maximum number of search results."),
+      parallelSearch: z
+        .number()
+        .int()
+        .min(1)
+        .optional()
+        .default(1)
+        .describe("Maximum number of search tasks to run concurrently."),
+      fetchFullPage: z
+        .boolean()
+        .default(false)
+        .optional()
+        .describe(
+          "Whether to fetch the full page of the top search results instead of using the search snippets."
+        ),
+      maxSourceTokens: z
+        .number()
+        .int()
+        .min(1)
+        .optional()
+        .describe("Maximum number of tokens of each search result."),
+      depth: z
+        .number()
+        .int()
+        .min(1)
+        .optional()
+        .default(1)
+        .describe(
+          "Number of research rounds. After each round, the learnings are reviewed and follow-up queries are generated for the gaps."
+        ),
+      breadth: z
+        .number()
+        .int()
+        .min(1)
+        .optional()
+        .describe("Maximum number of search tasks in each research round."),
       enableCitationImage: z
         .boolean()
         .default(true)
@@ -124,7 +331,18 @@ export function initMcpServer() {
         ),
     },
     async (
-      { query, language, maxResult, enableCitationImage, enableReferences },
+      {
+        query,
+        language,
+        maxResult,
+        parallelSearch,
+        depth,
+        breadth,
+        fetchFullPage,
+        maxSourceTokens,
+        enableCitationImage,
+        enableReferences,
+      },
       { signal }
     ) => {
       signal.addEventListener("abort", () => {
@@ -135,15 +353,18 @@ export function initMcpServer() {
         const deepResearch = initDeepResearchServer({
           language,
           maxResult,
+          parallelSearch,
+          depth,
+          breadth,
+          fetchFullPage,
+          maxSourceTokens,
         });
         const result = await deepResearch.start(
           query,
           enableCitationImage,
           enableReferences
         );
-        return {
-          content: [{ type: "text", text: JSON.stringify(result) }],
-        };
+        return { content: researchResultContent(query, result) };
       } catch (error) {
         return {
           isError: true,
@@ -248,6 +469,26 @@ export function initMcpServer() {
         .optional()
         .default(5)
         .describe("Maximum number of search results."),
+      parallelSearch: z
+        .number()
+        .int()
+        .min(1)
+        .optional()
+        .default(1)
+        .describe("Maximum number of search tasks to run concurrently."),
+      fetchFullPage: z
+        .boolean()
+        .default(false)
+        .optional()
+        .describe(
+          "Whether to fetch the full page of the top search results instead of using the search snippets."
+        ),
+      maxSourceTokens: z
+        .number()
+        .int()
+        .min(1)
+        .optional()
+        .describe("Maximum number of tokens of each search result."),
       enableReferences: z
         .boolean()
         .default(true)
@@ -257,7 +498,15 @@ export function initMcpServer() {
         ),
     },
     async (
-      { tasks, language, maxResult, enableReferences = true },
+      {
+        tasks,
+        language,
+        maxResult,
+        parallelSearch,
+        fetchFullPage,
+        maxSourceTokens,
+        enableReferences = true,
+      },
       { signal }
     ) => {
       signal.addEventListener("abort", () => {
@@ -265,7 +514,13 @@ export function initMcpServer() {
       });
 
       try {
-        const deepResearch = initDeepResearchServer({ language, maxResult });
+        const deepResearch = initDeepResearchServer({
+          language,
+          maxResult,
+          parallelSearch,
+          fetchFullPage,
+          maxSourceTokens,
+        });
         const result = await deepResearch.runSearchTask(
           tasks,
           enableReferences
@@ -381,8 +636,223 @@ export function initMcpServer() {
           enableCitationImage,
           enableReferences
         );
+        return { content: researchResultContent(plan, result) };
+      } catch (error) {
         return {
-          content: [{ type: "text", text: JSON.stringify(result) }],
+          isError: true,
+          content: [
+            {
+              type: "text",
+              text: `Error: ${
+                error instanceof Error ? error.message : "Unknown error"
+              }`,
+            },
+          ],
+        };
+      }
+    }
+  );
+
+  const modelStageValueSchema = z.union([
+    z.string(),
+    z.object({
+      provider: z.string().optional(),
+      model: z.string(),
+    }),
+  ]);
+  const deepThinkSchema = {
+    problemStatement: z.string().describe("The problem to think about."),
+    otherPrompts: z
+      .array(z.string())
+      .optional()
+      .describe("Additional instructions for solving the problem."),
+    knowledgeContext: z
+      .string()
+      .optional()
+      .describe("Reference knowledge to use while thinking."),
+    maxIterations: z
+      .number()
+      .int()
+      .min(1)
+      .optional()
+      .default(30)
+      .describe("Maximum number of verification and correction iterations."),
+    requiredSuccessfulVerifications: z
+      .number()
+      .int()
+      .min(1)
+      .optional()
+      .default(3)
+      .describe(
+        "Number of consecutive successful verifications required to accept a solution."
+      ),
+    maxErrorsBeforeGiveUp: z
+      .number()
+      .int()
+      .min(1)
+      .optional()
+      .default(10)
+      .describe("Number of failed verifications before giving up."),
+    enableWebSearch: z
+      .boolean()
+      .optional()
+      .default(false)
+      .describe("Whether the model can search the web while thinking."),
+    maxResult: z
+      .number()
+      .optional()
+      .default(5)
+      .describe("Maximum number of search results."),
+    enablePlanning: z
+      .boolean()
+      .optional()
+      .describe("Whether to make a thinking plan before starting."),
+    userAnswers: z
+      .string()
+      .optional()
+      .describe("Answers to clarifying questions about the problem."),
+    modelStages: z
+      .object({
+        initial: modelStageValueSchema.optional(),
+        improvement: modelStageValueSchema.optional(),
+        verification: modelStageValueSchema.optional(),
+        correction: modelStageValueSchema.optional(),
+        summary: modelStageValueSchema.optional(),
+        consensus: modelStageValueSchema.optional(),
+        planning: modelStageValueSchema.optional(),
+        agentConfig: modelStageValueSchema.optional(),
+        agentThinking: modelStageValueSchema.optional(),
+        critique: modelStageValueSchema.optional(),
+        synthesis: modelStageValueSchema.optional(),
+      })
+      .optional()
+      .describe(
+        "Models used for each stage, a model name or a provider and model. Stages not set use the thinking model."
+      ),
+    verifierModels: z
+      .array(modelStageValueSchema)
+      .optional()
+      .describe(
+        "Panel of models that verify the solution in parallel, each a model name or a provider and model."
+      ),
+    verificationQuorum: z
+      .enum(["all", "majority", "any"])
+      .optional()
+      .default("majority")
+      .describe("How many verifier models must pass the solution."),
+  };
+
+  server.tool(
+    "deep-think",
+    deepThinkDescription,
+    {
+      ...deepThinkSchema,
+      selfConsistencySamples: z
+        .number()
+        .int()
+        .min(1)
+        .optional()
+        .describe(
+          "Number of independent initial solutions to sample, only the majority answer is verified and corrected."
+        ),
+      checkpoint: deepThinkCheckpointSchema
+        .optional()
+        .describe("Checkpoint of a previous deep think run to resume from."),
+    },
+    async ({ maxResult, checkpoint, ...options }, extra) => {
+      const notifyProgress = createProgressNotifier(extra);
+
+      try {
+        const result = await runDeepThink({
+          ...initDeepThinkServer({ maxResult }),
+          ...options,
+          checkpoint,
+          abortSignal: extra.signal,
+          onProgress: (event) => {
+            const message = getThinkProgressMessage(event);
+            if (message) notifyProgress(message);
+          },
+        });
+        return {
+          content: thinkResultContent(options.problemStatement, result),
+        };
+      } catch (error) {
+        return {
+          isError: true,
+          content: [
+            {
+              type: "text",
+              text: `Error: ${
+                error instanceof Error ? error.message : "Unknown error"
+              }`,
+            },
+          ],
+        };
+      }
+    }
+  );
+
+  server.tool(
+    "ultra-think",
+    ultraThinkDescription,
+    {
+      ...deepThinkSchema,
+      numAgents: z
+        .number()
+        .int()
+        .min(1)
+        .optional()
+        .describe(
+          "Maximum number of agents. If not set, all agents suggested by the model are used."
+        ),
+      maxConcurrentAgents: z
+        .number()
+        .int()
+        .min(1)
+        .optional()
+        .describe("Maximum number of agents running at the same time."),
+      agentStartInterval: z
+        .number()
+        .int()
+        .min(0)
+        .optional()
+        .describe("Minimum interval between two agents starting, in ms."),
+      enableCritique: z
+        .boolean()
+        .optional()
+        .default(false)
+        .describe(
+          "Whether agents review each other's solutions before synthesis."
+        ),
+      rateLimit: z
+        .object({
+          maxRetries: z.number().int().min(0).optional(),
+          initialDelay: z.number().int().min(0).optional(),
+          maxDelay: z.number().int().min(0).optional(),
+        })
+        .optional()
+        .describe("Retry and backoff settings when the provider returns 429."),
+    },
+    async ({ maxResult, ...options }, extra) => {
+      const notifyProgress = createProgressNotifier(extra);
+
+      try {
+        const result = await runUltraThink({
+          ...initDeepThinkServer({ maxResult }),
+          ...options,
+          abortSignal: extra.signal,
+          onProgress: (event) => {
+            const message = getThinkProgressMessage(event);
+            if (message) notifyProgress(message);
+          },
+          onAgentUpdate: (agentId, update) => {
+            if (update.status) {
+              notifyProgress(`Agent ${agentId}: ${update.status}`);
+            }
+          },
+        });
+        return {
+          content: thinkResultContent(options.problemStatement, result),
         };
       } catch (error) {
         return {
@@ -400,5 +870,11 @@ export function initMcpServer() {
     }
   );
 
+  registerPrompts(server);
+  if (saveResults) {
+    registerResources(server);
+    registerSavedResultPrompts(server);
+  }
+
   return server;
 }
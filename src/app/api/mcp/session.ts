@@ -0,0 +1,105 @@
+import { StreamableHTTPServerTransport } from "@/libs/mcp-server/streamableHttp";
+import {
+  InMemoryEventStore,
+  FileEventStore,
+} from "@/libs/mcp-server/eventStore";
+import { initMcpServer } from "./server";
+
+const MCP_EVENT_STORE = process.env.MCP_EVENT_STORE || "memory";
+const MCP_EVENT_STORE_DIR =
+  process.env.MCP_EVENT_STORE_DIR || "/tmp/deep-research-mcp";
+
+// Sessions without any request for this long are closed, in minutes
+const MCP_SESSION_TTL = Number(process.env.MCP_SESSION_TTL || 30);
+// Sessions with a running tool call are kept longer, but a hung tool call
+// must not keep the session forever, in minutes
+const MAX_PENDING_SESSION_TTL = Math.max(MCP_SESSION_TTL, 6 * 60);
+
+interface McpSession {
+  transport: StreamableHTTPServerTransport;
+  eventStore: InMemoryEventStore | FileEventStore;
+  lastActiveAt: number;
+}
+
+// Sessions are kept in the memory of the server process, so stateful mode
+// requires a long-running server such as the self-hosted Docker image.
+const sessions = new Map<string, McpSession>();
+
+export function isStatefulMode() {
+  return process.env.MCP_SESSION_MODE === "stateful";
+}
+
+/**
+ * 文件存储需要 Node.js 运行时，只有 standalone 构建中的 node/route.node.ts 可以使用，
+ * 在边缘运行时中回退为内存存储
+ */
+async function createEventStore(sessionId: string) {
+  if (MCP_EVENT_STORE === "file" && process.env.NEXT_RUNTIME !== "edge") {
+    const eventStore = new FileEventStore(
+      `${MCP_EVENT_STORE_DIR}/${sessionId}`
+    );
+    try {
+      await eventStore.init();
+      return eventStore;
+    } catch (err) {
+      console.warn(
+        `Failed to use file event store, fallback to memory: ${
+          err instanceof Error ? err.message : err
+        }`
+      );
+    }
+  }
+  return new InMemoryEventStore();
+}
+
+async function closeSession(sessionId: string) {
+  const session = sessions.get(sessionId);
+  // 会话的清理在 server.onclose 中完成
+  if (session) await session.transport.close();
+}
+
+/**
+ * 关闭长时间没有请求且没有正在执行的工具调用的会话，
+ * 有工具调用的会话超过 MAX_PENDING_SESSION_TTL 后同样关闭
+ */
+export async function removeExpiredSessions() {
+  const now = Date.now();
+  for (const [sessionId, session] of sessions) {
+    const idle = now - session.lastActiveAt;
+    const ttl =
+      session.transport.pendingRequestCount === 0
+        ? MCP_SESSION_TTL
+        : MAX_PENDING_SESSION_TTL;
+    if (idle > ttl * 60 * 1000) await closeSession(sessionId);
+  }
+}
+
+export function getSession(sessionId: string) {
+  const session = sessions.get(sessionId);
+  if (session) session.lastActiveAt = Date.now();
+  return session;
+}
+
+/**
+ * 创建新的会话，会话 ID 在客户端发送 initialize 请求后生成并登记
+ */
+export async function createSession() {
+  const sessionId = crypto.randomUUID();
+  const eventStore = await createEventStore(sessionId);
+  const server = initMcpServer({ saveResults: true });
+  const transport = new StreamableHTTPServerTransport({
+    sessionIdGenerator: () => sessionId,
+    eventStore,
+    onsessioninitialized: (id) => {
+      sessions.set(id, { transport, eventStore, lastActiveAt: Date.now() });
+    },
+  });
+
+  await server.connect(transport);
+  // server.connect 会接管 transport.onclose，关闭 transport 时再回调这里
+  server.server.onclose = () => {
+    sessions.delete(sessionId);
+    eventStore.clear().catch((err) => console.error(err));
+  };
+  return { transport, eventStore };
+}
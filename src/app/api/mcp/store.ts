@@ -0,0 +1,61 @@
+import { customAlphabet } from "nanoid";
+import type { FinalReportResult } from "@/utils/deep-research";
+
+const nanoid = customAlphabet("1234567890abcdefghijklmnopqrstuvwxyz", 12);
+
+// 每类结果最多保留的条数，超出后丢弃最早的结果
+const MAX_RESULTS = 100;
+
+export interface StoredResult<T> {
+  id: string;
+  title: string;
+  query: string;
+  createdAt: number;
+  result: T;
+}
+
+/**
+ * Keeps the results of MCP tool calls in the memory of the server process so
+ * that clients can read them again as resources. Results are lost when the
+ * process restarts, so they are only saved by transports that keep the server
+ * alive between requests: stateful sessions and the SSE transport.
+ */
+class ResultStore<T> {
+  private _results: Map<string, StoredResult<T>> = new Map();
+
+  save(query: string, title: string, result: T): StoredResult<T> {
+    const item: StoredResult<T> = {
+      id: nanoid(),
+      title: title || query.slice(0, 100),
+      query,
+      createdAt: Date.now(),
+      result,
+    };
+    this._results.set(item.id, item);
+    if (this._results.size > MAX_RESULTS) {
+      const [oldest] = this._results.keys();
+      this._results.delete(oldest);
+    }
+    return item;
+  }
+
+  get(id: string): StoredResult<T> | undefined {
+    return this._results.get(id);
+  }
+
+  /**
+   * 按创建时间倒序返回所有结果
+   */
+  list(): StoredResult<T>[] {
+    return Array.from(this._results.values()).reverse();
+  }
+
+  completeId(value: string): string[] {
+    return this.list()
+      .map((item) => item.id)
+      .filter((id) => id.startsWith(value));
+  }
+}
+
+export const researchStore = new ResultStore<FinalReportResult>();
+export const thinkStore = new ResultStore<ThinkResult>();
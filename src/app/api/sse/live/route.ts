@@ -32,6 +32,13 @@ export async function GET(req: NextRequest) {
   const searchProvider = getValueFromSearchParams("searchProvider") || "";
   const language = getValueFromSearchParams("language") || "";
   const maxResult = Number(getValueFromSearchParams("maxResult")) || 5;
+  const parallelSearch =
+    Number(getValueFromSearchParams("parallelSearch")) || 1;
+  const depth = Number(getValueFromSearchParams("depth")) || 1;
+  const breadth = Number(getValueFromSearchParams("breadth")) || undefined;
+  const fetchFullPage = getValueFromSearchParams("fetchFullPage") === "true";
+  const maxSourceTokens =
+    Number(getValueFromSearchParams("maxSourceTokens")) || undefined;
   const enableCitationImage =
     getValueFromSearchParams("enableCitationImage") === "false";
   const enableReferences =
@@ -48,6 +55,9 @@ export async function GET(req: NextRequest) {
         console.log("Client disconnected");
       });
 
+      // 纯文本输出无法区分交错的内容，并行时先缓存每个搜索任务的输出，任务结束后整段输出
+      const taskOutputs = new Map<string, string>();
+
       const deepResearch = new DeepResearch({
         language,
         AIProvider: {
@@ -63,15 +73,34 @@ export async function GET(req: NextRequest) {
           provider: searchProvider,
           maxResult,
         },
+        parallelSearch,
+        depth,
+        breadth,
+        fetchFullPage,
+        maxSourceTokens,
         onMessage: (event, data) => {
           if (event === "message") {
-            controller.enqueue(encoder.encode(data.text));
+            if (parallelSearch > 1 && data.name) {
+              taskOutputs.set(
+                data.name,
+                (taskOutputs.get(data.name) || "") + data.text
+              );
+            } else {
+              controller.enqueue(encoder.encode(data.text));
+            }
           } else if (event === "progress") {
             console.log(
               `[${data.step}]: ${data.name ? `"${data.name}" ` : ""}${
                 data.status
               }`
             );
+            if (data.step === "search-task" && data.status === "end") {
+              const output = taskOutputs.get(data.name);
+              if (output) {
+                controller.enqueue(encoder.encode(output));
+                taskOutputs.delete(data.name);
+              }
+            }
             if (data.step === "final-report" && data.status === "end") {
               controller.close();
             }
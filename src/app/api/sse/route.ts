@@ -1,12 +1,5 @@
 import { NextResponse, type NextRequest } from "next/server";
-import DeepResearch from "@/utils/deep-research";
-import { multiApiKeyPolling } from "@/utils/model";
-import {
-  getAIProviderBaseURL,
-  getAIProviderApiKey,
-  getSearchProviderBaseURL,
-  getSearchProviderApiKey,
-} from "../utils";
+import { runResearchWorkload } from "../workloads";
 
 export const runtime = "edge";
 export const dynamic = "force-dynamic";
@@ -22,84 +15,31 @@ export const preferredRegion = [
 ];
 
 export async function POST(req: NextRequest) {
-  const {
-    query,
-    provider,
-    thinkingModel,
-    taskModel,
-    searchProvider,
-    language,
-    maxResult,
-    enableCitationImage = true,
-    enableReferences = true,
-    enableFileFormatResource = false,
-  } = await req.json();
+  const params = await req.json();
 
   const encoder = new TextEncoder();
   const readableStream = new ReadableStream({
     start: async (controller) => {
       console.log("Client connected");
-      controller.enqueue(
-        encoder.encode(
-          `event: infor\ndata: ${JSON.stringify({
-            name: "deep-research",
-            version: "0.1.0",
-          })}\n\n`
-        )
-      );
 
-      const deepResearch = new DeepResearch({
-        language,
-        AIProvider: {
-          baseURL: getAIProviderBaseURL(provider),
-          apiKey: multiApiKeyPolling(getAIProviderApiKey(provider)),
-          provider,
-          thinkingModel,
-          taskModel,
-        },
-        searchProvider: {
-          baseURL: getSearchProviderBaseURL(searchProvider),
-          apiKey: multiApiKeyPolling(getSearchProviderApiKey(searchProvider)),
-          provider: searchProvider,
-          maxResult,
-        },
-        onMessage: (event, data) => {
-          if (event === "progress") {
-            console.log(
-              `[${data.step}]: ${data.name ? `"${data.name}" ` : ""}${
-                data.status
-              }`
-            );
-            if (data.step === "final-report" && data.status === "end") {
-              controller.close();
-            }
-          } else if (event === "error") {
-            console.error(data);
-            controller.close();
-          }
-          controller.enqueue(
-            encoder.encode(
-              `event: ${event}\ndata: ${JSON.stringify(data)})}\n\n`
-            )
-          );
-        },
-      });
+      function sendEvent(event: string, data: any) {
+        // The stream is closed once the client disconnects
+        if (req.signal.aborted) return;
+        controller.enqueue(
+          encoder.encode(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`)
+        );
+      }
 
       req.signal.addEventListener("abort", () => {
         controller.close();
       });
 
       try {
-        await deepResearch.start(
-          query,
-          enableCitationImage,
-          enableReferences,
-          enableFileFormatResource
-        );
-      } catch (err) {
-        throw new Error(err instanceof Error ? err.message : "Unknown error");
+        await runResearchWorkload(params, sendEvent, req.signal);
+      } catch {
+        // The error event has been sent to the client
       }
-      controller.close();
+      if (!req.signal.aborted) controller.close();
     },
   });
 
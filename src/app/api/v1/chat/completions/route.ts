@@ -0,0 +1,349 @@
+import { NextResponse, type NextRequest } from "next/server";
+import { customAlphabet } from "nanoid";
+import { pick, mapValues, isObject } from "radash";
+import { runThinkWorkload } from "../../../workloads";
+
+export const runtime = "edge";
+export const dynamic = "force-dynamic";
+export const preferredRegion = [
+  "cle1",
+  "iad1",
+  "pdx1",
+  "sfo1",
+  "sin1",
+  "syd1",
+  "hnd1",
+  "kix1",
+];
+
+const AI_PROVIDER = process.env.CHAT_API_AI_PROVIDER || "";
+const SEARCH_PROVIDER = process.env.CHAT_API_SEARCH_PROVIDER || "model";
+const THINKING_MODEL = process.env.CHAT_API_THINKING_MODEL || "";
+
+const ThinkModes = ["deep-think", "ultra-think"];
+
+// 可以随请求传入的 DeepThink 参数，AI 服务商和搜索服务商只由环境变量决定
+const ThinkOptionKeys = [
+  "otherPrompts",
+  "knowledgeContext",
+  "modelStages",
+  "maxIterations",
+  "requiredSuccessfulVerifications",
+  "maxErrorsBeforeGiveUp",
+  "numAgents",
+  "maxConcurrentAgents",
+  "enableCritique",
+  "enableWebSearch",
+  "maxResult",
+  "checkpoint",
+  "selfConsistencySamples",
+  "verifierModels",
+  "verificationQuorum",
+];
+
+/**
+ * 分阶段模型和验证模型可以指定服务商，这里只保留模型名，
+ * 使所有阶段都使用 CHAT_API_AI_PROVIDER
+ */
+function toModelName(value: unknown) {
+  return isObject(value) ? (value as { model?: unknown }).model : value;
+}
+
+const nanoid = customAlphabet(
+  "1234567890abcdefghijklmnopqrstuvwxyzABCDEFGHIJKLMNOPQRSTUVWXYZ",
+  24
+);
+
+interface ChatMessage {
+  role: "system" | "developer" | "user" | "assistant" | "tool";
+  content?: string | { type: string; text?: string }[] | null;
+}
+
+function errorResponse(status: number, message: string, code?: string) {
+  return NextResponse.json(
+    { error: { message, type: "invalid_request_error", code } },
+    { status }
+  );
+}
+
+/**
+ * 模型名称格式为 `{mode}:{model}`，例如 `deep-think:gemini-2.5-pro`，
+ * 省略模型时使用 CHAT_API_THINKING_MODEL
+ */
+function parseModel(name: string = "") {
+  const idx = name.indexOf(":");
+  const mode = idx === -1 ? name : name.slice(0, idx);
+  const model = idx === -1 ? THINKING_MODEL : name.slice(idx + 1);
+  return ThinkModes.includes(mode) && model ? { mode, model } : undefined;
+}
+
+function getMessageText({ content }: ChatMessage) {
+  if (!content) return "";
+  if (typeof content === "string") return content;
+  return content
+    .filter((part) => part.type === "text" && part.text)
+    .map((part) => part.text)
+    .join("\n");
+}
+
+/**
+ * 最后一条用户消息作为问题，系统消息作为附加要求，之前的对话作为上下文
+ */
+function parseMessages(messages: ChatMessage[]) {
+  const lastUserIndex = messages.findLastIndex(
+    (message) => message.role === "user"
+  );
+  if (lastUserIndex === -1) return undefined;
+
+  const otherPrompts: string[] = [];
+  const history: string[] = [];
+  messages.forEach((message, idx) => {
+    if (idx === lastUserIndex) return;
+    const text = getMessageText(message);
+    if (!text) return;
+    if (message.role === "system" || message.role === "developer") {
+      otherPrompts.push(text);
+    } else if (message.role === "user" || message.role === "assistant") {
+      history.push(`**${message.role}**: ${text}`);
+    }
+  });
+  if (history.length > 0) {
+    otherPrompts.push(`Previous conversation:\n\n${history.join("\n\n")}`);
+  }
+  return {
+    problemStatement: getMessageText(messages[lastUserIndex]),
+    otherPrompts,
+  };
+}
+
+function toOpenAIUsage(usage?: ThinkUsage) {
+  if (!usage) return undefined;
+  return {
+    prompt_tokens: usage.total.promptTokens,
+    completion_tokens: usage.total.completionTokens,
+    total_tokens: usage.total.totalTokens,
+  };
+}
+
+// 思考过程中的进度提示，作为推理内容中的分隔标题
+function getProgressText(event: string, data: any) {
+  if (event === "progress" && data.message) {
+    return `\n\n**${data.message}**\n\n`;
+  }
+  if (event === "agent-update" && data.status) {
+    return `\n\n**Agent ${data.agentId}: ${data.status}**\n\n`;
+  }
+  if (event === "error" && data.message) {
+    return `\n\n**${data.message}**\n\n`;
+  }
+  return "";
+}
+
+/**
+ * 将思考事件转换为回答内容和思考过程，只有最终总结作为回答内容。
+ * UltraThink 的 agent 并行输出，切换 agent 时插入标题以便区分
+ */
+function createEventMapper() {
+  let lastAgentId: string | undefined;
+  return (
+    event: string,
+    data: any
+  ): { content?: string; reasoning?: string } => {
+    if (event !== "delta") {
+      const text = getProgressText(event, data);
+      if (text) lastAgentId = undefined;
+      return { reasoning: text };
+    }
+    if (!data.agentId && data.type === "text" && data.phase === "summary") {
+      return { content: data.delta };
+    }
+    const heading =
+      data.agentId && data.agentId !== lastAgentId
+        ? `\n\n**Agent ${data.agentId}**\n\n`
+        : "";
+    lastAgentId = data.agentId;
+    return { reasoning: heading + data.delta };
+  };
+}
+
+export async function POST(req: NextRequest) {
+  let body;
+  try {
+    body = await req.json();
+  } catch {
+    return errorResponse(400, "Invalid JSON body");
+  }
+  const { model: modelName, messages, stream = false, stream_options } = body;
+  // 部分 `/api/sse/think` 的参数可以传给 DeepThink，例如 maxIterations，
+  // temperature 等 OpenAI 参数对思考过程没有作用，会被忽略
+  const thinkOptions: Record<string, any> = pick(body, ThinkOptionKeys);
+
+  const target = parseModel(modelName);
+  if (!target) {
+    return errorResponse(
+      404,
+      `The model \`${modelName}\` does not exist, use \`deep-think:{model}\` or \`ultra-think:{model}\``,
+      "model_not_found"
+    );
+  }
+  const input = Array.isArray(messages) ? parseMessages(messages) : undefined;
+  if (!input) {
+    return errorResponse(400, "`messages` must contain a user message");
+  }
+  const { otherPrompts = [] } = thinkOptions;
+  if (
+    !Array.isArray(otherPrompts) ||
+    otherPrompts.some((prompt) => typeof prompt !== "string")
+  ) {
+    return errorResponse(400, "`otherPrompts` must be an array of strings");
+  }
+
+  if (isObject(thinkOptions.modelStages)) {
+    thinkOptions.modelStages = mapValues(thinkOptions.modelStages, toModelName);
+  }
+  if (Array.isArray(thinkOptions.verifierModels)) {
+    thinkOptions.verifierModels = thinkOptions.verifierModels.map(toModelName);
+  }
+
+  const params = {
+    ...thinkOptions,
+    provider: AI_PROVIDER,
+    searchProvider: SEARCH_PROVIDER,
+    mode: target.mode,
+    thinkingModel: target.model,
+    problemStatement: input.problemStatement,
+    otherPrompts: [...otherPrompts, ...input.otherPrompts],
+  };
+  const id = `chatcmpl-${nanoid()}`;
+  const created = Math.floor(Date.now() / 1000);
+
+  // 非流式请求在思考结束前不会发送任何数据，边缘函数平台可能因此中断请求，
+  // 长时间的思考需要使用流式请求
+  if (!stream) {
+    let reasoning = "";
+    let content = "";
+    const mapEvent = createEventMapper();
+    try {
+      const result = await runThinkWorkload(
+        params,
+        (event, data) => {
+          const output = mapEvent(event, data);
+          content += output.content || "";
+          reasoning += output.reasoning || "";
+        },
+        req.signal
+      );
+      return NextResponse.json({
+        id,
+        object: "chat.completion",
+        created,
+        model: modelName,
+        choices: [
+          {
+            index: 0,
+            message: {
+              role: "assistant",
+              content: content || result.summary || result.finalSolution,
+              reasoning_content: reasoning.trim(),
+            },
+            finish_reason: "stop",
+          },
+        ],
+        usage: toOpenAIUsage(result.usage),
+      });
+    } catch (err) {
+      return NextResponse.json(
+        {
+          error: {
+            message: err instanceof Error ? err.message : "Unknown error",
+            type: "server_error",
+          },
+        },
+        { status: 500 }
+      );
+    }
+  }
+
+  const encoder = new TextEncoder();
+  const readableStream = new ReadableStream({
+    start: async (controller) => {
+      function sendData(data: unknown) {
+        // The stream is closed once the client disconnects
+        if (req.signal.aborted) return;
+        controller.enqueue(encoder.encode(`data: ${JSON.stringify(data)}\n\n`));
+      }
+
+      function sendChunk(
+        delta: Record<string, string>,
+        finishReason: string | null = null
+      ) {
+        sendData({
+          id,
+          object: "chat.completion.chunk",
+          created,
+          model: modelName,
+          choices: [{ index: 0, delta, finish_reason: finishReason }],
+        });
+      }
+
+      req.signal.addEventListener("abort", () => {
+        controller.close();
+      });
+
+      sendChunk({ role: "assistant", content: "" });
+      let hasContent = false;
+      const mapEvent = createEventMapper();
+      try {
+        const result = await runThinkWorkload(
+          params,
+          (event, data) => {
+            const { content, reasoning } = mapEvent(event, data);
+            if (content) {
+              hasContent = true;
+              sendChunk({ content });
+            } else if (reasoning) {
+              sendChunk({ reasoning_content: reasoning });
+            }
+          },
+          req.signal
+        );
+        // UltraThink 的最终总结不是流式生成的
+        if (!hasContent) {
+          sendChunk({ content: result.summary || result.finalSolution });
+        }
+        sendChunk({}, "stop");
+        if (stream_options?.include_usage) {
+          sendData({
+            id,
+            object: "chat.completion.chunk",
+            created,
+            model: modelName,
+            choices: [],
+            usage: toOpenAIUsage(result.usage),
+          });
+        }
+      } catch (err) {
+        sendData({
+          error: {
+            message: err instanceof Error ? err.message : "Unknown error",
+            type: "server_error",
+          },
+        });
+      }
+      if (!req.signal.aborted) {
+        controller.enqueue(encoder.encode("data: [DONE]\n\n"));
+        controller.close();
+      }
+    },
+  });
+
+  return new NextResponse(readableStream, {
+    headers: {
+      "Content-Type": "text/event-stream; charset=utf-8",
+      "Cache-Control": "no-cache, no-transform",
+      Connection: "keep-alive",
+      "X-Accel-Buffering": "no",
+      "Access-Control-Allow-Origin": "*",
+    },
+  });
+}
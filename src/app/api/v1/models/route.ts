@@ -0,0 +1,37 @@
+import { NextResponse } from "next/server";
+
+export const runtime = "edge";
+export const dynamic = "force-dynamic";
+export const preferredRegion = [
+  "cle1",
+  "iad1",
+  "pdx1",
+  "sfo1",
+  "sin1",
+  "syd1",
+  "hnd1",
+  "kix1",
+];
+
+const THINKING_MODEL = process.env.CHAT_API_THINKING_MODEL || "";
+
+// 任意 `{mode}:{model}` 都可以使用，这里只列出默认思考模型对应的模型名称
+export async function GET() {
+  const models = THINKING_MODEL
+    ? [
+        "deep-think",
+        "ultra-think",
+        `deep-think:${THINKING_MODEL}`,
+        `ultra-think:${THINKING_MODEL}`,
+      ]
+    : [];
+  return NextResponse.json({
+    object: "list",
+    data: models.map((id) => ({
+      id,
+      object: "model",
+      created: 0,
+      owned_by: "deep-think",
+    })),
+  });
+}
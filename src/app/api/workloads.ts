@@ -0,0 +1,333 @@
+import DeepResearch from "@/utils/deep-research";
+import { runDeepThink, runUltraThink } from "@/utils/deep-think";
+import { deepThinkCheckpointSchema } from "@/utils/deep-think/checkpoint";
+import { createAIProvider } from "@/utils/deep-research/provider";
+import { createSearchProvider } from "@/utils/deep-research/search";
+import { multiApiKeyPolling } from "@/utils/model";
+import {
+  getAIProviderBaseURL,
+  getAIProviderApiKey,
+  getSearchProviderBaseURL,
+  getSearchProviderApiKey,
+} from "./utils";
+
+export type SendEvent = (event: string, data: any) => void;
+
+/**
+ * Runs a deep research task with the request body of `/api/sse`, sending the
+ * same events as the SSE API. Resolves with the final report, the `error`
+ * event is sent before the error is thrown.
+ */
+export async function runResearchWorkload(
+  params: Record<string, any>,
+  sendEvent: SendEvent,
+  abortSignal?: AbortSignal
+) {
+  const {
+    query,
+    provider,
+    thinkingModel,
+    taskModel,
+    searchProvider,
+    language,
+    maxResult,
+    parallelSearch = 1,
+    depth = 1,
+    breadth,
+    fetchFullPage = false,
+    maxSourceTokens,
+    enableCitationImage = true,
+    enableReferences = true,
+    enableFileFormatResource = false,
+  } = params;
+
+  sendEvent("infor", { name: "deep-research", version: "0.1.0" });
+
+  const deepResearch = new DeepResearch({
+    language,
+    AIProvider: {
+      baseURL: getAIProviderBaseURL(provider),
+      apiKey: multiApiKeyPolling(getAIProviderApiKey(provider)),
+      provider,
+      thinkingModel,
+      taskModel,
+    },
+    searchProvider: {
+      baseURL: getSearchProviderBaseURL(searchProvider),
+      apiKey: multiApiKeyPolling(getSearchProviderApiKey(searchProvider)),
+      provider: searchProvider,
+      maxResult,
+    },
+    parallelSearch,
+    depth,
+    breadth,
+    fetchFullPage,
+    maxSourceTokens,
+    abortSignal,
+    onMessage: (event, data) => {
+      if (event === "progress") {
+        console.log(
+          `[${data.step}]: ${data.name ? `"${data.name}" ` : ""}${data.status}`
+        );
+      } else if (event === "error") {
+        console.error(data);
+      }
+      sendEvent(event, data);
+    },
+  });
+
+  return await deepResearch.start(
+    query,
+    enableCitationImage,
+    enableReferences,
+    enableFileFormatResource
+  );
+}
+
+/**
+ * Runs Deep Think or Ultra Think with the request body of `/api/sse/think`,
+ * sending the same events as the SSE API. Resolves with the think result,
+ * the `error` event is sent before the error is thrown.
+ */
+export async function runThinkWorkload(
+  params: Record<string, any>,
+  sendEvent: SendEvent,
+  abortSignal?: AbortSignal
+) {
+  const {
+    mode = "deep-think", // "deep-think" | "ultra-think"
+    problemStatement,
+    provider,
+    thinkingModel,
+    modelStages, // Optional: Different models for different stages
+    otherPrompts = [],
+    knowledgeContext,
+    maxIterations = 30,
+    requiredSuccessfulVerifications = 3,
+    maxErrorsBeforeGiveUp = 10,
+    numAgents, // Optional: For ultra-think mode, if not set LLM decides
+    maxConcurrentAgents, // Optional: For ultra-think mode, agents running at the same time
+    enableCritique = false, // Optional: For ultra-think mode, cross-agent critique before synthesis
+    enableWebSearch = false,
+    searchProvider = "model", // Optional: "model" uses the model's built-in search, others are exposed as a search tool
+    maxResult = 5,
+    checkpoint, // Optional: Resume deep-think mode from a saved checkpoint
+    selfConsistencySamples, // Optional: For deep-think mode, independent initial samples to vote on
+    verifierModels, // Optional: Panel of models that verify in parallel
+    verificationQuorum = "majority", // Optional: "all" | "majority" | "any"
+  } = params;
+
+  sendEvent("info", {
+    name: "deep-think-api",
+    version: "1.0.0",
+    mode,
+  });
+
+  // Create model provider factory
+  async function createModelProvider(
+    model: string,
+    settings?: any,
+    stageProvider: string = provider
+  ) {
+    return await createAIProvider({
+      provider: stageProvider,
+      baseURL: getAIProviderBaseURL(stageProvider),
+      apiKey: multiApiKeyPolling(getAIProviderApiKey(stageProvider)),
+      model,
+      settings,
+    });
+  }
+
+  // External search provider, exposed to the model as a search tool
+  async function webSearch(query: string) {
+    return await createSearchProvider({
+      provider: searchProvider,
+      baseURL: getSearchProviderBaseURL(searchProvider),
+      apiKey: multiApiKeyPolling(getSearchProviderApiKey(searchProvider)),
+      query,
+      maxResult,
+    });
+  }
+
+  // Progress handler
+  function handleProgress(event: any) {
+    switch (event.type) {
+      case "init":
+        sendEvent("progress", {
+          type: "init",
+          message: "Initializing...",
+          data: event.data,
+        });
+        break;
+      case "thinking":
+        sendEvent("progress", {
+          type: "thinking",
+          message: `Thinking (iteration ${event.data.iteration}, phase: ${event.data.phase})`,
+          data: event.data,
+        });
+        break;
+      case "solution":
+        sendEvent("solution", {
+          iteration: event.data.iteration,
+          solution: event.data.solution,
+        });
+        break;
+      case "text-delta":
+        sendEvent("delta", {
+          type: "text",
+          phase: event.data.phase,
+          iteration: event.data.iteration,
+          delta: event.data.delta,
+          agentId: event.data.agentId,
+        });
+        break;
+      case "reasoning-delta":
+        sendEvent("delta", {
+          type: "reasoning",
+          phase: event.data.phase,
+          iteration: event.data.iteration,
+          delta: event.data.delta,
+          agentId: event.data.agentId,
+        });
+        break;
+      case "verification":
+        sendEvent("progress", {
+          type: "verification",
+          message: `Verification ${
+            event.data.passed ? "passed" : "failed"
+          } (iteration ${event.data.iteration})`,
+          data: event.data,
+        });
+        break;
+      case "correction":
+        sendEvent("progress", {
+          type: "correction",
+          message: `Correcting solution (iteration ${event.data.iteration})`,
+          data: event.data,
+        });
+        break;
+      case "checkpoint":
+        sendEvent("checkpoint", event.data);
+        break;
+      case "usage":
+        sendEvent("usage", event.data);
+        break;
+      case "success":
+        sendEvent("success", {
+          message: "Successfully completed!",
+          data: event.data,
+        });
+        break;
+      case "cancelled":
+        sendEvent("progress", {
+          type: "cancelled",
+          message: `Cancelled (iteration ${event.data.iteration})`,
+          data: event.data,
+        });
+        break;
+      case "failure":
+        sendEvent("error", {
+          message: `Failed: ${event.data.reason}`,
+          data: event.data,
+        });
+        break;
+      case "progress":
+        sendEvent("progress", {
+          type: "general",
+          message: event.data.message,
+          data: event.data,
+        });
+        break;
+    }
+  }
+
+  try {
+    let result: ThinkResult;
+
+    if (mode === "ultra-think") {
+      // Ultra Think mode - multiple agents
+      sendEvent("progress", {
+        type: "init",
+        message: numAgents
+          ? `Starting Ultra Think with ${numAgents} agents...`
+          : "Starting Ultra Think with auto-determined agents...",
+      });
+
+      result = await runUltraThink({
+        problemStatement,
+        otherPrompts,
+        knowledgeContext,
+        maxIterations,
+        requiredSuccessfulVerifications,
+        maxErrorsBeforeGiveUp,
+        numAgents,
+        maxConcurrentAgents,
+        enableCritique,
+        verifierModels,
+        verificationQuorum,
+        enableWebSearch,
+        searchProvider: { provider: searchProvider, maxResult },
+        webSearch,
+        createModelProvider,
+        thinkingModel,
+        modelStages,
+        abortSignal,
+        onProgress: handleProgress,
+        onAgentUpdate: (agentId: string, update: Partial<AgentResult>) => {
+          sendEvent("agent-update", {
+            agentId,
+            ...update,
+          });
+        },
+      });
+    } else {
+      // Deep Think mode - single agent
+      // The checkpoint comes from the client, validate it before resuming
+      const parsedCheckpoint = deepThinkCheckpointSchema
+        .optional()
+        .safeParse(checkpoint);
+      if (!parsedCheckpoint.success) {
+        const [issue] = parsedCheckpoint.error.issues;
+        throw new Error(
+          `Invalid checkpoint: ${issue.path.join(".")} ${issue.message}`
+        );
+      }
+
+      sendEvent("progress", {
+        type: "init",
+        message: "Starting Deep Think...",
+      });
+
+      result = await runDeepThink({
+        problemStatement,
+        otherPrompts,
+        knowledgeContext,
+        maxIterations,
+        requiredSuccessfulVerifications,
+        maxErrorsBeforeGiveUp,
+        enableWebSearch,
+        searchProvider: { provider: searchProvider, maxResult },
+        webSearch,
+        createModelProvider,
+        thinkingModel,
+        modelStages,
+        checkpoint: parsedCheckpoint.data,
+        selfConsistencySamples,
+        verifierModels,
+        verificationQuorum,
+        abortSignal,
+        onProgress: handleProgress,
+      });
+    }
+
+    // Send final result
+    sendEvent("result", result);
+    sendEvent("done", { message: "Stream completed" });
+    return result;
+  } catch (err) {
+    const errorMessage = err instanceof Error ? err.message : "Unknown error";
+    console.error("Deep Think error:", err);
+    sendEvent("error", { message: errorMessage });
+    throw new Error(errorMessage);
+  }
+}
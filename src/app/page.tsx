@@ -46,6 +46,10 @@ function Home() {
     currentIteration,
     currentPhase,
     currentSolution,
+    streamingPhase,
+    streamingIteration,
+    streamingText,
+    streamingReasoning,
     agentResults,
   } = useGlobalStore();
 
@@ -78,6 +82,12 @@ function Home() {
                     detail: currentIteration > 0 ? `第 ${currentIteration} 轮 - ${currentPhase}` : undefined,
                   },
                 ]}
+                streaming={{
+                  phase: streamingPhase,
+                  iteration: streamingIteration,
+                  text: streamingText,
+                  reasoning: streamingReasoning,
+                }}
               />
             </section>
             {/* Show current solution if available */}
@@ -21,6 +21,7 @@ export default function AgentProgress({
         return <CheckCircle2 className="w-5 h-5 text-green-500" />;
       case "thinking":
       case "verifying":
+      case "revising":
         return <Loader2 className="w-5 h-5 text-blue-500 animate-spin" />;
       case "failed":
         return <XCircle className="w-5 h-5 text-red-500" />;
@@ -36,6 +37,7 @@ export default function AgentProgress({
         return "border-green-300 bg-green-50 dark:bg-green-900/10";
       case "thinking":
       case "verifying":
+      case "revising":
         return "border-blue-300 bg-blue-50 dark:bg-blue-900/10";
       case "failed":
         return "border-red-300 bg-red-50 dark:bg-red-900/10";
@@ -46,6 +48,8 @@ export default function AgentProgress({
   };
 
   const completedCount = agents.filter((a) => a.status === "completed").length;
+  // 受并发数限制尚未启动的 agent
+  const queuedCount = agents.filter((a) => a.status === "pending").length;
   const totalCount = agents.length;
   const overallProgress = totalCount > 0 ? (completedCount / totalCount) * 100 : 0;
 
@@ -61,6 +65,8 @@ export default function AgentProgress({
               completed: completedCount,
               total: totalCount,
             })}
+            {queuedCount > 0 &&
+              ` · ${t("deepThink.agent.queued", { count: queuedCount })}`}
           </span>
         </div>
         <Progress value={overallProgress} className="h-2" />
@@ -94,6 +100,7 @@ export default function AgentProgress({
 
             {(agent.status === "thinking" ||
               agent.status === "verifying" ||
+              agent.status === "revising" ||
               agent.status === "completed") && (
               <div className="space-y-1">
                 <Progress value={agent.progress} className="h-1.5" />
@@ -135,7 +142,10 @@ export function AgentProgressCompact({
   const completedCount = agents.filter((a) => a.status === "completed").length;
   const failedCount = agents.filter((a) => a.status === "failed").length;
   const workingCount = agents.filter(
-    (a) => a.status === "thinking" || a.status === "verifying"
+    (a) =>
+      a.status === "thinking" ||
+      a.status === "verifying" ||
+      a.status === "revising"
   ).length;
   const totalCount = agents.length;
 
@@ -1,10 +1,17 @@
 "use client";
 import { useState } from "react";
 import { useTranslation } from "react-i18next";
-import { ChevronDown, ChevronUp, CheckCircle2, XCircle } from "lucide-react";
+import {
+  ChevronDown,
+  ChevronUp,
+  CheckCircle2,
+  XCircle,
+  CircleStop,
+} from "lucide-react";
 import { cn } from "@/lib/utils";
 import MagicDown from "@/components/MagicDown";
 import { Button } from "@/components/Internal/Button";
+import UsageBreakdown from "@/components/DeepThink/UsageBreakdown";
 import {
   Accordion,
   AccordionContent,
@@ -12,6 +19,126 @@ import {
   AccordionTrigger,
 } from "@/components/ui/accordion";
 
+// 用户停止思考时展示的提示，结果中只包含已完成的部分
+function CancelledNotice() {
+  const { t } = useTranslation();
+
+  return (
+    <div className="p-4 border rounded-md bg-amber-50 dark:bg-amber-900/10 border-amber-300">
+      <div className="flex items-start gap-3">
+        <CircleStop className="w-6 h-6 text-amber-500 flex-shrink-0 mt-0.5" />
+        <div>
+          <h3 className="font-semibold text-lg text-amber-700 dark:text-amber-400">
+            {t("deepThink.results.cancelled")}
+          </h3>
+          <p className="text-sm text-gray-600 dark:text-gray-400 mt-1">
+            {t("deepThink.results.cancelledTip")}
+          </p>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+// 验证器发现的问题列表，逐条展示严重程度和位置
+function VerificationIssues({ issues }: { issues: VerificationIssue[] }) {
+  const { t } = useTranslation();
+
+  return (
+    <ul className="space-y-2 mt-2">
+      {issues.map((issue, idx) => (
+        <li key={idx} className="text-xs">
+          <div className="flex items-center gap-2">
+            <span
+              className={cn(
+                "px-1.5 py-0.5 rounded font-medium",
+                issue.severity === "critical"
+                  ? "bg-red-100 text-red-700 dark:bg-red-900/30 dark:text-red-300"
+                  : "bg-amber-100 text-amber-700 dark:bg-amber-900/30 dark:text-amber-300"
+              )}
+            >
+              {issue.severity === "critical"
+                ? t("deepThink.verification.critical")
+                : t("deepThink.verification.justificationGap")}
+            </span>
+            <span className="text-gray-500 dark:text-gray-400 truncate">
+              {issue.location}
+            </span>
+          </div>
+          <p className="mt-1 text-gray-700 dark:text-gray-300">
+            {issue.description}
+          </p>
+        </li>
+      ))}
+    </ul>
+  );
+}
+
+// 验证模型组中每个模型的结论
+function VerifierVerdicts({ verdicts }: { verdicts: VerifierVerdict[] }) {
+  return (
+    <div className="flex flex-wrap gap-1.5 mt-2">
+      {verdicts.map((verdict, idx) => (
+        <span
+          key={idx}
+          title={verdict.error || verdict.summary}
+          className={cn(
+            "inline-flex items-center gap-1 px-1.5 py-0.5 rounded border text-xs",
+            verdict.error
+              ? "border-gray-200 text-gray-500 dark:border-gray-700"
+              : verdict.passed
+                ? "border-green-200 text-green-700 dark:text-green-400"
+                : "border-red-200 text-red-700 dark:text-red-400"
+          )}
+        >
+          {verdict.error ? (
+            <CircleStop className="w-3 h-3" />
+          ) : verdict.passed ? (
+            <CheckCircle2 className="w-3 h-3" />
+          ) : (
+            <XCircle className="w-3 h-3" />
+          )}
+          {verdict.provider
+            ? `${verdict.provider}:${verdict.model}`
+            : verdict.model}
+        </span>
+      ))}
+    </div>
+  );
+}
+
+// 检索到的知识库片段，回答中以 [K1.2] 的形式引用
+function KnowledgeCitations({ chunks }: { chunks: KnowledgeChunk[] }) {
+  const { t } = useTranslation();
+
+  return (
+    <div className="p-4 border rounded-md bg-blue-50 dark:bg-blue-900/10">
+      <h3 className="font-semibold text-lg mb-3 flex items-center gap-2">
+        <span className="text-blue-600 dark:text-blue-400">📚</span>
+        {t("deepThink.results.knowledgeCitations")}
+        <span className="text-sm font-normal text-gray-500">
+          ({chunks.length})
+        </span>
+      </h3>
+      <div className="space-y-2">
+        {chunks.map((chunk) => (
+          <div
+            key={chunk.id}
+            className="p-3 bg-white dark:bg-gray-800 rounded border border-blue-200 dark:border-blue-800"
+          >
+            <div className="font-medium text-blue-600 dark:text-blue-400 mb-1">
+              [{chunk.id}] {chunk.title}
+            </div>
+            <p className="text-sm text-gray-600 dark:text-gray-400 line-clamp-3">
+              {chunk.content}
+            </p>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
+
 interface DeepThinkResultsProps {
   result: DeepThinkResult;
   className?: string;
@@ -26,23 +153,27 @@ export function DeepThinkResults({
 
   return (
     <div className={cn("space-y-4", className)}>
+      {result.cancelled && <CancelledNotice />}
+
       {/* Summary */}
-      <div className="p-4 border rounded-md bg-green-50 dark:bg-green-900/10 border-green-300">
-        <div className="flex items-start gap-3 mb-2">
-          <CheckCircle2 className="w-6 h-6 text-green-500 flex-shrink-0 mt-0.5" />
-          <div>
-            <h3 className="font-semibold text-lg text-green-700 dark:text-green-400">
-              {t("deepThink.results.success")}
-            </h3>
-            <p className="text-sm text-gray-600 dark:text-gray-400 mt-1">
-              {t("deepThink.results.summary", {
-                iterations: result.totalIterations,
-                verifications: result.successfulVerifications,
-              })}
-            </p>
+      {!result.cancelled && (
+        <div className="p-4 border rounded-md bg-green-50 dark:bg-green-900/10 border-green-300">
+          <div className="flex items-start gap-3 mb-2">
+            <CheckCircle2 className="w-6 h-6 text-green-500 flex-shrink-0 mt-0.5" />
+            <div>
+              <h3 className="font-semibold text-lg text-green-700 dark:text-green-400">
+                {t("deepThink.results.success")}
+              </h3>
+              <p className="text-sm text-gray-600 dark:text-gray-400 mt-1">
+                {t("deepThink.results.summary", {
+                  iterations: result.totalIterations,
+                  verifications: result.successfulVerifications,
+                })}
+              </p>
+            </div>
           </div>
         </div>
-      </div>
+      )}
 
       {/* Clarification Questions & User Answers */}
       {result.questions && (
@@ -78,6 +209,50 @@ export function DeepThinkResults({
         </div>
       )}
 
+      {/* Self-Consistency Vote */}
+      {result.selfConsistency && (
+        <div className="p-4 border rounded-md">
+          <h3 className="font-semibold text-lg mb-1">
+            {t("deepThink.results.selfConsistency")}
+          </h3>
+          <p className="text-sm text-gray-600 dark:text-gray-400 mb-3">
+            {t("deepThink.results.agreement", {
+              count: result.selfConsistency.clusters[0]?.members.length || 0,
+              total: result.selfConsistency.samples,
+              percent: Math.round(result.selfConsistency.agreement * 100),
+            })}
+          </p>
+          <div className="space-y-2">
+            {result.selfConsistency.clusters.map((cluster, idx) => (
+              <div key={idx} className="text-sm">
+                <div className="flex justify-between gap-2 mb-1">
+                  <span
+                    className={cn(
+                      "truncate",
+                      idx === 0 && "font-medium text-green-700 dark:text-green-400"
+                    )}
+                  >
+                    {cluster.answer || t("deepThink.results.noAnswer")}
+                  </span>
+                  <span className="text-xs text-gray-500 flex-shrink-0">
+                    {cluster.members.length}/{result.selfConsistency!.samples}
+                  </span>
+                </div>
+                <div className="h-1.5 rounded bg-gray-100 dark:bg-gray-800">
+                  <div
+                    className={cn(
+                      "h-1.5 rounded",
+                      idx === 0 ? "bg-green-500" : "bg-gray-400"
+                    )}
+                    style={{ width: `${cluster.ratio * 100}%` }}
+                  />
+                </div>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
       {/* Final Solution - Show summary if available, otherwise show finalSolution */}
       <div className="p-4 border rounded-md">
         <h3 className="font-semibold text-lg mb-3">
@@ -123,6 +298,13 @@ export function DeepThinkResults({
         </div>
       )}
 
+      {result.knowledgeChunks && result.knowledgeChunks.length > 0 && (
+        <KnowledgeCitations chunks={result.knowledgeChunks} />
+      )}
+
+      {/* Token Usage */}
+      {result.usage && <UsageBreakdown usage={result.usage} />}
+
       {/* Iterations Toggle */}
       {result.iterations.length > 0 && (
         <div className="border rounded-md">
@@ -163,6 +345,13 @@ export function DeepThinkResults({
                       </span>
                     </div>
                   </div>
+                  {iter.verification.verdicts && (
+                    <VerifierVerdicts verdicts={iter.verification.verdicts} />
+                  )}
+                  {iter.verification.issues &&
+                    iter.verification.issues.length > 0 && (
+                      <VerificationIssues issues={iter.verification.issues} />
+                    )}
                   {iter.verification.bugReport && (
                     <details className="text-sm mt-2">
                       <summary className="cursor-pointer text-gray-600 dark:text-gray-400">
@@ -196,23 +385,27 @@ export function UltraThinkResults({
 
   return (
     <div className={cn("space-y-4", className)}>
+      {result.cancelled && <CancelledNotice />}
+
       {/* Summary */}
-      <div className="p-4 border rounded-md bg-blue-50 dark:bg-blue-900/10 border-blue-300">
-        <div className="flex items-start gap-3 mb-2">
-          <CheckCircle2 className="w-6 h-6 text-blue-500 flex-shrink-0 mt-0.5" />
-          <div>
-            <h3 className="font-semibold text-lg text-blue-700 dark:text-blue-400">
-              {t("deepThink.results.ultraThinkComplete")}
-            </h3>
-            <p className="text-sm text-gray-600 dark:text-gray-400 mt-1">
-              {t("deepThink.results.ultraSummary", {
-                total: result.totalAgents,
-                completed: result.completedAgents,
-              })}
-            </p>
+      {!result.cancelled && (
+        <div className="p-4 border rounded-md bg-blue-50 dark:bg-blue-900/10 border-blue-300">
+          <div className="flex items-start gap-3 mb-2">
+            <CheckCircle2 className="w-6 h-6 text-blue-500 flex-shrink-0 mt-0.5" />
+            <div>
+              <h3 className="font-semibold text-lg text-blue-700 dark:text-blue-400">
+                {t("deepThink.results.ultraThinkComplete")}
+              </h3>
+              <p className="text-sm text-gray-600 dark:text-gray-400 mt-1">
+                {t("deepThink.results.ultraSummary", {
+                  total: result.totalAgents,
+                  completed: result.completedAgents,
+                })}
+              </p>
+            </div>
           </div>
         </div>
-      </div>
+      )}
 
       {/* Clarification Questions & User Answers */}
       {result.questions && (
@@ -281,6 +474,10 @@ export function UltraThinkResults({
         </div>
       )}
 
+      {result.knowledgeChunks && result.knowledgeChunks.length > 0 && (
+        <KnowledgeCitations chunks={result.knowledgeChunks} />
+      )}
+
       {/* Agent Results */}
       <div className="border rounded-md p-4">
         <h3 className="font-semibold text-lg mb-3">
@@ -298,6 +495,11 @@ export function UltraThinkResults({
                     </span>
                   </div>
                   <div className="flex items-center gap-2">
+                    {agent.critiques && agent.originalSolution && (
+                      <span className="text-xs px-2 py-0.5 rounded-full bg-blue-100 text-blue-700 dark:bg-blue-900/30 dark:text-blue-300">
+                        {t("deepThink.results.revised")}
+                      </span>
+                    )}
                     {agent.status === "completed" ? (
                       <CheckCircle2 className="w-4 h-4 text-green-500" />
                     ) : (
@@ -321,6 +523,35 @@ export function UltraThinkResults({
                       <MagicDown value={agent.solution} onChange={() => {}} />
                     </div>
                   )}
+                  {agent.critiques && agent.critiques.length > 0 && (
+                    <details className="text-sm">
+                      <summary className="cursor-pointer text-gray-600 dark:text-gray-400">
+                        {t("deepThink.results.viewCritiques")} (
+                        {agent.critiques.length})
+                      </summary>
+                      <div className="mt-2 space-y-2">
+                        {agent.critiques.map((critique, cIdx) => (
+                          <div
+                            key={cIdx}
+                            className="p-2 rounded border bg-gray-50 dark:bg-gray-800"
+                          >
+                            <p className="text-xs font-medium mb-1">
+                              {t("deepThink.results.critiqueFrom", {
+                                agentId: critique.fromAgentId,
+                                approach: critique.approach,
+                              })}
+                            </p>
+                            <div className="prose prose-sm dark:prose-invert max-w-none">
+                              <MagicDown
+                                value={critique.critique}
+                                onChange={() => {}}
+                              />
+                            </div>
+                          </div>
+                        ))}
+                      </div>
+                    </details>
+                  )}
                   {agent.verifications && agent.verifications.length > 0 && (
                     <details className="text-sm">
                       <summary className="cursor-pointer text-gray-600 dark:text-gray-400">
@@ -348,7 +579,12 @@ export function UltraThinkResults({
                                 {new Date(v.timestamp).toLocaleTimeString()}
                               </span>
                             </div>
-                            {v.bugReport && (
+                            {v.verdicts && (
+                              <VerifierVerdicts verdicts={v.verdicts} />
+                            )}
+                            {v.issues && v.issues.length > 0 ? (
+                              <VerificationIssues issues={v.issues} />
+                            ) : v.bugReport && (
                               <p className="text-xs text-gray-600 dark:text-gray-400 mt-1">
                                 {v.bugReport}
                               </p>
@@ -365,6 +601,9 @@ export function UltraThinkResults({
         </Accordion>
       </div>
 
+      {/* Token Usage */}
+      {result.usage && <UsageBreakdown usage={result.usage} />}
+
       {/* Original Plan */}
       {result.plan && (
         <details className="border rounded-md p-4">
@@ -10,13 +10,23 @@ interface ThinkingStep {
   detail?: string;
 }
 
+// 当前阶段的流式输出
+interface StreamingOutput {
+  phase: string;
+  iteration: number;
+  text: string;
+  reasoning: string;
+}
+
 interface ThinkingProcessProps {
   steps: ThinkingStep[];
+  streaming?: StreamingOutput;
   className?: string;
 }
 
 export default function ThinkingProcess({
   steps,
+  streaming,
   className,
 }: ThinkingProcessProps) {
   const { t } = useTranslation();
@@ -89,6 +99,32 @@ export default function ThinkingProcess({
           </div>
         ))}
       </div>
+      {streaming && (streaming.text || streaming.reasoning) && (
+        <div className="p-3 border rounded-md space-y-2">
+          <div className="flex items-center gap-2 text-sm font-medium">
+            <Loader2 className="w-4 h-4 text-blue-500 animate-spin" />
+            <span>
+              {t(`deepThink.process.phase.${streaming.phase}`)} ·{" "}
+              {t("deepThink.iteration.number", { number: streaming.iteration })}
+            </span>
+          </div>
+          {streaming.reasoning && (
+            <details open={!streaming.text} className="text-sm">
+              <summary className="cursor-pointer text-gray-600 dark:text-gray-400">
+                {t("deepThink.process.reasoning")}
+              </summary>
+              <pre className="mt-2 whitespace-pre-wrap text-xs text-gray-500 dark:text-gray-400 max-h-48 overflow-y-auto">
+                {streaming.reasoning}
+              </pre>
+            </details>
+          )}
+          {streaming.text && (
+            <pre className="whitespace-pre-wrap text-sm bg-gray-50 dark:bg-gray-900 p-3 rounded max-h-96 overflow-y-auto">
+              {streaming.text}
+            </pre>
+          )}
+        </div>
+      )}
     </div>
   );
 }
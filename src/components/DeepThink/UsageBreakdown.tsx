@@ -0,0 +1,188 @@
+"use client";
+import { useMemo } from "react";
+import { useTranslation } from "react-i18next";
+import { Coins } from "lucide-react";
+import { cn } from "@/lib/utils";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableFooter,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { useSettingStore } from "@/store/setting";
+import {
+  parseModelPrices,
+  getModelPrice,
+  calculateCost,
+} from "@/utils/usage";
+
+interface UsageBreakdownProps {
+  usage: ThinkUsage;
+  className?: string;
+}
+
+function formatTokens(value: number) {
+  return value.toLocaleString();
+}
+
+function formatCost(value?: number) {
+  return value === undefined ? "-" : `$${value.toFixed(4)}`;
+}
+
+function UsageTable({
+  title,
+  rows,
+}: {
+  title: string;
+  rows: [string, TokenUsage][];
+}) {
+  const { t } = useTranslation();
+
+  if (rows.length === 0) return null;
+
+  return (
+    <Table>
+      <TableHeader>
+        <TableRow>
+          <TableHead>{title}</TableHead>
+          <TableHead className="text-right">
+            {t("deepThink.usage.promptTokens")}
+          </TableHead>
+          <TableHead className="text-right">
+            {t("deepThink.usage.completionTokens")}
+          </TableHead>
+          <TableHead className="text-right">
+            {t("deepThink.usage.totalTokens")}
+          </TableHead>
+        </TableRow>
+      </TableHeader>
+      <TableBody>
+        {rows.map(([name, usage]) => (
+          <TableRow key={name}>
+            <TableCell className="font-medium">{name}</TableCell>
+            <TableCell className="text-right">
+              {formatTokens(usage.promptTokens)}
+            </TableCell>
+            <TableCell className="text-right">
+              {formatTokens(usage.completionTokens)}
+            </TableCell>
+            <TableCell className="text-right">
+              {formatTokens(usage.totalTokens)}
+            </TableCell>
+          </TableRow>
+        ))}
+      </TableBody>
+    </Table>
+  );
+}
+
+export default function UsageBreakdown({
+  usage,
+  className,
+}: UsageBreakdownProps) {
+  const { t } = useTranslation();
+  const { modelPrices } = useSettingStore();
+
+  const modelCosts = useMemo(() => {
+    const prices = parseModelPrices(modelPrices);
+    return Object.entries(usage.byModel).map(([model, modelUsage]) => {
+      const price = getModelPrice(prices, model);
+      return {
+        model,
+        usage: modelUsage,
+        cost: price ? calculateCost(modelUsage, price) : undefined,
+      };
+    });
+  }, [usage, modelPrices]);
+
+  // 只要有一个模型配置了价格就显示总费用，未配置价格的模型不计入
+  const totalCost = modelCosts.some((item) => item.cost !== undefined)
+    ? modelCosts.reduce((total, item) => total + (item.cost || 0), 0)
+    : undefined;
+
+  return (
+    <details className={cn("border rounded-md p-4", className)}>
+      <summary className="font-semibold cursor-pointer">
+        <span className="inline-flex items-center gap-2">
+          <Coins className="w-4 h-4" />
+          {t("deepThink.usage.title")}
+          <span className="text-sm font-normal text-gray-500">
+            {t("deepThink.usage.summary", {
+              tokens: formatTokens(usage.total.totalTokens),
+              cost: formatCost(totalCost),
+            })}
+          </span>
+        </span>
+      </summary>
+      <div className="space-y-4 mt-3 text-sm">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>{t("deepThink.usage.model")}</TableHead>
+              <TableHead className="text-right">
+                {t("deepThink.usage.promptTokens")}
+              </TableHead>
+              <TableHead className="text-right">
+                {t("deepThink.usage.completionTokens")}
+              </TableHead>
+              <TableHead className="text-right">
+                {t("deepThink.usage.cost")}
+              </TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {modelCosts.map((item) => (
+              <TableRow key={item.model}>
+                <TableCell className="font-medium">{item.model}</TableCell>
+                <TableCell className="text-right">
+                  {formatTokens(item.usage.promptTokens)}
+                </TableCell>
+                <TableCell className="text-right">
+                  {formatTokens(item.usage.completionTokens)}
+                </TableCell>
+                <TableCell className="text-right">
+                  {formatCost(item.cost)}
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+          <TableFooter>
+            <TableRow>
+              <TableCell>{t("deepThink.usage.total")}</TableCell>
+              <TableCell className="text-right">
+                {formatTokens(usage.total.promptTokens)}
+              </TableCell>
+              <TableCell className="text-right">
+                {formatTokens(usage.total.completionTokens)}
+              </TableCell>
+              <TableCell className="text-right">
+                {formatCost(totalCost)}
+              </TableCell>
+            </TableRow>
+          </TableFooter>
+        </Table>
+        <UsageTable
+          title={t("deepThink.usage.stage")}
+          rows={Object.entries(usage.byStage)}
+        />
+        <UsageTable
+          title={t("deepThink.usage.agent")}
+          rows={Object.entries(usage.byAgent)}
+        />
+        <UsageTable
+          title={t("deepThink.usage.iteration")}
+          rows={Object.entries(usage.byIteration).map(([iteration, item]) => [
+            t("deepThink.iteration.number", { number: iteration }),
+            item,
+          ])}
+        />
+        {totalCost === undefined ? (
+          <p className="text-xs text-gray-500">{t("deepThink.usage.noPrice")}</p>
+        ) : null}
+      </div>
+    </details>
+  );
+}
@@ -12,7 +12,13 @@ import {
   DialogHeader,
   DialogTitle,
 } from "@/components/ui/dialog";
-import { Form, FormControl, FormField, FormItem } from "@/components/ui/form";
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+} from "@/components/ui/form";
 import {
   Select,
   SelectContent,
@@ -24,6 +30,7 @@ import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import useKnowledge from "@/hooks/useKnowledge";
 import { useSettingStore } from "@/store/setting";
+import { useGlobalStore } from "@/store/global";
 
 type Props = {
   open: boolean;
@@ -36,28 +43,51 @@ const URLRegExp = /^https?:\/\/.+/;
 const formSchema = z.object({
   url: z.string(),
   crawler: z.string(),
+  scope: z.enum(["page", "site"]),
+  maxDepth: z.coerce.number().int().min(0).max(5),
+  maxPages: z.coerce.number().int().min(1).max(500),
 });
 
 function Crawler({ open, onClose }: Props) {
   const { t } = useTranslation();
-  const { getKnowledgeFromUrl } = useKnowledge();
+  const { getKnowledgeFromUrl, getKnowledgeFromSite } = useKnowledge();
 
   const form = useForm<z.infer<typeof formSchema>>({
     resolver: zodResolver(formSchema),
     defaultValues: async () => {
-      const { crawler } = useSettingStore.getState();
-      return { url: "", crawler };
+      const { crawler, crawlerMaxDepth, crawlerMaxPages } =
+        useSettingStore.getState();
+      return {
+        url: "",
+        crawler,
+        scope: "page",
+        maxDepth: crawlerMaxDepth,
+        maxPages: crawlerMaxPages,
+      };
     },
   });
 
+  const scope = form.watch("scope");
+
   async function onSubmit(values: z.infer<typeof formSchema>) {
     const settingStore = useSettingStore.getState();
-    const { url, crawler } = values;
+    const { url, crawler, scope, maxDepth, maxPages } = values;
     if (URLRegExp.test(url)) {
       onClose();
       settingStore.update({ crawler });
-      await getKnowledgeFromUrl(url, crawler);
-      form.reset();
+      if (scope === "site") {
+        settingStore.update({
+          crawlerMaxDepth: maxDepth,
+          crawlerMaxPages: maxPages,
+        });
+        // 在知识库面板中展示整站爬取的进度
+        useGlobalStore.getState().setOpenKnowledge(true);
+        form.reset();
+        await getKnowledgeFromSite(url, crawler, { maxDepth, maxPages });
+      } else {
+        await getKnowledgeFromUrl(url, crawler);
+        form.reset();
+      }
     } else {
       toast.error(t("knowledge.urlError"));
     }
@@ -91,6 +121,90 @@ function Crawler({ open, onClose }: Props) {
                 </FormItem>
               )}
             />
+            <div
+              className={
+                BUILD_MODE === "export" ? "hidden" : "flex items-end gap-2"
+              }
+            >
+              <FormField
+                control={form.control}
+                name="scope"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>{t("knowledge.crawlScope")}</FormLabel>
+                    <FormControl>
+                      <Select
+                        {...field}
+                        onValueChange={(value) => {
+                          field.onChange(value);
+                          // 整站爬取需要通过服务端读取 robots.txt 和 sitemap
+                          if (
+                            value === "site" &&
+                            form.getValues("crawler") === "jina"
+                          ) {
+                            form.setValue("crawler", "local");
+                          }
+                        }}
+                      >
+                        <SelectTrigger className="w-36">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value="page">
+                            {t("knowledge.singlePage")}
+                          </SelectItem>
+                          <SelectItem value="site">
+                            {t("knowledge.wholeSite")}
+                          </SelectItem>
+                        </SelectContent>
+                      </Select>
+                    </FormControl>
+                  </FormItem>
+                )}
+              />
+              {scope === "site" ? (
+                <>
+                  <FormField
+                    control={form.control}
+                    name="maxDepth"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel title={t("knowledge.maxDepthTip")}>
+                          {t("knowledge.maxDepth")}
+                        </FormLabel>
+                        <FormControl>
+                          <Input
+                            className="w-24"
+                            type="number"
+                            min={0}
+                            max={5}
+                            {...field}
+                          />
+                        </FormControl>
+                      </FormItem>
+                    )}
+                  />
+                  <FormField
+                    control={form.control}
+                    name="maxPages"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>{t("knowledge.maxPages")}</FormLabel>
+                        <FormControl>
+                          <Input
+                            className="w-24"
+                            type="number"
+                            min={1}
+                            max={500}
+                            {...field}
+                          />
+                        </FormControl>
+                      </FormItem>
+                    )}
+                  />
+                </>
+              ) : null}
+            </div>
             <DialogFooter className="flex justify-between sm:justify-between flex-row">
               <FormField
                 control={form.control}
@@ -99,7 +213,7 @@ function Crawler({ open, onClose }: Props) {
                   <FormItem>
                     <FormControl>
                       <Select {...field} onValueChange={field.onChange}>
-                        <SelectTrigger className="w-36">
+                        <SelectTrigger className="w-44">
                           <SelectValue />
                         </SelectTrigger>
                         <SelectContent>
@@ -109,7 +223,18 @@ function Crawler({ open, onClose }: Props) {
                           >
                             {t("knowledge.localCrawler")}
                           </SelectItem>
-                          <SelectItem value="jina">Jina Reader</SelectItem>
+                          <SelectItem
+                            className={BUILD_MODE === "export" ? "hidden" : ""}
+                            value="local-rewrite"
+                          >
+                            {t("knowledge.localCrawlerRewrite")}
+                          </SelectItem>
+                          <SelectItem
+                            className={scope === "site" ? "hidden" : ""}
+                            value="jina"
+                          >
+                            Jina Reader
+                          </SelectItem>
                         </SelectContent>
                       </Select>
                     </FormControl>
@@ -0,0 +1,96 @@
+"use client";
+import { useMemo } from "react";
+import { useTranslation } from "react-i18next";
+import { Loader2, CircleX } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import useKnowledge from "@/hooks/useKnowledge";
+import { useKnowledgeStore } from "@/store/knowledge";
+import { cn } from "@/utils/style";
+
+type Props = {
+  className?: string;
+};
+
+function SiteCrawlProgress({ className }: Props) {
+  const { t } = useTranslation();
+  const { cancelSiteCrawl } = useKnowledge();
+  const { siteCrawl, clearSiteCrawl } = useKnowledgeStore();
+
+  const { completed, failed, skipped, current } = useMemo(() => {
+    const pages = siteCrawl?.pages || [];
+    return {
+      completed: pages.filter((page) => page.status === "completed").length,
+      failed: pages.filter((page) => page.status === "failed"),
+      skipped: pages.filter((page) => page.status === "skipped").length,
+      current: pages.find((page) => page.status === "processing"),
+    };
+  }, [siteCrawl]);
+
+  if (!siteCrawl) return null;
+
+  const isRunning = siteCrawl.status === "running";
+
+  return (
+    <div className={cn("rounded-md border p-3 text-sm", className)}>
+      <div className="flex items-center justify-between gap-2">
+        <div className="flex min-w-0 items-center gap-2">
+          {isRunning ? (
+            <Loader2 className="h-4 w-4 shrink-0 animate-spin text-blue-600" />
+          ) : null}
+          <span className="truncate font-medium" title={siteCrawl.url}>
+            {isRunning
+              ? t("knowledge.siteCrawlRunningTitle", { url: siteCrawl.url })
+              : siteCrawl.status === "cancelled"
+              ? t("knowledge.siteCrawlCancelled", { url: siteCrawl.url })
+              : siteCrawl.status === "failed"
+              ? t("knowledge.siteCrawlError", { url: siteCrawl.url })
+              : t("knowledge.siteCrawlCompleted", { url: siteCrawl.url })}
+          </span>
+        </div>
+        {isRunning ? (
+          <Button size="sm" variant="secondary" onClick={cancelSiteCrawl}>
+            {t("knowledge.cancelCrawl")}
+          </Button>
+        ) : (
+          <Button size="sm" variant="ghost" onClick={clearSiteCrawl}>
+            {t("knowledge.dismiss")}
+          </Button>
+        )}
+      </div>
+      <p className="mt-1 text-xs text-muted-foreground">
+        {t("knowledge.siteCrawlStatus", {
+          completed,
+          failed: failed.length,
+          skipped,
+        })}
+      </p>
+      {current ? (
+        <p
+          className="mt-1 truncate text-xs text-muted-foreground"
+          title={current.url}
+        >
+          {current.url}
+        </p>
+      ) : null}
+      {failed.length > 0 ? (
+        <ul className="mt-2 max-h-24 space-y-1 overflow-y-auto text-xs text-red-500">
+          {failed.map((page) => (
+            <li
+              key={page.url}
+              className="flex items-start gap-1"
+              title={page.error}
+            >
+              <CircleX className="mt-0.5 h-3 w-3 shrink-0" />
+              <span className="break-all">
+                {page.url}
+                {page.error ? ` - ${page.error}` : ""}
+              </span>
+            </li>
+          ))}
+        </ul>
+      ) : null}
+    </div>
+  );
+}
+
+export default SiteCrawlProgress;
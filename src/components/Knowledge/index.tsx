@@ -7,6 +7,7 @@ import Fuse from "fuse.js";
 import { toast } from "sonner";
 import dayjs from "dayjs";
 import ResourceIcon from "./ResourceIcon";
+import SiteCrawlProgress from "./SiteCrawlProgress";
 import SearchArea from "@/components/Internal/SearchArea";
 import {
   Dialog,
@@ -27,6 +28,7 @@ import {
 import { Tabs, TabsContent } from "@/components/ui/tabs";
 import { ScrollArea } from "@/components/ui/scroll-area";
 import useKnowledge from "@/hooks/useKnowledge";
+import useKnowledgeIndex from "@/hooks/useKnowledgeIndex";
 import { useKnowledgeStore } from "@/store/knowledge";
 import { useTaskStore } from "@/store/task";
 import { getTextByteSize, formatSize } from "@/utils/file";
@@ -48,11 +50,17 @@ function formatDate(timestamp: number) {
 function Knowledge({ open, onClose }: KnowledgeProps) {
   const { t } = useTranslation();
   const { generateId } = useKnowledge();
+  const {
+    isEnabled: isSemanticSearchEnabled,
+    semanticSearch,
+    removeIndex,
+  } = useKnowledgeIndex();
   const { knowledges, save, remove } = useKnowledgeStore();
   const [tab, setTab] = useState<"list" | "edit">("list");
   const [currentId, setCurrentId] = useState<string>("");
   const [knowledgeList, setKnowledgeList] = useState<Knowledge[]>([]);
   const [currentPage, setCurrentPage] = useState(1);
+  const [snippets, setSnippets] = useState<Record<string, string>>({});
   const showLoadMore = useMemo(() => {
     return knowledges.length > currentPage * PAGE_SIZE;
   }, [knowledges, currentPage]);
@@ -72,7 +80,7 @@ function Knowledge({ open, onClose }: KnowledgeProps) {
     setTab("edit");
   }
 
-  function handleSearch(value: string) {
+  function keywordSearch(value: string) {
     const options = { keys: ["title", "content", "fileMeta.name", "url"] };
     const knowledgeIndex = Fuse.createIndex(options.keys, knowledges);
     const fuse = new Fuse(knowledges, options, knowledgeIndex);
@@ -80,6 +88,32 @@ function Knowledge({ open, onClose }: KnowledgeProps) {
     setKnowledgeList(result.map((value) => value.item));
   }
 
+  // 设置了向量模型时按语义相关度排序，并展示最相关的片段
+  async function handleSearch(value: string) {
+    setSnippets({});
+    if (!isSemanticSearchEnabled()) return keywordSearch(value);
+
+    try {
+      const results = await semanticSearch(value, { topK: 50 });
+      const matched: Record<string, string> = {};
+      for (const result of results) {
+        if (!matched[result.knowledgeId]) {
+          matched[result.knowledgeId] = result.content;
+        }
+      }
+      setSnippets(matched);
+      setKnowledgeList(
+        Object.keys(matched)
+          .map((id) => knowledges.find((item) => item.id === id))
+          .filter((item): item is Knowledge => !!item)
+      );
+    } catch (err) {
+      console.error(err);
+      toast.error(t("knowledge.semanticSearchFailed"));
+      keywordSearch(value);
+    }
+  }
+
   function addToResources(id: string) {
     const { resources, addResource } = useTaskStore.getState();
     const knowledge = knowledges.find((item) => item.id === id);
@@ -109,6 +143,7 @@ function Knowledge({ open, onClose }: KnowledgeProps) {
 
   function removeKnowledge(id: string) {
     remove(id);
+    removeIndex(id);
   }
 
   function handleBack() {
@@ -158,9 +193,15 @@ function Knowledge({ open, onClose }: KnowledgeProps) {
           <SearchArea
             className="max-sm:w-52"
             onChange={handleSearch}
-            onClear={() => setKnowledgeList(knowledges.slice(0, PAGE_SIZE))}
+            onClear={() => {
+              setSnippets({});
+              setKnowledgeList(knowledges.slice(0, PAGE_SIZE));
+            }}
           />
         </div>
+        <SiteCrawlProgress
+          className={cn("mt-4", { hidden: tab !== "list" })}
+        />
         <ScrollArea className="max-h-[65vh]">
           <Tabs value={tab} className="w-full">
             <TabsContent value="list">
@@ -202,6 +243,11 @@ function Knowledge({ open, onClose }: KnowledgeProps) {
                                 {item.title}
                               </span>
                             </p>
+                            {snippets[item.id] ? (
+                              <p className="text-xs text-muted-foreground line-clamp-2 w-80 max-lg:w-52 max-sm:w-40">
+                                {snippets[item.id]}
+                              </p>
+                            ) : null}
                           </TableCell>
                           <TableCell className="text-center whitespace-nowrap max-sm:hidden">
                             {formatSize(getTextByteSize(item.content))}
@@ -8,6 +8,8 @@ import {
   BookText,
   Paperclip,
   Link,
+  RotateCcw,
+  CircleStop,
 } from "lucide-react";
 import { useForm } from "react-hook-form";
 import { z } from "zod";
@@ -36,12 +38,15 @@ import {
 import useDeepThinkEngine from "@/hooks/useDeepThink";
 import useModelProvider from "@/hooks/useAiProvider";
 import useKnowledge from "@/hooks/useKnowledge";
+import useKnowledgeIndex from "@/hooks/useKnowledgeIndex";
 import useAccurateTimer from "@/hooks/useAccurateTimer";
 import { useGlobalStore } from "@/store/global";
 import { useSettingStore } from "@/store/setting";
 import { useTaskStore } from "@/store/task";
 import { useHistoryStore } from "@/store/history";
 import { useKnowledgeStore } from "@/store/knowledge";
+import { useCheckpointStore } from "@/store/checkpoint";
+import { KnowledgeRetriever } from "@/utils/retrieval";
 
 const formSchema = z.object({
   topic: z.string().min(2),
@@ -52,9 +57,11 @@ function Topic() {
   const fileInputRef = useRef<HTMLInputElement>(null);
   const taskStore = useTaskStore();
   const globalStore = useGlobalStore();
+  const checkpoint = useCheckpointStore((state) => state.checkpoint);
   const { 
     runDeepThinkMode, 
     runUltraThinkMode,
+    stopThinking,
     interactiveState,
     startInteractiveDeepThink,
     continueWithAnswers,
@@ -62,6 +69,8 @@ function Topic() {
   } = useDeepThinkEngine();
   const { hasApiKey } = useModelProvider();
   const { getKnowledgeFromFile } = useKnowledge();
+  const { isEnabled: isSemanticSearchEnabled, semanticSearch } =
+    useKnowledgeIndex();
   const {
     formattedTime,
     start: accurateTimerStart,
@@ -90,33 +99,32 @@ function Topic() {
     }
   }
 
-  // 收集知识库资源并生成上下文
-  function collectKnowledgeContext(): string {
+  // 收集知识库资源，思考时按问题检索相关片段
+  function createKnowledgeRetriever(): KnowledgeRetriever | undefined {
     const { resources } = useTaskStore.getState();
     const { get: getKnowledge } = useKnowledgeStore.getState();
-    
-    if (resources.length === 0) {
-      return "";
-    }
 
-    const knowledgeTexts: string[] = [];
-    
+    const knowledges: Knowledge[] = [];
     for (const item of resources) {
       if (item.status === "completed") {
         const knowledge = getKnowledge(item.id);
         if (knowledge && knowledge.content) {
-          knowledgeTexts.push(
-            `### ${knowledge.title || item.name} ###\n\n${knowledge.content}`
-          );
+          knowledges.push({
+            ...knowledge,
+            title: knowledge.title || item.name,
+          });
         }
       }
     }
 
-    if (knowledgeTexts.length === 0) {
-      return "";
+    if (knowledges.length === 0) {
+      return undefined;
     }
 
-    return knowledgeTexts.join("\n\n---\n\n");
+    // 设置了向量模型时同时使用向量索引按语义相似度排序
+    return new KnowledgeRetriever(knowledges, {
+      semanticSearch: isSemanticSearchEnabled() ? semanticSearch : undefined,
+    });
   }
 
   async function handleSubmit(values: z.infer<typeof formSchema>) {
@@ -139,14 +147,16 @@ function Topic() {
           form.setValue("topic", values.topic);
         }
         setQuestion(values.topic);
+        // 新的思考任务会覆盖旧的断点
+        useCheckpointStore.getState().clear();
 
         // 收集知识库资源
-        const knowledgeContext = collectKnowledgeContext();
+        const knowledge = createKnowledgeRetriever();
 
         // 检查是否启用问问题功能（仅对Deep Think模式）
         if (thinkMode === "deep-think" && enableAskQuestions === "enable") {
           // 使用交互式Deep Think流程
-          const result = await startInteractiveDeepThink(values.topic, [], knowledgeContext);
+          const result = await startInteractiveDeepThink(values.topic, [], knowledge);
           if (result && result.questions) {
             // 问题已生成，暂停计时器等待用户回答
             setIsThinking(false);
@@ -159,12 +169,14 @@ function Topic() {
         // 标准非交互流程
         // Route to different modes
         if (thinkMode === "deep-think") {
-          const result = await runDeepThinkMode(values.topic, [], knowledgeContext);
+          const result = await runDeepThinkMode(values.topic, [], knowledge);
           if (result) {
             setDeepThinkResult(result);
-            // 保存到历史记录
-            const { saveThink } = useHistoryStore.getState();
-            saveThink("deep-think", values.topic, result);
+            // 保存到历史记录，取消后的部分结果不保存，以便从断点恢复
+            if (!result.cancelled) {
+              const { saveThink } = useHistoryStore.getState();
+              saveThink("deep-think", values.topic, result);
+            }
           }
         } else if (thinkMode === "ultra-think") {
           // Pass undefined if numAgents is 0 (auto mode)
@@ -172,13 +184,15 @@ function Topic() {
             values.topic, 
             numAgents === 0 ? undefined : numAgents, 
             [], 
-            knowledgeContext
+            knowledge
           );
           if (result) {
             setUltraThinkResult(result);
             // 保存到历史记录
-            const { saveThink } = useHistoryStore.getState();
-            saveThink("ultra-think", values.topic, result);
+            if (!result.cancelled) {
+              const { saveThink } = useHistoryStore.getState();
+              saveThink("ultra-think", values.topic, result);
+            }
           }
         }
       } finally {
@@ -192,6 +206,45 @@ function Topic() {
     }
   }
 
+  // 从断点恢复 Deep Think
+  async function handleResume() {
+    if (!handleCheck()) return;
+
+    const { question } = useTaskStore.getState();
+    const savedCheckpoint = useCheckpointStore.getState().load(question);
+    if (!savedCheckpoint) return;
+
+    const {
+      setDeepThinkResult,
+      setIsThinking: setGlobalThinking,
+    } = useGlobalStore.getState();
+
+    try {
+      setIsThinking(true);
+      setGlobalThinking(true);
+      accurateTimerStart();
+
+      const knowledge = createKnowledgeRetriever();
+      const result = await runDeepThinkMode(
+        question,
+        [],
+        knowledge,
+        savedCheckpoint
+      );
+      if (result) {
+        setDeepThinkResult(result);
+        if (!result.cancelled) {
+          const { saveThink } = useHistoryStore.getState();
+          saveThink("deep-think", question, result);
+        }
+      }
+    } finally {
+      setIsThinking(false);
+      setGlobalThinking(false);
+      accurateTimerStop();
+    }
+  }
+
   // 处理用户回答并继续Deep Think
   async function handleAnswersSubmit(answers: string) {
     const {
@@ -210,9 +263,11 @@ function Topic() {
       if (result) {
         setDeepThinkResult(result);
         // 保存到历史记录
-        const { saveThink } = useHistoryStore.getState();
-        const { question } = useTaskStore.getState();
-        saveThink("deep-think", question, result);
+        if (!result.cancelled) {
+          const { saveThink } = useHistoryStore.getState();
+          const { question } = useTaskStore.getState();
+          saveThink("deep-think", question, result);
+        }
         // 成功后重置答案
         setUserAnswers("");
       }
@@ -233,6 +288,7 @@ function Topic() {
     if (id) update(id, backup());
     reset();
     resetThinkResults();
+    useCheckpointStore.getState().clear(); // 丢弃未完成的断点
     resetInteractiveState(); // 重置交互状态
     setUserAnswers(""); // 重置用户答案
     setIsThinking(false); // 重置思考状态
@@ -343,6 +399,16 @@ function Topic() {
                 </>
               )}
             </Button>
+            {isThinking ? (
+              <Button
+                className="w-full mt-2"
+                variant="outline"
+                onClick={() => stopThinking()}
+              >
+                <CircleStop />
+                <span>{t("deepThink.actions.stop")}</span>
+              </Button>
+            ) : null}
           </div>
         </div>
       ) : (
@@ -450,6 +516,37 @@ function Topic() {
                 t("research.common.startThinking")
               )}
             </Button>
+            {isThinking ? (
+              <Button
+                className="w-full mt-2"
+                variant="outline"
+                type="button"
+                onClick={() => stopThinking()}
+              >
+                <CircleStop />
+                <span>{t("deepThink.actions.stop")}</span>
+              </Button>
+            ) : null}
+            {globalStore.thinkMode === "deep-think" &&
+            !isThinking &&
+            (!globalStore.deepThinkResult ||
+              globalStore.deepThinkResult.cancelled) &&
+            checkpoint &&
+            checkpoint.problemStatement === taskStore.question ? (
+              <Button
+                className="w-full mt-2"
+                variant="secondary"
+                type="button"
+                onClick={() => handleResume()}
+              >
+                <RotateCcw />
+                <span>
+                  {t("deepThink.checkpoint.resume", {
+                    iteration: checkpoint.iteration,
+                  })}
+                </span>
+              </Button>
+            ) : null}
           </form>
         </Form>
       )}
@@ -31,6 +31,7 @@ import {
   FormLabel,
 } from "@/components/ui/form";
 import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
 import {
   Select,
   SelectContent,
@@ -169,19 +170,70 @@ const formSchema = z.object({
   smoothTextStreamType: z.enum(["character", "word", "line"]).optional(),
   onlyUseLocalResource: z.enum(["enable", "disable"]).optional(),
   useFileFormatResource: z.enum(["enable", "disable"]).optional(),
+  embeddingProvider: z.string().optional(),
+  embeddingModel: z.string().optional(),
   enableModelStages: z.enum(["enable", "disable"]).optional(),
   modelStageInitial: z.string().optional(),
   modelStageImprovement: z.string().optional(),
   modelStageVerification: z.string().optional(),
   modelStageCorrection: z.string().optional(),
+  modelStageConsensus: z.string().optional(),
   modelStagePlanning: z.string().optional(),
   modelStageAgentConfig: z.string().optional(),
   modelStageAgentThinking: z.string().optional(),
   modelStageSynthesis: z.string().optional(),
+  modelStageCritique: z.string().optional(),
+  modelStageProviders: z.record(z.string()).optional(),
   enableAskQuestions: z.enum(["enable", "disable"]).optional(),
   enablePlanning: z.enum(["enable", "disable"]).optional(),
+  knowledgeTopK: z.number().min(1).max(30).optional(),
+  selfConsistencySamples: z.number().min(1).max(9).optional(),
+  verifierModels: z.string().optional(),
+  verificationQuorum: z.enum(["all", "majority", "any"]).optional(),
+  maxConcurrentAgents: z.number().min(1).max(10).optional(),
+  enableCritique: z.enum(["enable", "disable"]).optional(),
+  modelPrices: z.string().optional(),
 });
 
+// 分阶段模型的表单字段
+type ModelStageField = Exclude<
+  Extract<keyof z.infer<typeof formSchema>, `modelStage${string}`>,
+  "modelStageProviders"
+>;
+
+interface ModelStageFieldOption {
+  name: ModelStageField;
+  label: string;
+  tip: string;
+}
+
+// 支持生成向量的服务商
+const EMBEDDING_PROVIDERS = [
+  { value: "google", label: "Google AI Studio" },
+  { value: "openai", label: "OpenAI" },
+  { value: "mistral", label: "Mistral" },
+  { value: "openaicompatible", label: "OpenAI Compatible" },
+  { value: "azure", label: "Azure OpenAI" },
+  { value: "google-vertex", label: "Google Vertex" },
+  { value: "ollama", label: "Ollama" },
+];
+
+// 分阶段模型可选的服务商
+const MODEL_STAGE_PROVIDERS = [
+  { value: "google", label: "Google AI Studio" },
+  { value: "openai", label: "OpenAI" },
+  { value: "anthropic", label: "Anthropic" },
+  { value: "deepseek", label: "DeepSeek" },
+  { value: "xai", label: "xAI Grok" },
+  { value: "mistral", label: "Mistral" },
+  { value: "openaicompatible", label: "OpenAI Compatible" },
+  { value: "pollinations", label: "Pollinations" },
+  { value: "azure", label: "Azure OpenAI" },
+  { value: "google-vertex", label: "Google Vertex" },
+  { value: "openrouter", label: "OpenRouter" },
+  { value: "ollama", label: "Ollama" },
+];
+
 function convertModelName(name: string) {
   return name
     .replaceAll("/", "-")
@@ -312,6 +364,107 @@ function Setting({ open, onClose }: SettingProps) {
     onClose();
   }
 
+  // 分阶段模型：服务商为默认服务商时从模型列表中选择，否则手动输入模型名称
+  function renderModelStageField(stage: ModelStageFieldOption) {
+    const stageProvider = form.watch("modelStageProviders")?.[stage.name] || "";
+    const useModelList = !stageProvider || stageProvider === provider;
+
+    return (
+      <div key={stage.name} className="space-y-2">
+        <FormField
+          control={form.control}
+          name={stage.name}
+          render={({ field }) => (
+            <FormItem className="from-item">
+              <FormLabel className="from-label text-sm">
+                <HelpTip tip={stage.tip}>{stage.label}</HelpTip>
+              </FormLabel>
+              <FormControl>
+                {useModelList ? (
+                  <Select {...field} onValueChange={field.onChange}>
+                    <SelectTrigger className="form-field">
+                      <SelectValue placeholder="留空使用默认" />
+                    </SelectTrigger>
+                    <SelectContent className="max-sm:max-h-72">
+                      {thinkingModelList[0].length > 0 ? (
+                        <SelectGroup>
+                          <SelectLabel>推荐模型</SelectLabel>
+                          {thinkingModelList[0].map((name) => {
+                            return !isDisabledAIModel(name) ? (
+                              <SelectItem key={name} value={name}>
+                                {convertModelName(name)}
+                              </SelectItem>
+                            ) : null;
+                          })}
+                        </SelectGroup>
+                      ) : null}
+                      <SelectGroup>
+                        <SelectLabel>基础模型</SelectLabel>
+                        {thinkingModelList[1].map((name) => {
+                          return !isDisabledAIModel(name) ? (
+                            <SelectItem key={name} value={name}>
+                              {convertModelName(name)}
+                            </SelectItem>
+                          ) : null;
+                        })}
+                      </SelectGroup>
+                    </SelectContent>
+                  </Select>
+                ) : (
+                  <Input
+                    className="form-field"
+                    placeholder="模型名称，留空使用默认"
+                    {...field}
+                  />
+                )}
+              </FormControl>
+            </FormItem>
+          )}
+        />
+        <FormField
+          control={form.control}
+          name="modelStageProviders"
+          render={({ field }) => (
+            <FormItem className="from-item">
+              <FormLabel className="from-label text-xs text-muted-foreground">
+                <HelpTip tip="该阶段使用的服务商，需要在对应服务商的设置中填写 API Key。">
+                  服务商
+                </HelpTip>
+              </FormLabel>
+              <FormControl>
+                <Select
+                  value={stageProvider || "default"}
+                  onValueChange={(value) => {
+                    field.onChange({
+                      ...field.value,
+                      [stage.name]: value === "default" ? "" : value,
+                    });
+                    // 不同服务商的模型名称不通用
+                    form.setValue(stage.name, "");
+                  }}
+                >
+                  <SelectTrigger className="form-field">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent className="max-sm:max-h-72">
+                    <SelectItem value="default">默认服务商</SelectItem>
+                    {MODEL_STAGE_PROVIDERS.map((item) => {
+                      return !isDisabledAIProvider(item.value) ? (
+                        <SelectItem key={item.value} value={item.value}>
+                          {item.label}
+                        </SelectItem>
+                      ) : null;
+                    })}
+                  </SelectContent>
+                </Select>
+              </FormControl>
+            </FormItem>
+          )}
+        />
+      </div>
+    );
+  }
+
   const fetchModelList = useCallback(async () => {
     const { provider } = useSettingStore.getState();
     try {
@@ -2180,113 +2333,23 @@ function Setting({ open, onClose }: SettingProps) {
                   />
                   {form.watch("enableModelStages") === "enable" && (
                     <div className="space-y-4 mt-4 pl-4 border-l-2">
-                      {[
+                      {([
                         { name: "modelStageInitial", label: "初始思考", tip: "初始思考阶段的模型。留空使用默认模型。" },
                         { name: "modelStageImprovement", label: "改进阶段", tip: "自我改进阶段的模型。留空使用默认模型。" },
                         { name: "modelStageVerification", label: "验证阶段", tip: "验证阶段的模型。建议用便宜模型，比如 gpt-4o-mini。" },
                         { name: "modelStageCorrection", label: "修正阶段", tip: "修正错误阶段的模型。留空使用默认模型。" },
-                      ].map((stage) => (
-                        <FormField
-                          key={stage.name}
-                          control={form.control}
-                          name={stage.name as any}
-                          render={({ field }) => (
-                            <FormItem className="from-item">
-                              <FormLabel className="from-label text-sm">
-                                <HelpTip tip={stage.tip}>
-                                  {stage.label}
-                                </HelpTip>
-                              </FormLabel>
-                              <FormControl>
-                                <Select {...field} onValueChange={field.onChange}>
-                                  <SelectTrigger className="form-field">
-                                    <SelectValue placeholder="留空使用默认" />
-                                  </SelectTrigger>
-                                  <SelectContent className="max-sm:max-h-72">
-                                    {thinkingModelList[0].length > 0 ? (
-                                      <SelectGroup>
-                                        <SelectLabel>推荐模型</SelectLabel>
-                                        {thinkingModelList[0].map((name) => {
-                                          return !isDisabledAIModel(name) ? (
-                                            <SelectItem key={name} value={name}>
-                                              {convertModelName(name)}
-                                            </SelectItem>
-                                          ) : null;
-                                        })}
-                                      </SelectGroup>
-                                    ) : null}
-                                    <SelectGroup>
-                                      <SelectLabel>基础模型</SelectLabel>
-                                      {thinkingModelList[1].map((name) => {
-                                        return !isDisabledAIModel(name) ? (
-                                          <SelectItem key={name} value={name}>
-                                            {convertModelName(name)}
-                                          </SelectItem>
-                                        ) : null;
-                                      })}
-                                    </SelectGroup>
-                                  </SelectContent>
-                                </Select>
-                              </FormControl>
-                            </FormItem>
-                          )}
-                        />
-                      ))}
+                        { name: "modelStageConsensus", label: "答案投票", tip: "自洽模式下提取和聚类最终答案的模型。建议用便宜模型。" },
+                        { name: "modelStagePlanning", label: "计划生成", tip: "提问和制定思考计划阶段的模型，UltraThink 也用于生成计划。留空使用默认模型。" },
+                      ] satisfies ModelStageFieldOption[]).map(renderModelStageField)}
                       <div className="text-sm font-medium text-muted-foreground mt-4 mb-2">
                         UltraThink 专用配置
                       </div>
-                      {[
-                        { name: "modelStagePlanning", label: "计划生成", tip: "UltraThink 生成计划阶段的模型。" },
+                      {([
                         { name: "modelStageAgentConfig", label: "Agent 配置", tip: "UltraThink 生成 Agent 配置阶段的模型。" },
                         { name: "modelStageAgentThinking", label: "Agent 思考", tip: "UltraThink Agent 并行思考阶段的模型。" },
                         { name: "modelStageSynthesis", label: "结果合成", tip: "UltraThink 合成最终结果阶段的模型。" },
-                      ].map((stage) => (
-                        <FormField
-                          key={stage.name}
-                          control={form.control}
-                          name={stage.name as any}
-                          render={({ field }) => (
-                            <FormItem className="from-item">
-                              <FormLabel className="from-label text-sm">
-                                <HelpTip tip={stage.tip}>
-                                  {stage.label}
-                                </HelpTip>
-                              </FormLabel>
-                              <FormControl>
-                                <Select {...field} onValueChange={field.onChange}>
-                                  <SelectTrigger className="form-field">
-                                    <SelectValue placeholder="留空使用默认" />
-                                  </SelectTrigger>
-                                  <SelectContent className="max-sm:max-h-72">
-                                    {thinkingModelList[0].length > 0 ? (
-                                      <SelectGroup>
-                                        <SelectLabel>推荐模型</SelectLabel>
-                                        {thinkingModelList[0].map((name) => {
-                                          return !isDisabledAIModel(name) ? (
-                                            <SelectItem key={name} value={name}>
-                                              {convertModelName(name)}
-                                            </SelectItem>
-                                          ) : null;
-                                        })}
-                                      </SelectGroup>
-                                    ) : null}
-                                    <SelectGroup>
-                                      <SelectLabel>基础模型</SelectLabel>
-                                      {thinkingModelList[1].map((name) => {
-                                        return !isDisabledAIModel(name) ? (
-                                          <SelectItem key={name} value={name}>
-                                            {convertModelName(name)}
-                                          </SelectItem>
-                                        ) : null;
-                                      })}
-                                    </SelectGroup>
-                                  </SelectContent>
-                                </Select>
-                              </FormControl>
-                            </FormItem>
-                          )}
-                        />
-                      ))}
+                        { name: "modelStageCritique", label: "交叉评审", tip: "UltraThink Agent 互相评审阶段的模型，未设置时使用 Agent 思考阶段的模型。" },
+                      ] satisfies ModelStageFieldOption[]).map(renderModelStageField)}
                     </div>
                   )}
 
@@ -2341,6 +2404,197 @@ function Setting({ open, onClose }: SettingProps) {
                         </FormItem>
                       )}
                     />
+
+                    <FormField
+                      control={form.control}
+                      name="verifierModels"
+                      render={({ field }) => (
+                        <FormItem className="from-item">
+                          <FormLabel className="from-label">
+                            <HelpTip tip="由多个模型并行独立验证方案，代替验证阶段的单个模型，避免单个宽松的模型放过有缺陷的方案。多个模型用英文逗号分隔，建议使用不同服务商的模型，可以写成“服务商:模型”指定服务商，例如 openai:gpt-4o-mini，需要在对应服务商的设置中填写 API Key。留空则不启用。">
+                              验证模型组
+                            </HelpTip>
+                          </FormLabel>
+                          <FormControl>
+                            <Input
+                              className="form-field"
+                              placeholder="openai:gpt-4o-mini,google:gemini-2.0-flash"
+                              {...field}
+                            />
+                          </FormControl>
+                        </FormItem>
+                      )}
+                    />
+
+                    <FormField
+                      control={form.control}
+                      name="verificationQuorum"
+                      render={({ field }) => (
+                        <FormItem className="from-item">
+                          <FormLabel className="from-label">
+                            <HelpTip tip="验证模型组的通过规则。调用失败的模型不参与计票。">
+                              验证通过规则
+                            </HelpTip>
+                          </FormLabel>
+                          <FormControl>
+                            <Select
+                              {...field}
+                              onValueChange={field.onChange}
+                              disabled={!form.watch("verifierModels")}
+                            >
+                              <SelectTrigger className="form-field">
+                                <SelectValue />
+                              </SelectTrigger>
+                              <SelectContent>
+                                <SelectItem value="all">全部通过</SelectItem>
+                                <SelectItem value="majority">多数通过</SelectItem>
+                                <SelectItem value="any">任一通过</SelectItem>
+                              </SelectContent>
+                            </Select>
+                          </FormControl>
+                        </FormItem>
+                      )}
+                    />
+
+                    <FormField
+                      control={form.control}
+                      name="knowledgeTopK"
+                      render={({ field }) => (
+                        <FormItem className="from-item">
+                          <FormLabel className="from-label">
+                            <HelpTip tip="使用知识库资源时，每次只检索与问题最相关的若干片段作为上下文，修正阶段会按验证发现的问题重新检索。片段越多上下文越完整，但消耗的 token 也越多。">
+                              知识库片段数
+                            </HelpTip>
+                          </FormLabel>
+                          <FormControl className="form-field">
+                            <div className="flex h-9">
+                              <Slider
+                                className="flex-1"
+                                value={[field.value ?? 8]}
+                                max={30}
+                                min={1}
+                                step={1}
+                                onValueChange={(values) =>
+                                  field.onChange(values[0])
+                                }
+                              />
+                              <span className="w-[14%] text-center text-sm leading-10">
+                                {field.value}
+                              </span>
+                            </div>
+                          </FormControl>
+                        </FormItem>
+                      )}
+                    />
+
+                    <FormField
+                      control={form.control}
+                      name="selfConsistencySamples"
+                      render={({ field }) => (
+                        <FormItem className="from-item">
+                          <FormLabel className="from-label">
+                            <HelpTip tip="DeepThink 自洽模式：独立生成多个初始方案，提取并比较最终答案，只对多数答案的方案进行验证和修正。适合数学、代码输出、分类等有明确答案的问题。设为 1 表示不启用。">
+                              自洽采样数
+                            </HelpTip>
+                          </FormLabel>
+                          <FormControl className="form-field">
+                            <div className="flex h-9">
+                              <Slider
+                                className="flex-1"
+                                value={[field.value ?? 1]}
+                                max={9}
+                                min={1}
+                                step={1}
+                                onValueChange={(values) =>
+                                  field.onChange(values[0])
+                                }
+                              />
+                              <span className="w-[14%] text-center text-sm leading-10">
+                                {field.value}
+                              </span>
+                            </div>
+                          </FormControl>
+                        </FormItem>
+                      )}
+                    />
+
+                    <FormField
+                      control={form.control}
+                      name="maxConcurrentAgents"
+                      render={({ field }) => (
+                        <FormItem className="from-item">
+                          <FormLabel className="from-label">
+                            <HelpTip tip="UltraThink 模式下同时运行的 agent 数量上限，超出的 agent 会排队等待。API Key 的速率限制较低时建议调小。">
+                              最大并发 Agent 数
+                            </HelpTip>
+                          </FormLabel>
+                          <FormControl className="form-field">
+                            <div className="flex h-9">
+                              <Slider
+                                className="flex-1"
+                                value={[field.value ?? 3]}
+                                max={10}
+                                min={1}
+                                step={1}
+                                onValueChange={(values) =>
+                                  field.onChange(values[0])
+                                }
+                              />
+                              <span className="w-[14%] text-center text-sm leading-10">
+                                {field.value}
+                              </span>
+                            </div>
+                          </FormControl>
+                        </FormItem>
+                      )}
+                    />
+
+                    <FormField
+                      control={form.control}
+                      name="enableCritique"
+                      render={({ field }) => (
+                        <FormItem className="from-item">
+                          <FormLabel className="from-label">
+                            <HelpTip tip="UltraThink 模式下，所有 Agent 完成后会互相评审对方的方案，每个 Agent 根据评审意见修订一次后再进行结果合成。会增加模型调用次数。">
+                              启用交叉评审
+                            </HelpTip>
+                          </FormLabel>
+                          <FormControl>
+                            <Select {...field} onValueChange={field.onChange}>
+                              <SelectTrigger className="form-field">
+                                <SelectValue />
+                              </SelectTrigger>
+                              <SelectContent>
+                                <SelectItem value="enable">启用</SelectItem>
+                                <SelectItem value="disable">禁用</SelectItem>
+                              </SelectContent>
+                            </Select>
+                          </FormControl>
+                        </FormItem>
+                      )}
+                    />
+
+                    <FormField
+                      control={form.control}
+                      name="modelPrices"
+                      render={({ field }) => (
+                        <FormItem className="from-item">
+                          <FormLabel className="from-label">
+                            <HelpTip tip="用于估算思考费用。每行一个模型，格式为：模型=输入价格,输出价格，单位为美元/百万 token。支持前缀匹配，例如 gpt-4o=2.5,10">
+                              模型价格表
+                            </HelpTip>
+                          </FormLabel>
+                          <FormControl>
+                            <Textarea
+                              className="form-field"
+                              rows={3}
+                              placeholder={"gpt-4o=2.5,10\ngemini-2.5-pro=1.25,10"}
+                              {...field}
+                            />
+                          </FormControl>
+                        </FormItem>
+                      )}
+                    />
                   </div>
                 </div>
               </TabsContent>
@@ -3093,6 +3347,63 @@ function Setting({ open, onClose }: SettingProps) {
                     </FormItem>
                   )}
                 />
+                <FormField
+                  control={form.control}
+                  name="embeddingProvider"
+                  render={({ field }) => (
+                    <FormItem className="from-item">
+                      <FormLabel className="from-label">
+                        <HelpTip tip={t("setting.embeddingProviderTip")}>
+                          {t("setting.embeddingProvider")}
+                        </HelpTip>
+                      </FormLabel>
+                      <FormControl>
+                        <Select
+                          value={field.value || "default"}
+                          onValueChange={(value) =>
+                            field.onChange(value === "default" ? "" : value)
+                          }
+                        >
+                          <SelectTrigger className="form-field">
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            <SelectItem value="default">
+                              {t("setting.defaultProvider")}
+                            </SelectItem>
+                            {EMBEDDING_PROVIDERS.map((item) => {
+                              return !isDisabledAIProvider(item.value) ? (
+                                <SelectItem key={item.value} value={item.value}>
+                                  {item.label}
+                                </SelectItem>
+                              ) : null;
+                            })}
+                          </SelectContent>
+                        </Select>
+                      </FormControl>
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="embeddingModel"
+                  render={({ field }) => (
+                    <FormItem className="from-item">
+                      <FormLabel className="from-label">
+                        <HelpTip tip={t("setting.embeddingModelTip")}>
+                          {t("setting.embeddingModel")}
+                        </HelpTip>
+                      </FormLabel>
+                      <FormControl>
+                        <Input
+                          className="form-field"
+                          placeholder="text-embedding-3-small"
+                          {...field}
+                        />
+                      </FormControl>
+                    </FormItem>
+                  )}
+                />
               </TabsContent>
             </Tabs>
           </form>
@@ -164,7 +164,8 @@ You need to think like a human researcher.
 Generate a list of learnings from the contents.
 Make sure each learning is unique and not similar to each other.
 The learnings should be to the point, as detailed and information dense as possible.
-Make sure to include any entities like people, places, companies, products, things, etc in the learnings, as well as any specific entities, metrics, numbers, and dates when available. The learnings will be used to research the topic further.`;
+Make sure to include any entities like people, places, companies, products, things, etc in the learnings, as well as any specific entities, metrics, numbers, and dates when available. The learnings will be used to research the topic further.
+If the contents contain page markers like [Page 3], note the page number the information comes from in the learning, e.g. (p. 3).`;
 
 export const reviewPrompt = `This is the report plan after user confirmation:
 <PLAN>
@@ -1,6 +1,7 @@
 import { useSettingStore } from "@/store/setting";
 import {
   createAIProvider,
+  createAIEmbeddingProvider,
   type AIProviderOptions,
 } from "@/utils/deep-research/provider";
 import {
@@ -19,8 +20,14 @@ import { generateSignature } from "@/utils/signature";
 import { completePath } from "@/utils/url";
 
 function useModelProvider() {
-  async function createModelProvider(model: string, settings?: any) {
-    const { mode, provider, accessPassword } = useSettingStore.getState();
+  function getProviderOptions(
+    model: string,
+    settings?: any,
+    providerOverride?: string
+  ): AIProviderOptions {
+    const { mode, accessPassword } = useSettingStore.getState();
+    // 分阶段模型可以指定与默认服务商不同的服务商
+    const provider = providerOverride || useSettingStore.getState().provider;
     const options: AIProviderOptions = {
       baseURL: "",
       provider,
@@ -203,7 +210,26 @@ function useModelProvider() {
       options.apiKey = generateSignature(accessPassword, Date.now());
     }
 
-    return await createAIProvider(options);
+    return options;
+  }
+
+  async function createModelProvider(
+    model: string,
+    settings?: any,
+    providerOverride?: string
+  ) {
+    return await createAIProvider(
+      getProviderOptions(model, settings, providerOverride)
+    );
+  }
+
+  async function createEmbeddingProvider(
+    model: string,
+    providerOverride?: string
+  ) {
+    return await createAIEmbeddingProvider(
+      getProviderOptions(model, undefined, providerOverride)
+    );
   }
 
   function getModel(): { model: string } {
@@ -330,6 +356,7 @@ function useModelProvider() {
 
   return {
     createModelProvider,
+    createEmbeddingProvider,
     getModel,
     hasApiKey,
   };
@@ -14,6 +14,7 @@ import Plimit from "p-limit";
 import { toast } from "sonner";
 import useModelProvider from "@/hooks/useAiProvider";
 import useWebSearch from "@/hooks/useWebSearch";
+import useKnowledgeIndex from "@/hooks/useKnowledgeIndex";
 import { useTaskStore } from "@/store/task";
 import { useHistoryStore } from "@/store/history";
 import { useSettingStore } from "@/store/setting";
@@ -62,6 +63,10 @@ function useDeepResearch() {
   const { smoothTextStreamType } = useSettingStore();
   const { createModelProvider, getModel } = useModelProvider();
   const { search } = useWebSearch();
+  const {
+    isEnabled: isSemanticSearchEnabled,
+    semanticSearch,
+  } = useKnowledgeIndex();
   const [status, setStatus] = useState<string>("");
 
   async function generateSearchSettings(searchModel: string) {
@@ -224,13 +229,40 @@ function useDeepResearch() {
       }
     }
 
+    // 启用语义搜索时只提供与查询最相关的片段
+    let relevantKnowledges = knowledges;
+    if (isSemanticSearchEnabled() && knowledges.length > 0) {
+      try {
+        const { knowledgeTopK } = useSettingStore.getState();
+        const results = await semanticSearch(`${query}\n${researchGoal}`, {
+          knowledgeIds: knowledges.map((item) => item.id),
+          topK: knowledgeTopK,
+        });
+        relevantKnowledges = knowledges
+          .map((knowledge) => ({
+            ...knowledge,
+            content: results
+              .filter((result) => result.knowledgeId === knowledge.id)
+              .map((result) => result.content)
+              .join("\n\n...\n\n"),
+          }))
+          .filter((knowledge) => knowledge.content !== "");
+      } catch (err) {
+        console.warn("Semantic search failed, using full knowledge:", err);
+      }
+    }
+
     const { model } = getModel();
     const thinkTagStreamProcessor = new ThinkTagStreamProcessor();
     const searchResult = streamText({
       model: await createModelProvider(model),
       system: getSystemPrompt(),
       prompt: [
-        processSearchKnowledgeResultPrompt(query, researchGoal, knowledges),
+        processSearchKnowledgeResultPrompt(
+          query,
+          researchGoal,
+          relevantKnowledges
+        ),
         getResponseLanguagePrompt(),
       ].join("\n\n"),
       experimental_transform: smoothTextStream(smoothTextStreamType),
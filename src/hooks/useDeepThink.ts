@@ -1,18 +1,22 @@
-import { useState } from "react";
+import { useState, useRef } from "react";
 import { useTranslation } from "react-i18next";
 import { toast } from "sonner";
 import useModelProvider from "@/hooks/useAiProvider";
+import useWebSearch from "@/hooks/useWebSearch";
 import { useGlobalStore } from "@/store/global";
 import { useSettingStore } from "@/store/setting";
+import { useCheckpointStore } from "@/store/checkpoint";
 import {
   runDeepThink,
   runUltraThink,
   DeepThinkEngine,
   type DeepThinkProgressEvent,
   type DeepThinkOptions,
+  type ModelStageValue,
 } from "@/utils/deep-think";
 import { parseError } from "@/utils/error";
-import { isNetworkingModel } from "@/utils/model";
+import { isNetworkingModel, parseProviderModel } from "@/utils/model";
+import type { KnowledgeRetriever } from "@/utils/retrieval";
 
 // 交互式Deep Think的状态接口
 interface InteractiveDeepThinkState {
@@ -22,15 +26,64 @@ interface InteractiveDeepThinkState {
   originalOptions?: DeepThinkOptions;
 }
 
+// 阶段指定了服务商时传入 { provider, model }，否则只传模型名
+function toModelStage(
+  model: string,
+  provider?: string
+): ModelStageValue | undefined {
+  if (!model) return undefined;
+  return provider ? { provider, model } : model;
+}
+
+// 验证模型组设置为英文逗号分隔的模型列表，每个模型可以写成 `provider:model`
+function parseVerifierModels(value: string): ModelStageValue[] | undefined {
+  const models = value
+    .split(",")
+    .map((item) => item.trim())
+    .filter(Boolean)
+    .map((item) => {
+      const { provider, model } = parseProviderModel(item);
+      return toModelStage(model, provider);
+    })
+    .filter((model): model is ModelStageValue => !!model);
+  return models.length > 0 ? models : undefined;
+}
+
+// 每次检索返回的片段数量取自设置
+function toRetrieveKnowledge(retriever?: KnowledgeRetriever) {
+  if (!retriever) return undefined;
+  return (query: string) =>
+    retriever.retrieve(query, {
+      topK: useSettingStore.getState().knowledgeTopK,
+    });
+}
+
 function useDeepThinkEngine() {
   const { t } = useTranslation();
   const { createModelProvider, getModel } = useModelProvider();
+  const { search } = useWebSearch();
   const [status, setStatus] = useState<string>("");
   const [interactiveState, setInteractiveState] = useState<InteractiveDeepThinkState>({
     isWaitingForAnswers: false,
   });
+  const abortControllerRef = useRef<AbortController | null>(null);
+
+  // 每次运行创建新的取消控制器，供 stopThinking 使用
+  function createAbortSignal(): AbortSignal {
+    abortControllerRef.current?.abort();
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
+    return controller.signal;
+  }
+
+  function stopThinking() {
+    abortControllerRef.current?.abort();
+    abortControllerRef.current = null;
+  }
 
   function handleError(error: unknown) {
+    // 用户主动停止，不需要提示错误
+    if (error instanceof Error && error.name === "AbortError") return;
     console.error(error);
     const errorMessage = parseError(error);
     toast.error(errorMessage);
@@ -41,6 +94,9 @@ function useDeepThinkEngine() {
       setCurrentIteration,
       setCurrentPhase,
       setCurrentSolution,
+      appendStreamingText,
+      appendStreamingReasoning,
+      resetStreaming,
     } = useGlobalStore.getState();
 
     switch (event.type) {
@@ -76,7 +132,26 @@ function useDeepThinkEngine() {
           })
         );
         break;
+      case "text-delta":
+        // UltraThink 的 agent 并行输出，界面只展示 agent 状态
+        if (event.data.agentId) break;
+        appendStreamingText(
+          event.data.phase,
+          event.data.iteration,
+          event.data.delta
+        );
+        break;
+      case "reasoning-delta":
+        if (event.data.agentId) break;
+        appendStreamingReasoning(
+          event.data.phase,
+          event.data.iteration,
+          event.data.delta
+        );
+        break;
       case "solution":
+        // 完整方案已生成，清空流式输出
+        resetStreaming();
         setCurrentSolution(event.data.solution);
         setStatus(
           t("deepThink.status.generatedSolution", {
@@ -100,6 +175,9 @@ function useDeepThinkEngine() {
           })
         );
         break;
+      case "checkpoint":
+        useCheckpointStore.getState().save(event.data);
+        break;
       case "summarizing":
         setCurrentPhase("summarizing");
         setStatus(t("deepThink.status.summarizing"));
@@ -112,6 +190,10 @@ function useDeepThinkEngine() {
         setStatus(t("deepThink.status.failure"));
         toast.error(t("deepThink.status.failure"));
         break;
+      case "cancelled":
+        setStatus(t("deepThink.status.cancelled"));
+        toast.info(t("deepThink.status.cancelled"));
+        break;
       case "progress":
         setStatus(event.data.message);
         break;
@@ -121,51 +203,68 @@ function useDeepThinkEngine() {
   async function runDeepThinkMode(
     problemStatement: string,
     otherPrompts: string[] = [],
-    knowledgeContext?: string
+    knowledge?: KnowledgeRetriever,
+    checkpoint?: DeepThinkCheckpoint
   ): Promise<DeepThinkResult | null> {
     try {
       const { model } = getModel();
       const { 
         enableSearch, 
         searchProvider,
+        searchMaxResult,
         enableModelStages,
+        modelStageProviders,
         modelStageInitial,
         modelStageImprovement,
         modelStageVerification,
         modelStageCorrection,
         modelStageSummary,
+        modelStageConsensus,
+        modelStagePlanning,
         enableAskQuestions,
         enablePlanning,
+        selfConsistencySamples,
+        verifierModels,
+        verificationQuorum,
       } = useSettingStore.getState();
 
-      // 检查模型是否支持网页搜索
-      const enableWebSearch = enableSearch && 
-        searchProvider === "model" && 
-        isNetworkingModel(model);
+      // 模型自带的搜索需要模型支持，外部搜索服务则作为工具提供给模型
+      const enableWebSearch = enableSearch &&
+        (searchProvider !== "model" || isNetworkingModel(model));
 
       // 构建分阶段模型配置
       const modelStages = enableModelStages === "enable" ? {
-        initial: modelStageInitial || undefined,
-        improvement: modelStageImprovement || undefined,
-        verification: modelStageVerification || undefined,
-        correction: modelStageCorrection || undefined,
-        summary: modelStageSummary || undefined,
+        initial: toModelStage(modelStageInitial, modelStageProviders.modelStageInitial),
+        improvement: toModelStage(modelStageImprovement, modelStageProviders.modelStageImprovement),
+        verification: toModelStage(modelStageVerification, modelStageProviders.modelStageVerification),
+        correction: toModelStage(modelStageCorrection, modelStageProviders.modelStageCorrection),
+        summary: toModelStage(modelStageSummary, modelStageProviders.modelStageSummary),
+        consensus: toModelStage(modelStageConsensus, modelStageProviders.modelStageConsensus),
+        planning: toModelStage(modelStagePlanning, modelStageProviders.modelStagePlanning),
       } : undefined;
 
       const result = await runDeepThink({
         problemStatement,
         otherPrompts,
-        knowledgeContext,
+        retrieveKnowledge: toRetrieveKnowledge(knowledge),
         enableWebSearch: enableWebSearch || undefined,
-        searchProvider: enableWebSearch ? { provider: "model", maxResult: 5 } : undefined,
+        searchProvider: enableWebSearch ? { provider: searchProvider, maxResult: searchMaxResult } : undefined,
+        webSearch: enableWebSearch && searchProvider !== "model" ? search : undefined,
         enableAskQuestions: enableAskQuestions === "enable",
         enablePlanning: enablePlanning === "enable",
         createModelProvider,
         thinkingModel: model,
         modelStages,
+        checkpoint,
+        selfConsistencySamples,
+        verifierModels: parseVerifierModels(verifierModels),
+        verificationQuorum,
+        abortSignal: createAbortSignal(),
         onProgress: handleProgress,
       });
 
+      // 运行完成后断点不再需要，取消的运行保留断点以便继续
+      if (!result.cancelled) useCheckpointStore.getState().clear();
       return result;
     } catch (err) {
       handleError(err);
@@ -177,7 +276,7 @@ function useDeepThinkEngine() {
     problemStatement: string,
     numAgents?: number, // Optional: if not set, LLM decides
     otherPrompts: string[] = [],
-    knowledgeContext?: string
+    knowledge?: KnowledgeRetriever
   ): Promise<UltraThinkResult | null> {
     try {
       const { model } = getModel();
@@ -185,7 +284,9 @@ function useDeepThinkEngine() {
       const { 
         enableSearch, 
         searchProvider,
+        searchMaxResult,
         enableModelStages,
+        modelStageProviders,
         modelStageInitial,
         modelStageImprovement,
         modelStageVerification,
@@ -195,26 +296,31 @@ function useDeepThinkEngine() {
         modelStageAgentConfig,
         modelStageAgentThinking,
         modelStageSynthesis,
+        modelStageCritique,
         enableAskQuestions,
         enablePlanning,
+        maxConcurrentAgents,
+        enableCritique,
+        verifierModels,
+        verificationQuorum,
       } = useSettingStore.getState();
 
-      // 检查模型是否支持网页搜索
-      const enableWebSearch = enableSearch && 
-        searchProvider === "model" && 
-        isNetworkingModel(model);
+      // 模型自带的搜索需要模型支持，外部搜索服务则作为工具提供给模型
+      const enableWebSearch = enableSearch &&
+        (searchProvider !== "model" || isNetworkingModel(model));
 
       // 构建分阶段模型配置
       const modelStages = enableModelStages === "enable" ? {
-        initial: modelStageInitial || undefined,
-        improvement: modelStageImprovement || undefined,
-        verification: modelStageVerification || undefined,
-        correction: modelStageCorrection || undefined,
-        summary: modelStageSummary || undefined,
-        planning: modelStagePlanning || undefined,
-        agentConfig: modelStageAgentConfig || undefined,
-        agentThinking: modelStageAgentThinking || undefined,
-        synthesis: modelStageSynthesis || undefined,
+        initial: toModelStage(modelStageInitial, modelStageProviders.modelStageInitial),
+        improvement: toModelStage(modelStageImprovement, modelStageProviders.modelStageImprovement),
+        verification: toModelStage(modelStageVerification, modelStageProviders.modelStageVerification),
+        correction: toModelStage(modelStageCorrection, modelStageProviders.modelStageCorrection),
+        summary: toModelStage(modelStageSummary, modelStageProviders.modelStageSummary),
+        planning: toModelStage(modelStagePlanning, modelStageProviders.modelStagePlanning),
+        agentConfig: toModelStage(modelStageAgentConfig, modelStageProviders.modelStageAgentConfig),
+        agentThinking: toModelStage(modelStageAgentThinking, modelStageProviders.modelStageAgentThinking),
+        synthesis: toModelStage(modelStageSynthesis, modelStageProviders.modelStageSynthesis),
+        critique: toModelStage(modelStageCritique, modelStageProviders.modelStageCritique),
       } : undefined;
 
       // 初始化 agents - 如果指定了 numAgents，预先创建占位符
@@ -238,15 +344,21 @@ function useDeepThinkEngine() {
       const result = await runUltraThink({
         problemStatement,
         otherPrompts,
-        knowledgeContext,
+        retrieveKnowledge: toRetrieveKnowledge(knowledge),
         enableWebSearch: enableWebSearch || undefined,
-        searchProvider: enableWebSearch ? { provider: "model", maxResult: 5 } : undefined,
+        searchProvider: enableWebSearch ? { provider: searchProvider, maxResult: searchMaxResult } : undefined,
+        webSearch: enableWebSearch && searchProvider !== "model" ? search : undefined,
         enableAskQuestions: enableAskQuestions === "enable",
         enablePlanning: enablePlanning === "enable",
         numAgents, // Can be undefined - LLM will decide
+        maxConcurrentAgents,
+        enableCritique: enableCritique === "enable",
+        verifierModels: parseVerifierModels(verifierModels),
+        verificationQuorum,
         createModelProvider,
         thinkingModel: model,
         modelStages,
+        abortSignal: createAbortSignal(),
         onProgress: handleProgress,
         onAgentUpdate: (agentId: string, update: Partial<AgentResult>) => {
           updateAgentResult(agentId, update);
@@ -264,48 +376,61 @@ function useDeepThinkEngine() {
   async function startInteractiveDeepThink(
     problemStatement: string,
     otherPrompts: string[] = [],
-    knowledgeContext?: string
+    knowledge?: KnowledgeRetriever
   ): Promise<{ questions?: string } | null> {
     try {
       const { model } = getModel();
       const { 
         enableSearch, 
         searchProvider,
+        searchMaxResult,
         enableModelStages,
+        modelStageProviders,
         modelStageInitial,
         modelStageImprovement,
         modelStageVerification,
         modelStageCorrection,
         modelStageSummary,
+        modelStageConsensus,
+        modelStagePlanning,
         enablePlanning,
+        selfConsistencySamples,
+        verifierModels,
+        verificationQuorum,
       } = useSettingStore.getState();
 
-      // 检查模型是否支持网页搜索
-      const enableWebSearch = enableSearch && 
-        searchProvider === "model" && 
-        isNetworkingModel(model);
+      // 模型自带的搜索需要模型支持，外部搜索服务则作为工具提供给模型
+      const enableWebSearch = enableSearch &&
+        (searchProvider !== "model" || isNetworkingModel(model));
 
       // 构建分阶段模型配置
       const modelStages = enableModelStages === "enable" ? {
-        initial: modelStageInitial || undefined,
-        improvement: modelStageImprovement || undefined,
-        verification: modelStageVerification || undefined,
-        correction: modelStageCorrection || undefined,
-        summary: modelStageSummary || undefined,
+        initial: toModelStage(modelStageInitial, modelStageProviders.modelStageInitial),
+        improvement: toModelStage(modelStageImprovement, modelStageProviders.modelStageImprovement),
+        verification: toModelStage(modelStageVerification, modelStageProviders.modelStageVerification),
+        correction: toModelStage(modelStageCorrection, modelStageProviders.modelStageCorrection),
+        summary: toModelStage(modelStageSummary, modelStageProviders.modelStageSummary),
+        consensus: toModelStage(modelStageConsensus, modelStageProviders.modelStageConsensus),
+        planning: toModelStage(modelStagePlanning, modelStageProviders.modelStagePlanning),
       } : undefined;
 
       const options: DeepThinkOptions = {
         problemStatement,
         otherPrompts,
-        knowledgeContext,
+        retrieveKnowledge: toRetrieveKnowledge(knowledge),
         enableWebSearch: enableWebSearch || undefined,
-        searchProvider: enableWebSearch ? { provider: "model", maxResult: 5 } : undefined,
+        searchProvider: enableWebSearch ? { provider: searchProvider, maxResult: searchMaxResult } : undefined,
+        webSearch: enableWebSearch && searchProvider !== "model" ? search : undefined,
         enableAskQuestions: true, // 启用问问题功能
         enableInteractiveMode: true, // 启用交互模式
         enablePlanning: enablePlanning === "enable",
         createModelProvider,
         thinkingModel: model,
         modelStages,
+        selfConsistencySamples,
+        verifierModels: parseVerifierModels(verifierModels),
+        verificationQuorum,
+        abortSignal: createAbortSignal(),
         onProgress: handleProgress,
       };
 
@@ -346,11 +471,13 @@ function useDeepThinkEngine() {
         ...interactiveState.originalOptions,
         userAnswers,
         enableInteractiveMode: false, // 关闭交互模式，直接运行完整流程
+        abortSignal: createAbortSignal(),
         onProgress: handleProgress, // 确保使用正确的进度处理器
       };
 
       // 运行完整的Deep Think流程
       const result = await runDeepThink(optionsWithAnswers);
+      if (!result.cancelled) useCheckpointStore.getState().clear();
 
       // 清理交互状态
       setInteractiveState({
@@ -374,6 +501,7 @@ function useDeepThinkEngine() {
     status,
     runDeepThinkMode,
     runUltraThinkMode,
+    stopThinking,
     // 交互式Deep Think相关
     interactiveState,
     startInteractiveDeepThink,
@@ -1,4 +1,5 @@
 import { streamText, smoothStream } from "ai";
+import { useTranslation } from "react-i18next";
 import { Md5 } from "ts-md5";
 import { toast } from "sonner";
 import useModelProvider from "@/hooks/useAiProvider";
@@ -6,7 +7,11 @@ import { useKnowledgeStore } from "@/store/knowledge";
 import { useTaskStore } from "@/store/task";
 import { useSettingStore } from "@/store/setting";
 import { rewritingPrompt } from "@/constants/prompts";
-import { jinaReader, localCrawler } from "@/utils/crawler";
+import {
+  jinaReader,
+  localCrawler,
+  type CrawlerResult,
+} from "@/utils/crawler";
 import { fileParser } from "@/utils/parser";
 import { getTextByteSize } from "@/utils/file";
 import {
@@ -15,10 +20,14 @@ import {
   ThinkTagStreamProcessor,
 } from "@/utils/text";
 import { parseError } from "@/utils/error";
+import { crawlSite } from "@/utils/site-crawler";
 import { omit } from "radash";
 
 const MAX_CHUNK_LENGTH = 10000;
 
+// 同一时间只运行一个整站爬取任务
+let siteCrawlController: AbortController | null = null;
+
 function smoothTextStream(type: "character" | "word" | "line") {
   return smoothStream({
     chunking: type === "character" ? /./ : type,
@@ -32,6 +41,7 @@ function handleError(error: unknown) {
 }
 
 function useKnowledge() {
+  const { t } = useTranslation();
   const { smoothTextStreamType } = useSettingStore();
   const { createModelProvider, getModel } = useModelProvider();
   const knowledgeStore = useKnowledgeStore();
@@ -215,6 +225,45 @@ function useKnowledge() {
     }
   }
 
+  async function readUrlWithLocalCrawler(
+    url: string,
+    crawler: string
+  ): Promise<CrawlerResult> {
+    const { accessPassword } = useSettingStore.getState();
+    const result = await localCrawler(url, accessPassword);
+    const metadata = [
+      result.author ? `Author: ${result.author}` : "",
+      result.publishedTime ? `Published: ${result.publishedTime}` : "",
+      result.canonicalUrl && result.canonicalUrl !== url
+        ? `Source: ${result.canonicalUrl}`
+        : "",
+    ].filter(Boolean);
+    let content = result.content;
+    // 爬虫已将正文转换为 Markdown，仅在需要时再由模型重写
+    if (crawler === "local-rewrite") {
+      const { model } = getModel();
+      content = "";
+      let error: unknown;
+      const stream = streamText({
+        model: await createModelProvider(model),
+        prompt: result.content,
+        system: rewritingPrompt,
+        experimental_transform: smoothTextStream(smoothTextStreamType),
+        onError: ({ error: err }) => {
+          error = err;
+        },
+      });
+      for await (const textPart of stream.textStream) {
+        content += textPart;
+      }
+      if (error) throw new Error(parseError(error));
+    }
+    if (metadata.length > 0) {
+      content = `> ${metadata.join(" · ")}\n\n${content}`;
+    }
+    return { ...result, content };
+  }
+
   async function getKnowledgeFromUrl(url: string, crawler: string) {
     const knowledgeStore = useKnowledgeStore.getState();
     const { resources, addResource, updateResource } = useTaskStore.getState();
@@ -260,38 +309,20 @@ function useKnowledge() {
             size: getTextByteSize(result.content),
             status: "completed",
           });
-        } else if (crawler === "local") {
-          const { model } = getModel();
-          const { accessPassword } = useSettingStore.getState();
-          const result = await localCrawler(url, accessPassword);
-          let content = "";
-          const stream = streamText({
-            model: await createModelProvider(model),
-            prompt: result.content,
-            system: rewritingPrompt,
-            onFinish: () => {
-              const currentTime = Date.now();
-              knowledgeStore.save({
-                id,
-                title: result.title,
-                content,
-                type: "url",
-                url,
-                createdAt: currentTime,
-                updatedAt: currentTime,
-              });
-            },
-            experimental_transform: smoothTextStream(smoothTextStreamType),
-            onError: (err) => {
-              updateResource(id, { status: "failed" });
-              handleError(err);
-            },
+        } else if (crawler === "local" || crawler === "local-rewrite") {
+          const result = await readUrlWithLocalCrawler(url, crawler);
+          const currentTime = Date.now();
+          knowledgeStore.save({
+            id,
+            title: result.title,
+            content: result.content,
+            type: "url",
+            url,
+            createdAt: currentTime,
+            updatedAt: currentTime,
           });
-          for await (const textPart of stream.textStream) {
-            content += textPart;
-          }
           updateResource(id, {
-            size: getTextByteSize(content),
+            size: getTextByteSize(result.content),
             status: "completed",
           });
         } else {
@@ -308,10 +339,82 @@ function useKnowledge() {
     }
   }
 
+  async function getKnowledgeFromSite(
+    url: string,
+    crawler: string,
+    options: { maxDepth: number; maxPages: number }
+  ) {
+    const knowledgeStore = useKnowledgeStore.getState();
+    if (knowledgeStore.siteCrawl?.status === "running") {
+      return toast.message(t("knowledge.siteCrawlRunning"));
+    }
+    const { accessPassword } = useSettingStore.getState();
+    const controller = new AbortController();
+    siteCrawlController = controller;
+    knowledgeStore.startSiteCrawl(url);
+
+    try {
+      const pages = await crawlSite(url, {
+        ...options,
+        signal: controller.signal,
+        fetchText: async (fileUrl) => {
+          const result = await localCrawler(fileUrl, accessPassword);
+          return result.content;
+        },
+        fetchPage: (pageUrl) => readUrlWithLocalCrawler(pageUrl, crawler),
+        onPage: (page, result) => {
+          const { knowledges, save, update } = useKnowledgeStore.getState();
+          // 重复爬取同一页面时更新已有的知识
+          const existing = knowledges.find((item) => item.url === page.url);
+          if (existing) {
+            update(existing.id, {
+              title: result.title || page.url,
+              content: result.content,
+            });
+          } else {
+            const currentTime = Date.now();
+            save({
+              id: generateId("url", { url: page.url }),
+              title: result.title || page.url,
+              content: result.content,
+              type: "url",
+              url: page.url,
+              createdAt: currentTime,
+              updatedAt: currentTime,
+            });
+          }
+        },
+        onProgress: (page) => {
+          useKnowledgeStore.getState().updateSiteCrawlPage(page);
+        },
+      });
+      knowledgeStore.finishSiteCrawl(
+        controller.signal.aborted ? "cancelled" : "completed"
+      );
+      const failed = pages.filter((page) => page.status === "failed");
+      if (failed.length > 0) {
+        toast.error(t("knowledge.siteCrawlFailed", { count: failed.length }));
+      }
+    } catch (err) {
+      knowledgeStore.finishSiteCrawl(
+        controller.signal.aborted ? "cancelled" : "failed"
+      );
+      handleError(err);
+    } finally {
+      if (siteCrawlController === controller) siteCrawlController = null;
+    }
+  }
+
+  function cancelSiteCrawl() {
+    siteCrawlController?.abort();
+  }
+
   return {
     generateId,
     getKnowledgeFromFile,
     getKnowledgeFromUrl,
+    getKnowledgeFromSite,
+    cancelSiteCrawl,
   };
 }
 
@@ -0,0 +1,68 @@
+import { embedMany } from "ai";
+import useModelProvider from "@/hooks/useAiProvider";
+import { useKnowledgeStore } from "@/store/knowledge";
+import { useSettingStore } from "@/store/setting";
+import {
+  indexKnowledge,
+  removeKnowledgeVectors,
+  searchVectors,
+  type EmbeddingTarget,
+  type VectorSearchOptions,
+} from "@/utils/vector-store";
+
+function useKnowledgeIndex() {
+  const { createEmbeddingProvider } = useModelProvider();
+
+  // 未设置向量模型时不启用语义检索
+  function isEnabled() {
+    const { embeddingModel } = useSettingStore.getState();
+    return embeddingModel !== "";
+  }
+
+  // 未设置向量服务商时使用默认服务商
+  function getEmbeddingTarget(): EmbeddingTarget {
+    const { embeddingModel, embeddingProvider, provider } =
+      useSettingStore.getState();
+    return { provider: embeddingProvider || provider, model: embeddingModel };
+  }
+
+  async function embed(texts: string[]) {
+    const { provider, model } = getEmbeddingTarget();
+    const { embeddings } = await embedMany({
+      model: await createEmbeddingProvider(model, provider),
+      values: texts,
+    });
+    return embeddings;
+  }
+
+  async function semanticSearch(
+    query: string,
+    { knowledgeIds, topK }: VectorSearchOptions = {}
+  ) {
+    const target = getEmbeddingTarget();
+    const { knowledges } = useKnowledgeStore.getState();
+
+    // 搜索前为新增或修改过的知识建立索引
+    const targets = knowledgeIds
+      ? knowledges.filter((item) => knowledgeIds.includes(item.id))
+      : knowledges;
+    for (const knowledge of targets) {
+      await indexKnowledge(knowledge, target, embed);
+    }
+
+    const [queryEmbedding] = await embed([query]);
+    return await searchVectors(queryEmbedding, target, {
+      knowledgeIds: targets.map((item) => item.id),
+      topK,
+    });
+  }
+
+  return {
+    isEnabled,
+    embed,
+    semanticSearch,
+    removeIndex: removeKnowledgeVectors,
+  };
+}
+
+export default useKnowledgeIndex;
@@ -0,0 +1,207 @@
+import type { EventId, EventStore, StreamId } from "./streamableHttp";
+import type { JSONRPCMessage } from "./types";
+
+/**
+ * Event IDs are `${streamId}_${sequence}`, so the stream of an event can be
+ * recovered from its ID and events can be ordered within a stream.
+ */
+function createEventId(streamId: StreamId, sequence: number): EventId {
+  return `${streamId}_${sequence}`;
+}
+
+function parseEventId(eventId: EventId) {
+  const idx = eventId.lastIndexOf("_");
+  if (idx <= 0) return undefined;
+  const sequence = Number(eventId.slice(idx + 1));
+  if (!Number.isInteger(sequence)) return undefined;
+  return { streamId: eventId.slice(0, idx), sequence };
+}
+
+export interface EventStoreOptions {
+  /**
+   * Maximum number of events kept for each stream, older events are dropped first.
+   * Default is 1000.
+   */
+  maxEventsPerStream?: number;
+}
+
+interface StoredEvent {
+  eventId: EventId;
+  message: JSONRPCMessage;
+}
+
+/**
+ * Event store that keeps the events of a session in memory.
+ * Works in every runtime, events are lost when the process restarts.
+ */
+export class InMemoryEventStore implements EventStore {
+  private _streams: Map<StreamId, StoredEvent[]> = new Map();
+  private _sequence: number = 0;
+  private _maxEventsPerStream: number;
+
+  constructor(options: EventStoreOptions = {}) {
+    this._maxEventsPerStream = options.maxEventsPerStream ?? 1000;
+  }
+
+  async storeEvent(
+    streamId: StreamId,
+    message: JSONRPCMessage
+  ): Promise<EventId> {
+    const eventId = createEventId(streamId, ++this._sequence);
+    const events = this._streams.get(streamId) ?? [];
+    events.push({ eventId, message });
+    if (events.length > this._maxEventsPerStream) {
+      events.splice(0, events.length - this._maxEventsPerStream);
+    }
+    this._streams.set(streamId, events);
+    return eventId;
+  }
+
+  async getStreamIdForEventId(eventId: EventId): Promise<StreamId | undefined> {
+    const parsed = parseEventId(eventId);
+    return parsed && this._streams.has(parsed.streamId)
+      ? parsed.streamId
+      : undefined;
+  }
+
+  async replayEventsAfter(
+    lastEventId: EventId,
+    {
+      send,
+    }: {
+      send: (eventId: EventId, message: JSONRPCMessage) => Promise<void>;
+    }
+  ): Promise<StreamId> {
+    const parsed = parseEventId(lastEventId);
+    if (!parsed) return "";
+
+    const events = this._streams.get(parsed.streamId) ?? [];
+    // Copy the list, new events stored while replaying are sent by the transport
+    for (const { eventId, message } of [...events]) {
+      if (parseEventId(eventId)!.sequence > parsed.sequence) {
+        await send(eventId, message);
+      }
+    }
+    return parsed.streamId;
+  }
+
+  async clear(): Promise<void> {
+    this._streams.clear();
+  }
+}
+
+type FileSystem = typeof import("node:fs/promises");
+
+/**
+ * Event store that appends the events of each stream to a JSON Lines file,
+ * keeping memory usage low for long running tool calls.
+ * Requires the Node.js runtime, use `InMemoryEventStore` in the edge runtime.
+ */
+export class FileEventStore implements EventStore {
+  private _dir: string;
+  private _sequence: number = 0;
+  private _fs?: FileSystem;
+  // Serialize writes so that events are appended in order
+  private _queue: Promise<unknown> = Promise.resolve();
+
+  constructor(dir: string) {
+    this._dir = dir.replace(/\/+$/, "");
+  }
+
+  /**
+   * Loads the file system module and creates the storage directory.
+   * Throws an error if the current runtime has no file system access.
+   */
+  async init(): Promise<void> {
+    try {
+      this._fs = (await import(
+        /* webpackIgnore: true */ "node:fs/promises"
+      )) as FileSystem;
+    } catch {
+      throw new Error(
+        "FileEventStore requires the Node.js runtime with file system access"
+      );
+    }
+    await this._fs.mkdir(this._dir, { recursive: true });
+  }
+
+  private get fs(): FileSystem {
+    if (!this._fs) {
+      throw new Error("FileEventStore is not initialized, call init() first");
+    }
+    return this._fs;
+  }
+
+  private getFilePath(streamId: StreamId) {
+    // Stream IDs are generated by the transport, but keep the file name safe anyway
+    return `${this._dir}/${encodeURIComponent(streamId)}.jsonl`;
+  }
+
+  private async readEvents(streamId: StreamId): Promise<StoredEvent[]> {
+    try {
+      const content = await this.fs.readFile(
+        this.getFilePath(streamId),
+        "utf-8"
+      );
+      return content
+        .split("\n")
+        .filter((line) => line !== "")
+        .map((line) => JSON.parse(line) as StoredEvent);
+    } catch {
+      return [];
+    }
+  }
+
+  async storeEvent(
+    streamId: StreamId,
+    message: JSONRPCMessage
+  ): Promise<EventId> {
+    const eventId = createEventId(streamId, ++this._sequence);
+    const line = `${JSON.stringify({ eventId, message })}\n`;
+    const write = this._queue.then(() =>
+      this.fs.appendFile(this.getFilePath(streamId), line, "utf-8")
+    );
+    this._queue = write.catch(() => {});
+    await write;
+    return eventId;
+  }
+
+  async getStreamIdForEventId(eventId: EventId): Promise<StreamId | undefined> {
+    const parsed = parseEventId(eventId);
+    if (!parsed) return undefined;
+    try {
+      await this.fs.access(this.getFilePath(parsed.streamId));
+      return parsed.streamId;
+    } catch {
+      return undefined;
+    }
+  }
+
+  async replayEventsAfter(
+    lastEventId: EventId,
+    {
+      send,
+    }: {
+      send: (eventId: EventId, message: JSONRPCMessage) => Promise<void>;
+    }
+  ): Promise<StreamId> {
+    const parsed = parseEventId(lastEventId);
+    if (!parsed) return "";
+
+    // Wait for pending writes so that every stored event is replayed
+    await this._queue;
+    for (const { eventId, message } of await this.readEvents(
+      parsed.streamId
+    )) {
+      if (parseEventId(eventId)!.sequence > parsed.sequence) {
+        await send(eventId, message);
+      }
+    }
+    return parsed.streamId;
+  }
+
+  async clear(): Promise<void> {
+    await this._queue;
+    await this.fs.rm(this._dir, { recursive: true, force: true });
+  }
+}
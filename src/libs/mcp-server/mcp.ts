@@ -619,7 +619,12 @@ export class McpServer {
       return EMPTY_COMPLETION_RESULT;
     }
 
-    const field = prompt.argsSchema.shape[request.params.argument.name];
+    let field: ZodTypeAny =
+      prompt.argsSchema.shape[request.params.argument.name];
+    // Optional arguments wrap the completable schema
+    if (field instanceof ZodOptional) {
+      field = field.unwrap();
+    }
     if (!(field instanceof Completable)) {
       return EMPTY_COMPLETION_RESULT;
     }
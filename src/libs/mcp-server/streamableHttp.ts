@@ -26,6 +26,12 @@ export interface EventStore {
    */
   storeEvent(streamId: StreamId, message: JSONRPCMessage): Promise<EventId>;
 
+  /**
+   * Finds the stream an event belongs to, so that a reconnecting client resumes the stream it lost
+   * instead of the standalone GET stream.
+   */
+  getStreamIdForEventId?(eventId: EventId): Promise<StreamId | undefined>;
+
   replayEventsAfter(
     lastEventId: EventId,
     {
@@ -187,6 +193,11 @@ export class StreamableHTTPServerTransport implements Transport {
   private _enableJsonResponse: boolean = false;
   private _standaloneSseStreamId: string = "_GET_stream"; // Fixed ID for GET SSE stream
   private _eventStore?: EventStore;
+  // Messages sent to a stream while its missed events are being replayed, written after the replay to keep the order
+  private _replayingStreams: Map<
+    string,
+    { eventId?: string; message: JSONRPCMessage }[]
+  > = new Map();
   private _onsessioninitialized?: (sessionId: string) => void;
   private _cors: boolean;
 
@@ -208,6 +219,15 @@ export class StreamableHTTPServerTransport implements Transport {
     return this._cors ? { "Access-Control-Allow-Origin": "*" } : undefined;
   }
 
+  /**
+   * Number of requests that are still waiting for a response, used to keep sessions with running tool calls alive.
+   */
+  get pendingRequestCount(): number {
+    return (
+      this._requestToStreamMapping.size + this._pendingJsonResponses.size
+    );
+  }
+
   /**
    * Starts the transport. This is required by the Transport interface but is a no-op
    * for the Streamable HTTP transport as connections are managed per-request.
@@ -226,9 +246,12 @@ export class StreamableHTTPServerTransport implements Transport {
    * Returns a Response to be sent back to the client.
    */
   async handleRequest(req: Request): Promise<Response> {
-    req.signal.addEventListener("abort", () => {
-      this.close();
-    });
+    // In stateful mode the session outlives a single request, a client that lost its connection can reconnect and resume
+    if (this.sessionIdGenerator === undefined) {
+      req.signal.addEventListener("abort", () => {
+        this.close();
+      });
+    }
 
     try {
       // Note: req.auth requires middleware or wrapper to add it to the request object.
@@ -284,16 +307,30 @@ export class StreamableHTTPServerTransport implements Transport {
       ...this.corsHeader,
     };
 
+    const responseHeaders: Record<string, string> = {
+      "Content-Type": "text/event-stream; charset=utf-8",
+      "Cache-Control": "no-cache, no-transform",
+      Connection: "keep-alive",
+      "X-Accel-Buffering": "no",
+      ...this.corsHeader,
+    };
+    // After initialization, always include the session ID if we have one
+    if (this.sessionId !== undefined) {
+      responseHeaders["mcp-session-id"] = this.sessionId;
+    }
+
     // Handle resumability: check for Last-Event-ID header
     const lastEventId = req.headers.get("last-event-id") as string | undefined;
     if (lastEventId && this._eventStore) {
-      // If replaying, create a new stream specifically for the replay+live stream
-      // The spec mentions replayEventsAfter returns a StreamId. Let's assume the replay
-      // process can use a temporary stream ID or the standalone ID depending on implementation details.
-      // For simplicity here, let's use the standalone ID and ensure the stream logic handles replay.
-      // The spec implies the client reconnects to the *same* stream conceptually.
-      // Let's check if an active stream already exists before replaying.
-      if (this._streamMapping.has(this._standaloneSseStreamId)) {
+      // The client reconnects to the stream the last event belongs to, which may be the stream of a POST request
+      // whose connection was lost. Events without a known stream are resumed on the standalone GET stream.
+      const streamId =
+        (await this._eventStore.getStreamIdForEventId?.(lastEventId)) ||
+        this._standaloneSseStreamId;
+      if (
+        streamId === this._standaloneSseStreamId &&
+        this._streamMapping.has(this._standaloneSseStreamId)
+      ) {
         // Only one GET SSE stream allowed per session
         return new Response(
           JSON.stringify({
@@ -312,10 +349,8 @@ export class StreamableHTTPServerTransport implements Transport {
       }
 
       // Create stream, replay will happen in the stream's start method
-      const stream = this.createSSEStream(this._standaloneSseStreamId, {
-        lastEventId,
-      });
-      return new Response(stream, { status: 200, headers });
+      const stream = this.createSSEStream(streamId, { lastEventId });
+      return new Response(stream, { status: 200, headers: responseHeaders });
     }
 
     // Check if there's already an active standalone SSE stream for this session
@@ -340,18 +375,6 @@ export class StreamableHTTPServerTransport implements Transport {
     // Create and return the new standalone SSE stream
     const stream = this.createSSEStream(this._standaloneSseStreamId);
 
-    const responseHeaders: Record<string, string> = {
-      "Content-Type": "text/event-stream; charset=utf-8",
-      "Cache-Control": "no-cache, no-transform",
-      Connection: "keep-alive",
-      "X-Accel-Buffering": "no",
-      ...this.corsHeader,
-    };
-    // After initialization, always include the session ID if we have one
-    if (this.sessionId !== undefined) {
-      responseHeaders["mcp-session-id"] = this.sessionId;
-    }
-
     // Note: Headers are sent when the stream starts pushing data
     return new Response(stream, {
       status: 200,
@@ -384,6 +407,9 @@ export class StreamableHTTPServerTransport implements Transport {
 
         // If replaying is needed, do it now
         if (options?.lastEventId && this._eventStore) {
+          // Hold back live messages for this stream until the missed events are replayed
+          this._replayingStreams.set(streamId, []);
+          const replayedEventIds = new Set<string>();
           try {
             this.onerror?.(
               new Error(
@@ -400,6 +426,7 @@ export class StreamableHTTPServerTransport implements Transport {
                   // Stop replaying if stream is gone
                   return; // Decide if this should throw or just stop
                 }
+                replayedEventIds.add(eventId);
                 if (!this.writeSSEEvent(controller, message, eventId)) {
                   // Failed to enqueue replayed event - potentially the stream is full or closing
                   this.onerror?.(
@@ -426,6 +453,29 @@ export class StreamableHTTPServerTransport implements Transport {
               this.onerror?.(e as Error);
             } // Ensure error doesn't throw again
           }
+
+          // Write the messages sent during the replay, skipping those the replay already included
+          const pendingMessages = this._replayingStreams.get(streamId) ?? [];
+          this._replayingStreams.delete(streamId);
+          for (const { eventId, message } of pendingMessages) {
+            if (eventId && replayedEventIds.has(eventId)) continue;
+            this.writeSSEEvent(controller, message, eventId);
+          }
+
+          // All requests of a POST stream may have been answered while the client was disconnected
+          if (
+            streamId !== this._standaloneSseStreamId &&
+            !Array.from(this._requestToStreamMapping.values()).includes(
+              streamId
+            )
+          ) {
+            this._streamMapping.delete(streamId);
+            try {
+              controller.close();
+            } catch (e) {
+              this.onerror?.(e as Error);
+            }
+          }
         }
         // Optional: Send a comment or initial event to ensure connection is live
         // controller.enqueue(': stream active\n\n');
@@ -440,6 +490,9 @@ export class StreamableHTTPServerTransport implements Transport {
         ); // Debug
         // Cleanup mappings when the client disconnects or the stream is closed from our side
         this._streamMapping.delete(streamId);
+        // With an event store, keep the request mappings so that messages of running requests
+        // are still stored and can be replayed when the client reconnects with Last-Event-ID
+        if (this._eventStore) return;
         // Also clean up any request mappings pointing to this stream
         for (const [
           reqId,
@@ -485,8 +538,9 @@ export class StreamableHTTPServerTransport implements Transport {
     // Check if the stream is ready to accept data
     // desiredSize can be positive, zero, or negative (indicating buffering)
     // null means the stream is closed
-    if (controller.desiredSize === null || controller.desiredSize <= 0) {
-      // Stream is closed or buffer is full/negative, indicating backpressure or closure.
+    // Events are queued even when the consumer is slower (e.g. replaying many events at once), dropping them would lose messages
+    if (controller.desiredSize === null) {
+      // Stream is closed
       this.onerror?.(
         new Error(
           `Stream controller buffer full or closed for enqueueing event ${
@@ -1107,7 +1161,8 @@ export class StreamableHTTPServerTransport implements Transport {
     // Get the stream controller using the determined stream ID
     const controller = this._streamMapping.get(streamId);
 
-    if (!controller) {
+    // Without a controller the client is disconnected, with an event store the message is still stored for replay
+    if (!controller && !this._eventStore) {
       // This is a potential state inconsistency if _requestToStreamMapping has the ID
       // but _streamMapping doesn't have the controller. The cancel handler should prevent this.
       this.onerror?.(
@@ -1138,7 +1193,29 @@ export class StreamableHTTPServerTransport implements Transport {
       }
     }
 
-    // Send the message as an SSE event via the stream controller
+    const pendingMessages = this._replayingStreams.get(streamId);
+    if (pendingMessages) {
+      // Missed events are being replayed to this stream, write the message after them
+      pendingMessages.push({ eventId, message });
+    } else if (controller) {
+      this.writeLiveEvent(controller, streamId, message, eventId);
+    }
+
+    // In SSE mode, if this message is a response or error, check if all related responses for this stream are ready.
+    if (isJSONRPCResponse(message) || isJSONRPCError(message)) {
+      this.completeResponse(streamId, requestId, message);
+    }
+  }
+
+  /**
+   * Sends the message as an SSE event via the stream controller.
+   */
+  private writeLiveEvent(
+    controller: ReadableStreamController<Uint8Array>,
+    streamId: string,
+    message: JSONRPCMessage,
+    eventId?: string
+  ) {
     const success = this.writeSSEEvent(controller, message, eventId);
     if (!success) {
       // Failed to enqueue. The stream might be closed, errored, or buffer is full.
@@ -1152,31 +1229,41 @@ export class StreamableHTTPServerTransport implements Transport {
       // We could proactively call controller.error here, but it might double-error.
       // Relying on the enqueue failure + subsequent cancel handler seems safer.
     }
+  }
 
-    // In SSE mode, if this message is a response or error, check if all related responses for this stream are ready.
-    if (isJSONRPCResponse(message) || isJSONRPCError(message)) {
-      // Store the completed response for the "all ready" check
-      if (requestId !== undefined && requestId !== null) {
-        this._requestResponseMap.set(requestId, message);
-
-        // Find all request IDs that were mapped to this specific stream (batch)
-        const relatedIds = Array.from(this._requestToStreamMapping.entries())
-          .filter(([, mappedStreamId]) => mappedStreamId === streamId) // Find all request IDs mapped to this stream
-          .map(([id]) => id);
-
-        // Check if we have received responses for all requests that initiated this stream
-        const allResponsesReady = relatedIds.every((id) =>
-          this._requestResponseMap.has(id)
-        );
+  /**
+   * Stores a response of a stream and closes the stream once all requests of its batch are answered.
+   */
+  private completeResponse(
+    streamId: string,
+    requestId: RequestId | undefined,
+    message: JSONRPCMessage
+  ) {
+    // Store the completed response for the "all ready" check
+    if (requestId !== undefined && requestId !== null) {
+      this._requestResponseMap.set(requestId, message);
+
+      // Find all request IDs that were mapped to this specific stream (batch)
+      const relatedIds = Array.from(this._requestToStreamMapping.entries())
+        .filter(([, mappedStreamId]) => mappedStreamId === streamId) // Find all request IDs mapped to this stream
+        .map(([id]) => id);
+
+      // Check if we have received responses for all requests that initiated this stream
+      const allResponsesReady = relatedIds.every((id) =>
+        this._requestResponseMap.has(id)
+      );
 
-        if (allResponsesReady) {
-          this.onerror?.(
-            new Error(
-              `All responses ready for stream [${streamId}]. Closing stream.`
-            )
-          ); // Debug log
+      if (allResponsesReady) {
+        this.onerror?.(
+          new Error(
+            `All responses ready for stream [${streamId}]. Closing stream.`
+          )
+        ); // Debug log
 
-          // All responses for this batch/stream are ready, close the SSE stream
+        // All responses for this batch/stream are ready, close the SSE stream
+        // A disconnected client gets the responses on replay, and a replaying stream is closed once the replay finishes.
+        const controller = this._streamMapping.get(streamId);
+        if (controller && !this._replayingStreams.has(streamId)) {
           try {
             controller.close(); // Signals end of stream to the client
           } catch (error) {
@@ -1186,25 +1273,25 @@ export class StreamableHTTPServerTransport implements Transport {
               )
             );
           }
+        }
 
-          // Clean up mappings for this stream and the requests associated with it
-          for (const id of relatedIds) {
-            this._requestResponseMap.delete(id);
-            // Important: Delete from _requestToStreamMapping as well
-            // The cancel handler also does this, but doing it here ensures cleanup
-            // is tied to the completion logic regardless of client disconnect timing.
-            this._requestToStreamMapping.delete(id);
-          }
-          // The streamId should be removed from _streamMapping by the stream's cancel handler
-          // when controller.close() finishes.
+        // Clean up mappings for this stream and the requests associated with it
+        for (const id of relatedIds) {
+          this._requestResponseMap.delete(id);
+          // Important: Delete from _requestToStreamMapping as well
+          // The cancel handler also does this, but doing it here ensures cleanup
+          // is tied to the completion logic regardless of client disconnect timing.
+          this._requestToStreamMapping.delete(id);
         }
-      } else {
-        // Received response/error with id: null in SSE mode send.
-        // This is likely a server error response related to the batch itself.
-        // If the stream is still open, it's okay to send this as a regular SSE message event.
-        // The client should interpret JSON-RPC error messages correctly.
-        // No special handling needed here beyond sending the message.
+        // The streamId should be removed from _streamMapping by the stream's cancel handler
+        // when controller.close() finishes.
       }
+    } else {
+      // Received response/error with id: null in SSE mode send.
+      // This is likely a server error response related to the batch itself.
+      // If the stream is still open, it's okay to send this as a regular SSE message event.
+      // The client should interpret JSON-RPC error messages correctly.
+      // No special handling needed here beyond sending the message.
     }
   }
 }
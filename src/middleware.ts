@@ -783,6 +783,63 @@ export async function middleware(request: NextRequest) {
       });
     }
   }
+  if (request.nextUrl.pathname.startsWith("/api/jobs")) {
+    let authorization = request.headers.get("authorization") || "";
+    if (authorization !== "") {
+      authorization = authorization.substring(7);
+    } else if (request.method.toUpperCase() === "GET") {
+      authorization = request.nextUrl.searchParams.get("password") || "";
+    }
+    if (authorization !== accessPassword) {
+      return NextResponse.json(
+        { error: ERRORS.NO_PERMISSIONS },
+        { status: 403 }
+      );
+    } else {
+      const requestHeaders = new Headers();
+      requestHeaders.set(
+        "Content-Type",
+        request.headers.get("Content-Type") || "application/json"
+      );
+      // Resume the event stream of a job after reconnecting
+      const lastEventId = request.headers.get("Last-Event-ID");
+      if (lastEventId) requestHeaders.set("Last-Event-ID", lastEventId);
+      requestHeaders.delete("Authorization");
+      return NextResponse.next({
+        request: {
+          headers: requestHeaders,
+        },
+      });
+    }
+  }
+  if (request.nextUrl.pathname.startsWith("/api/v1")) {
+    // OpenAI clients send the access password as the API key
+    const authorization = request.headers.get("authorization") || "";
+    if (authorization.substring(7) !== accessPassword) {
+      return NextResponse.json(
+        {
+          error: {
+            message: ERRORS.NO_PERMISSIONS.message,
+            type: "invalid_request_error",
+            code: "invalid_api_key",
+          },
+        },
+        { status: 401 }
+      );
+    } else {
+      const requestHeaders = new Headers();
+      requestHeaders.set(
+        "Content-Type",
+        request.headers.get("Content-Type") || "application/json"
+      );
+      requestHeaders.delete("Authorization");
+      return NextResponse.next({
+        request: {
+          headers: requestHeaders,
+        },
+      });
+    }
+  }
   if (request.nextUrl.pathname.startsWith("/api/mcp")) {
     const authorization = request.headers.get("authorization") || "";
     if (authorization.substring(7) !== accessPassword) {
@@ -802,6 +859,11 @@ export async function middleware(request: NextRequest) {
         "Content-Type",
         request.headers.get("Content-Type") || "application/json"
       );
+      // Headers required by stateful sessions and resumable streams
+      for (const name of ["Accept", "Mcp-Session-Id", "Last-Event-ID"]) {
+        const value = request.headers.get(name);
+        if (value) requestHeaders.set(name, value);
+      }
       requestHeaders.delete("Authorization");
       return NextResponse.next({
         request: {
@@ -0,0 +1,52 @@
+import { create } from "zustand";
+import { persist, type StorageValue } from "zustand/middleware";
+import { researchStore } from "@/utils/storage";
+import { clone, pick } from "radash";
+
+export interface CheckpointStore {
+  checkpoint: DeepThinkCheckpoint | null;
+}
+
+interface CheckpointActions {
+  save: (checkpoint: DeepThinkCheckpoint) => void;
+  load: (problemStatement: string) => DeepThinkCheckpoint | null;
+  clear: () => void;
+}
+
+export const useCheckpointStore = create(
+  persist<CheckpointStore & CheckpointActions>(
+    (set, get) => ({
+      checkpoint: null,
+      save: (checkpoint) => set(() => ({ checkpoint: clone(checkpoint) })),
+      load: (problemStatement) => {
+        const { checkpoint } = get();
+        if (checkpoint && checkpoint.problemStatement === problemStatement) {
+          return clone(checkpoint);
+        }
+        return null;
+      },
+      clear: () => set(() => ({ checkpoint: null })),
+    }),
+    {
+      name: "checkpointStore",
+      version: 1,
+      storage: {
+        getItem: async (key: string) => {
+          return await researchStore.getItem<
+            StorageValue<CheckpointStore & CheckpointActions>
+          >(key);
+        },
+        setItem: async (
+          key: string,
+          store: StorageValue<CheckpointStore & CheckpointActions>
+        ) => {
+          return await researchStore.setItem(key, {
+            state: pick(store.state, ["checkpoint"]),
+            version: store.version,
+          });
+        },
+        removeItem: async (key: string) => await researchStore.removeItem(key),
+      },
+    }
+  )
+);
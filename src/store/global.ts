@@ -11,6 +11,11 @@ interface GlobalStore {
   currentIteration: number;
   currentPhase: string;
   currentSolution: string;
+  // 当前阶段正在流式输出的内容
+  streamingPhase: string;
+  streamingIteration: number;
+  streamingText: string;
+  streamingReasoning: string;
   agentResults: AgentResult[];
 }
 
@@ -25,6 +30,13 @@ interface GlobalActions {
   setCurrentIteration: (iteration: number) => void;
   setCurrentPhase: (phase: string) => void;
   setCurrentSolution: (solution: string) => void;
+  appendStreamingText: (phase: string, iteration: number, delta: string) => void;
+  appendStreamingReasoning: (
+    phase: string,
+    iteration: number,
+    delta: string
+  ) => void;
+  resetStreaming: () => void;
   setAgentResults: (agents: AgentResult[]) => void;
   updateAgentResult: (agentId: string, update: Partial<AgentResult>) => void;
   resetThinkResults: () => void;
@@ -41,6 +53,10 @@ export const useGlobalStore = create<GlobalStore & GlobalActions>((set) => ({
   currentIteration: 0,
   currentPhase: "",
   currentSolution: "",
+  streamingPhase: "",
+  streamingIteration: 0,
+  streamingText: "",
+  streamingReasoning: "",
   agentResults: [],
   setOpenSetting: (visible) => set({ openSetting: visible }),
   setOpenHistory: (visible) => set({ openHistory: visible }),
@@ -52,6 +68,36 @@ export const useGlobalStore = create<GlobalStore & GlobalActions>((set) => ({
   setCurrentIteration: (iteration) => set({ currentIteration: iteration }),
   setCurrentPhase: (phase) => set({ currentPhase: phase }),
   setCurrentSolution: (solution) => set({ currentSolution: solution }),
+  // 阶段或轮次变化时重新开始累积
+  appendStreamingText: (phase, iteration, delta) =>
+    set((state) =>
+      state.streamingPhase === phase && state.streamingIteration === iteration
+        ? { streamingText: state.streamingText + delta }
+        : {
+            streamingPhase: phase,
+            streamingIteration: iteration,
+            streamingText: delta,
+            streamingReasoning: "",
+          }
+    ),
+  appendStreamingReasoning: (phase, iteration, delta) =>
+    set((state) =>
+      state.streamingPhase === phase && state.streamingIteration === iteration
+        ? { streamingReasoning: state.streamingReasoning + delta }
+        : {
+            streamingPhase: phase,
+            streamingIteration: iteration,
+            streamingText: "",
+            streamingReasoning: delta,
+          }
+    ),
+  resetStreaming: () =>
+    set({
+      streamingPhase: "",
+      streamingIteration: 0,
+      streamingText: "",
+      streamingReasoning: "",
+    }),
   setAgentResults: (agents) => set({ agentResults: agents }),
   updateAgentResult: (agentId, update) =>
     set((state) => {
@@ -85,6 +131,10 @@ export const useGlobalStore = create<GlobalStore & GlobalActions>((set) => ({
       currentIteration: 0,
       currentPhase: "",
       currentSolution: "",
+      streamingPhase: "",
+      streamingIteration: 0,
+      streamingText: "",
+      streamingReasoning: "",
       agentResults: [],
     }),
 }));
@@ -1,10 +1,19 @@
 import { create } from "zustand";
 import { persist, type StorageValue } from "zustand/middleware";
 import { researchStore } from "@/utils/storage";
+import type { SitePage } from "@/utils/site-crawler";
 import { clone, pick } from "radash";
 
+// 整站爬取任务的进度，不做持久化
+export interface SiteCrawl {
+  url: string;
+  status: "running" | "completed" | "cancelled" | "failed";
+  pages: SitePage[];
+}
+
 export interface KnowledgeStore {
   knowledges: Knowledge[];
+  siteCrawl: SiteCrawl | null;
 }
 
 type KnowledgeActions = {
@@ -13,12 +22,17 @@ type KnowledgeActions = {
   get: (id: string) => Knowledge | null;
   update: (id: string, knowledge: Partial<Knowledge>) => boolean;
   remove: (id: string) => boolean;
+  startSiteCrawl: (url: string) => void;
+  updateSiteCrawlPage: (page: SitePage) => void;
+  finishSiteCrawl: (status: SiteCrawl["status"]) => void;
+  clearSiteCrawl: () => void;
 };
 
 export const useKnowledgeStore = create(
   persist<KnowledgeStore & KnowledgeActions>(
     (set, get) => ({
       knowledges: [],
+      siteCrawl: null,
       save: (knowledge) => {
         set((state) => ({ knowledges: [knowledge, ...state.knowledges] }));
       },
@@ -52,6 +66,31 @@ export const useKnowledgeStore = create(
         }));
         return true;
       },
+      startSiteCrawl: (url) => {
+        set(() => ({ siteCrawl: { url, status: "running", pages: [] } }));
+      },
+      updateSiteCrawlPage: (page) => {
+        const { siteCrawl } = get();
+        if (!siteCrawl) return;
+        const exists = siteCrawl.pages.some((item) => item.url === page.url);
+        set(() => ({
+          siteCrawl: {
+            ...siteCrawl,
+            pages: exists
+              ? siteCrawl.pages.map((item) =>
+                  item.url === page.url ? page : item
+                )
+              : [...siteCrawl.pages, page],
+          },
+        }));
+      },
+      finishSiteCrawl: (status) => {
+        const { siteCrawl } = get();
+        if (siteCrawl) set(() => ({ siteCrawl: { ...siteCrawl, status } }));
+      },
+      clearSiteCrawl: () => {
+        set(() => ({ siteCrawl: null }));
+      },
     }),
     {
       name: "knowledgeStore",
@@ -71,6 +71,8 @@ export interface SettingStore {
   parallelSearch: number;
   searchMaxResult: number;
   crawler: string;
+  crawlerMaxDepth: number;
+  crawlerMaxPages: number;
   language: string;
   theme: string;
   debug: "enable" | "disable";
@@ -79,6 +81,9 @@ export interface SettingStore {
   smoothTextStreamType: "character" | "word" | "line";
   onlyUseLocalResource: "enable" | "disable";
   useFileFormatResource: "enable" | "disable";
+  // 知识库语义搜索的向量模型，为空时不启用；服务商为空时使用默认服务商
+  embeddingProvider: string;
+  embeddingModel: string;
   // DeepThink / UltraThink 分阶段模型配置
   enableModelStages: "enable" | "disable";
   modelStageInitial: string;
@@ -86,13 +91,30 @@ export interface SettingStore {
   modelStageVerification: string;
   modelStageCorrection: string;
   modelStageSummary: string;
+  modelStageConsensus: string;
   modelStagePlanning: string;
   modelStageAgentConfig: string;
   modelStageAgentThinking: string;
   modelStageSynthesis: string;
+  modelStageCritique: string;
+  // 各阶段指定的服务商，键为阶段字段名（如 modelStageInitial），未指定时使用默认服务商
+  modelStageProviders: Record<string, string>;
   // DeepThink 询问和计划阶段
   enableAskQuestions: "enable" | "disable";
   enablePlanning: "enable" | "disable";
+  // DeepThink 每次从知识库检索的片段数量
+  knowledgeTopK: number;
+  // DeepThink 自洽模式采样数，1 表示不启用
+  selfConsistencySamples: number;
+  // DeepThink 验证模型组，多个模型用英文逗号分隔
+  verifierModels: string;
+  verificationQuorum: VerificationQuorum;
+  // UltraThink 同时运行的 agent 数量上限
+  maxConcurrentAgents: number;
+  // UltraThink 交叉评审阶段
+  enableCritique: "enable" | "disable";
+  // DeepThink 费用估算价格表，每行 `模型=输入价格,输出价格`（美元/百万 token）
+  modelPrices: string;
 }
 
 interface SettingActions {
@@ -170,6 +192,8 @@ export const defaultValues: SettingStore = {
   parallelSearch: 1,
   searchMaxResult: 5,
   crawler: "jina",
+  crawlerMaxDepth: 2,
+  crawlerMaxPages: 50,
   language: "",
   theme: "system",
   debug: "disable",
@@ -178,6 +202,8 @@ export const defaultValues: SettingStore = {
   smoothTextStreamType: "word",
   onlyUseLocalResource: "disable",
   useFileFormatResource: "disable",
+  embeddingProvider: "",
+  embeddingModel: "",
   // DeepThink / UltraThink 分阶段模型配置
   enableModelStages: "disable",
   modelStageInitial: "",
@@ -185,12 +211,22 @@ export const defaultValues: SettingStore = {
   modelStageVerification: "",
   modelStageCorrection: "",
   modelStageSummary: "",
+  modelStageConsensus: "",
   modelStagePlanning: "",
   modelStageAgentConfig: "",
   modelStageAgentThinking: "",
   modelStageSynthesis: "",
+  modelStageCritique: "",
+  modelStageProviders: {},
   enableAskQuestions: "disable",
   enablePlanning: "disable",
+  knowledgeTopK: 8,
+  selfConsistencySamples: 1,
+  verifierModels: "",
+  verificationQuorum: "majority",
+  maxConcurrentAgents: 3,
+  enableCritique: "disable",
+  modelPrices: "",
 };
 
 export const useSettingStore = create(
@@ -24,6 +24,14 @@ interface Knowledge {
   updatedAt: number;
 }
 
+// 知识库切分后的片段，id 形如 K2.3，用于在回答中引用
+interface KnowledgeChunk {
+  id: string;
+  knowledgeId: string;
+  title: string;
+  content: string;
+}
+
 interface ImageSource {
   url: string;
   description?: string;
@@ -63,11 +71,32 @@ interface WebSearchResult {
 // Deep Think Mode Types
 type ThinkMode = "deep-think" | "ultra-think";
 
+// 验证器发现的问题："critical" 为关键错误，"justification-gap" 为论证不充分
+interface VerificationIssue {
+  location: string;
+  severity: "critical" | "justification-gap";
+  description: string;
+}
+
+type VerificationQuorum = "all" | "majority" | "any";
+
+// 验证模型组中单个模型的结论
+interface VerifierVerdict {
+  provider?: string; // 未指定时为默认服务商
+  model: string;
+  passed: boolean;
+  summary: string;
+  issues: VerificationIssue[];
+  error?: string; // 调用失败时不参与计票
+}
+
 interface Verification {
   timestamp: number;
   passed: boolean;
   bugReport: string;
-  goodVerify: string;
+  goodVerify: string; // 验证器的结论摘要
+  issues?: VerificationIssue[];
+  verdicts?: VerifierVerdict[]; // 使用验证模型组时每个模型的结论
 }
 
 interface DeepThinkIteration {
@@ -77,6 +106,65 @@ interface DeepThinkIteration {
   status: "thinking" | "verifying" | "correcting" | "completed" | "failed";
 }
 
+interface TokenUsage {
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+}
+
+// 思考过程的 token 用量统计
+interface ThinkUsage {
+  total: TokenUsage;
+  byStage: Record<string, TokenUsage>; // 键为 ModelStageConfig 中的阶段名
+  byModel: Record<string, TokenUsage>;
+  byIteration: Record<string, TokenUsage>; // DeepThink 每轮迭代
+  byAgent: Record<string, TokenUsage>; // UltraThink 每个 agent
+}
+
+// 自洽模式中由等价答案组成的簇
+interface AnswerCluster {
+  answer: string;
+  members: number[]; // 样本序号
+  ratio: number; // 占全部样本的比例
+}
+
+// 自洽模式：多次独立采样后按最终答案投票的结果
+interface SelfConsistencyReport {
+  samples: number;
+  answers: string[]; // 每个样本提取出的最终答案
+  clusters: AnswerCluster[]; // 按样本数从多到少排列
+  majorityAnswer: string;
+  agreement: number; // 多数答案所占比例
+}
+
+// DeepThink 断点：每次验证/修正后生成，可序列化并用于恢复运行
+interface DeepThinkCheckpoint {
+  problemStatement: string;
+  questions?: string;
+  plan?: string;
+  initialThought: string;
+  solution: string;
+  // 下一步要执行的操作："verify" 验证当前方案，"review" 处理已有的验证结果
+  stage: "verify" | "review";
+  verification: {
+    passed: boolean;
+    bugReport: string;
+    goodVerify: string;
+    issues: VerificationIssue[];
+    verdicts?: VerifierVerdict[];
+  };
+  iteration: number;
+  errorCount: number;
+  correctCount: number;
+  iterations: DeepThinkIteration[];
+  verifications: Verification[];
+  sources: Source[];
+  usage?: ThinkUsage;
+  selfConsistency?: SelfConsistencyReport;
+  knowledgeChunks?: KnowledgeChunk[];
+  updatedAt: number;
+}
+
 interface DeepThinkResult {
   mode: "deep-think";
   questions?: string; // 询问阶段生成的问题
@@ -92,17 +180,37 @@ interface DeepThinkResult {
   successfulVerifications: number;
   sources?: Source[]; // 引用来源追踪
   knowledgeEnhanced?: boolean; // 是否使用了知识增强
+  cancelled?: boolean; // 是否被用户取消（此时为部分结果）
+  usage?: ThinkUsage; // token 用量统计
+  selfConsistency?: SelfConsistencyReport; // 自洽模式的投票结果
+  knowledgeChunks?: KnowledgeChunk[]; // 检索到的知识库片段，回答中以 [K1.2] 形式引用
+}
+
+// UltraThink 交叉评审中其他 agent 给出的评审意见
+interface AgentCritique {
+  fromAgentId: string;
+  approach: string; // 评审者的思考角度
+  critique: string;
 }
 
 interface AgentResult {
   agentId: string;
   approach: string;
   specificPrompt: string;
-  status: "pending" | "thinking" | "verifying" | "completed" | "failed";
+  status:
+    | "pending"
+    | "thinking"
+    | "verifying"
+    | "revising"
+    | "completed"
+    | "failed";
   progress: number;
   solution?: string;
   verifications?: Verification[];
+  critiques?: AgentCritique[];
+  originalSolution?: string; // 根据评审修订前的方案
   error?: string;
+  usage?: TokenUsage;
 }
 
 interface UltraThinkResult {
@@ -118,6 +226,9 @@ interface UltraThinkResult {
   completedAgents: number;
   sources?: Source[]; // 引用来源追踪
   knowledgeEnhanced?: boolean; // 是否使用了知识增强
+  cancelled?: boolean; // 是否被用户取消（此时为部分结果）
+  usage?: ThinkUsage; // token 用量统计
+  knowledgeChunks?: KnowledgeChunk[]; // 检索到的知识库片段，回答中以 [K1.2] 形式引用
 }
 
 type ThinkResult = DeepThinkResult | UltraThinkResult;
\ No newline at end of file
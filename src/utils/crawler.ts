@@ -1,10 +1,18 @@
 import { generateSignature } from "@/utils/signature";
+import { extractReadableContent } from "@/utils/html";
 import { omit } from "radash";
 
-interface CrawlerResult {
+export interface CrawlerResult {
   url: string;
   title: string;
   content: string;
+  author?: string;
+  publishedTime?: string;
+  canonicalUrl?: string;
+  description?: string;
+  siteName?: string;
+  language?: string;
+  links?: string[];
 }
 
 interface ReaderResult extends CrawlerResult {
@@ -45,6 +53,27 @@ export async function localCrawler(url: string, password: string) {
     },
     body: JSON.stringify({ url }),
   });
+  if (!response.ok) {
+    const { message } = await response.json().catch(() => ({}));
+    throw new Error(message || `Failed to fetch ${url}`);
+  }
   const result: CrawlerResult = await response.json();
   return result;
 }
+
+/**
+ * 抓取网页并提取正文，以 Markdown 格式返回，供服务端使用
+ */
+export async function crawlPage(url: string): Promise<CrawlerResult> {
+  const response = await fetch(url, { next: { revalidate: 60 } });
+  if (!response.ok) {
+    throw new Error(`Failed to fetch ${url}: ${response.status}`);
+  }
+  const content = await response.text();
+  const contentType = response.headers.get("Content-Type") || "";
+  // 纯文本、Markdown、JSON 等非 HTML 内容直接返回
+  if (contentType && !contentType.includes("html")) {
+    return { url, title: "", content };
+  }
+  return { url, ...extractReadableContent(content, url) };
+}
@@ -2,12 +2,18 @@ import { streamText, generateText, type UserContent } from "ai";
 import { type GoogleGenerativeAIProviderMetadata } from "@ai-sdk/google";
 import { createAIProvider } from "./provider";
 import { createSearchProvider } from "./search";
+import {
+  SourceDeduplicator,
+  fetchSourceContent,
+  truncateToTokens,
+} from "./source";
 import {
   getSystemPrompt,
   writeReportPlanPrompt,
   generateSerpQueriesPrompt,
   processResultPrompt,
   processSearchResultPrompt,
+  reviewSerpQueriesPrompt,
   writeFinalReportPrompt,
   getSERPQuerySchema,
 } from "./prompts";
@@ -15,6 +21,7 @@ import { outputGuidelinesPrompt } from "@/constants/prompts";
 import { isNetworkingModel } from "@/utils/model";
 import { ThinkTagStreamProcessor, removeJsonMarkdown } from "@/utils/text";
 import { pick, unique, flat, isFunction } from "radash";
+import Plimit from "p-limit";
 
 export interface DeepResearchOptions {
   AIProvider: {
@@ -31,10 +38,22 @@ export interface DeepResearchOptions {
     maxResult?: number;
   };
   language?: string;
+  // 并行执行的搜索任务数，默认为 1（依次执行）
+  parallelSearch?: number;
+  // 研究轮数，每轮结束后审查已有结论并针对缺漏生成新的搜索任务，默认为 1
+  depth?: number;
+  // 每轮最多执行的搜索任务数，不设置时不限制
+  breadth?: number;
+  // 是否抓取搜索结果的完整网页，替换搜索服务返回的简短摘要
+  fetchFullPage?: boolean;
+  // 每个来源内容的 token 上限，不设置时不截断
+  maxSourceTokens?: number;
+  // 取消信号，中止后会终止正在进行的模型调用并结束任务
+  abortSignal?: AbortSignal;
   onMessage?: (event: string, data: any) => void;
 }
 
-interface FinalReportResult {
+export interface FinalReportResult {
   title: string;
   finalReport: string;
   learnings: string[];
@@ -70,6 +89,8 @@ function addQuoteBeforeAllLine(text: string = "") {
 
 class DeepResearch {
   protected options: DeepResearchOptions;
+  // 在所有搜索任务间共享，避免重复的来源占用上下文
+  protected sourceDeduplicator = new SourceDeduplicator();
   onMessage: (event: string, data: any) => void = () => {};
   constructor(options: DeepResearchOptions) {
     this.options = options;
@@ -114,6 +135,7 @@ class DeepResearch {
     const thinkTagStreamProcessor = new ThinkTagStreamProcessor();
     const result = streamText({
       model: await this.getThinkingModel(),
+      abortSignal: this.options.abortSignal,
       system: getSystemPrompt(),
       prompt: [
         writeReportPlanPrompt(query),
@@ -138,6 +160,8 @@ class DeepResearch {
         this.onMessage("reasoning", { type: "text", text: part.textDelta });
       }
     }
+    // 中止时流可能直接结束而不报错
+    this.options.abortSignal?.throwIfAborted();
     this.onMessage("message", { type: "text", text: "\n</report-plan>\n\n" });
     this.onMessage("progress", {
       step: "report-plan",
@@ -154,6 +178,7 @@ class DeepResearch {
     const thinkTagStreamProcessor = new ThinkTagStreamProcessor();
     const { text } = await generateText({
       model: await this.getThinkingModel(),
+      abortSignal: this.options.abortSignal,
       system: getSystemPrompt(),
       prompt: [
         generateSerpQueriesPrompt(reportPlan),
@@ -186,14 +211,73 @@ class DeepResearch {
     }
   }
 
+  async reviewSearchResult(
+    reportPlan: string,
+    tasks: DeepResearchSearchResult[],
+    suggestion = ""
+  ): Promise<DeepResearchSearchTask[]> {
+    this.onMessage("progress", { step: "review", status: "start" });
+    const thinkTagStreamProcessor = new ThinkTagStreamProcessor();
+    const { text } = await generateText({
+      model: await this.getThinkingModel(),
+      abortSignal: this.options.abortSignal,
+      system: getSystemPrompt(),
+      prompt: [
+        reviewSerpQueriesPrompt(
+          reportPlan,
+          tasks.map((item) => item.learning),
+          suggestion
+        ),
+        this.getResponseLanguagePrompt(),
+      ].join("\n\n"),
+    });
+    const querySchema = getSERPQuerySchema();
+    let content = "";
+    thinkTagStreamProcessor.processChunk(text, (data) => {
+      content += data;
+    });
+    thinkTagStreamProcessor.end();
+    // 审查模型认为无需继续研究时可能不输出任何内容，
+    // 输出无法解析时同样视为没有新的任务，保留之前各轮的研究结果
+    let data: unknown = [];
+    try {
+      if (content.trim()) data = JSON.parse(removeJsonMarkdown(content));
+    } catch (err) {
+      console.warn("Failed to parse the review result:", err);
+    }
+    const result = querySchema.safeParse(data);
+    let newTasks: DeepResearchSearchTask[] = [];
+    if (result.success) {
+      // 跳过已经搜索过的查询
+      const queries = tasks.map((item) => item.query);
+      newTasks = result.data
+        .filter((item) => !queries.includes(item.query))
+        .map((item) => ({
+          query: item.query,
+          researchGoal: item.researchGoal || "",
+        }));
+    } else {
+      console.warn("Invalid review result:", result.error.message);
+    }
+    this.onMessage("progress", {
+      step: "review",
+      status: "end",
+      data: newTasks,
+    });
+    return newTasks;
+  }
+
   async runSearchTask(
     tasks: DeepResearchSearchTask[],
     enableReferences = true
   ): Promise<SearchTask[]> {
     this.onMessage("progress", { step: "task-list", status: "start" });
-    const thinkTagStreamProcessor = new ThinkTagStreamProcessor();
-    const results: SearchTask[] = [];
-    for await (const item of tasks) {
+    const plimit = Plimit(Math.max(1, this.options.parallelSearch || 1));
+    const runTask = async (item: DeepResearchSearchTask) => {
+      // 并行执行时各任务的输出会交错，message 与 reasoning 事件都带上任务名以便区分
+      const onTaskMessage = (event: string, data: any) =>
+        this.onMessage(event, { ...data, name: item.query });
+      const thinkTagStreamProcessor = new ThinkTagStreamProcessor();
       this.onMessage("progress", {
         step: "search-task",
         status: "start",
@@ -244,6 +328,7 @@ class DeepResearch {
 
         searchResult = streamText({
           model: await this.getTaskModel(),
+          abortSignal: this.options.abortSignal,
           system: getSystemPrompt(),
           prompt: [
             processResultPrompt(item.query, item.researchGoal),
@@ -267,8 +352,20 @@ class DeepResearch {
           }`;
           throw new Error(errorMessage);
         }
+        const { fetchFullPage = false, maxSourceTokens = 0 } = this.options;
+        if (fetchFullPage) {
+          sources = await fetchSourceContent(sources, { maxPages: maxResult });
+        }
+        sources = this.sourceDeduplicator.filter(sources);
+        if (maxSourceTokens > 0) {
+          sources = sources.map((source) => ({
+            ...source,
+            content: truncateToTokens(source.content || "", maxSourceTokens),
+          }));
+        }
         searchResult = streamText({
           model: await this.getTaskModel(),
+          abortSignal: this.options.abortSignal,
           system: getSystemPrompt(),
           prompt: [
             processSearchResultPrompt(
@@ -282,9 +379,9 @@ class DeepResearch {
         });
       }
 
-      this.onMessage("message", { type: "text", text: "<search-task>\n" });
-      this.onMessage("message", { type: "text", text: `## ${item.query}\n\n` });
-      this.onMessage("message", {
+      onTaskMessage("message", { type: "text", text: "<search-task>\n" });
+      onTaskMessage("message", { type: "text", text: `## ${item.query}\n\n` });
+      onTaskMessage("message", {
         type: "text",
         text: `${addQuoteBeforeAllLine(item.researchGoal)}\n\n`,
       });
@@ -294,14 +391,14 @@ class DeepResearch {
             part.textDelta,
             (data) => {
               content += data;
-              this.onMessage("message", { type: "text", text: data });
+              onTaskMessage("message", { type: "text", text: data });
             },
             (data) => {
-              this.onMessage("reasoning", { type: "text", text: data });
+              onTaskMessage("reasoning", { type: "text", text: data });
             }
           );
         } else if (part.type === "reasoning") {
-          this.onMessage("reasoning", { type: "text", text: part.textDelta });
+          onTaskMessage("reasoning", { type: "text", text: part.textDelta });
         } else if (part.type === "source") {
           sources.push(part.source);
         } else if (part.type === "finish") {
@@ -330,6 +427,7 @@ class DeepResearch {
           }
         }
       }
+      this.options.abortSignal?.throwIfAborted();
       thinkTagStreamProcessor.end();
 
       if (images.length > 0) {
@@ -342,7 +440,7 @@ class DeepResearch {
             )
             .join("\n");
         content += imageContent;
-        this.onMessage("message", { type: "text", text: imageContent });
+        onTaskMessage("message", { type: "text", text: imageContent });
       }
 
       if (sources.length > 0) {
@@ -357,9 +455,9 @@ class DeepResearch {
             )
             .join("\n");
         content += sourceContent;
-        this.onMessage("message", { type: "text", text: sourceContent });
+        onTaskMessage("message", { type: "text", text: sourceContent });
       }
-      this.onMessage("message", { type: "text", text: "\n</search-task>\n\n" });
+      onTaskMessage("message", { type: "text", text: "\n</search-task>\n\n" });
 
       const task: SearchTask = {
         query: item.query,
@@ -369,14 +467,17 @@ class DeepResearch {
         sources,
         images,
       };
-      results.push(task);
       this.onMessage("progress", {
         step: "search-task",
         status: "end",
         name: item.query,
         data: task,
       });
-    }
+      return task;
+    };
+    const results = await Promise.all(
+      tasks.map((item) => plimit(() => runTask(item)))
+    );
     this.onMessage("progress", { step: "task-list", status: "end" });
     return results;
   }
@@ -460,6 +561,7 @@ class DeepResearch {
 
     const result = streamText({
       model: await this.getThinkingModel(),
+      abortSignal: this.options.abortSignal,
       system: [getSystemPrompt(), outputGuidelinesPrompt].join("\n\n"),
       messages: [
         {
@@ -503,6 +605,7 @@ class DeepResearch {
         }
       }
     }
+    this.options.abortSignal?.throwIfAborted();
     this.onMessage("message", { type: "text", text: "\n</final-report>\n\n" });
     thinkTagStreamProcessor.end();
 
@@ -534,9 +637,32 @@ class DeepResearch {
     enableFileFormatResource = false
   ) {
     try {
+      const { depth = 1, breadth } = this.options;
       const reportPlan = await this.writeReportPlan(query);
-      const tasks = await this.generateSERPQuery(reportPlan);
-      const results = await this.runSearchTask(tasks, enableReferences);
+      let tasks = await this.generateSERPQuery(reportPlan);
+      const results: SearchTask[] = [];
+      for (let round = 1; round <= Math.max(1, depth); round++) {
+        this.onMessage("progress", {
+          step: "research-round",
+          status: "start",
+          round,
+        });
+        const roundResults = await this.runSearchTask(
+          breadth ? tasks.slice(0, breadth) : tasks,
+          enableReferences
+        );
+        results.push(...roundResults);
+        this.onMessage("progress", {
+          step: "research-round",
+          status: "end",
+          round,
+          data: roundResults,
+        });
+        if (round >= depth) break;
+        tasks = await this.reviewSearchResult(reportPlan, results);
+        // 审查结果没有发现缺漏时提前结束
+        if (tasks.length === 0) break;
+      }
       const finalReport = await this.writeFinalReport(
         reportPlan,
         results,
@@ -146,3 +146,97 @@ export async function createAIProvider({
     throw new Error("Unsupported Provider: " + provider);
   }
 }
+
+export async function createAIEmbeddingProvider({
+  provider,
+  apiKey,
+  baseURL,
+  auth,
+  headers,
+  model,
+}: Omit<AIProviderOptions, "settings">) {
+  if (provider === "google") {
+    const { createGoogleGenerativeAI } = await import("@ai-sdk/google");
+    const google = createGoogleGenerativeAI({
+      baseURL,
+      apiKey,
+    });
+    return google.textEmbeddingModel(model);
+  } else if (provider === "google-vertex") {
+    const { createVertex } = await import("@ai-sdk/google-vertex/edge");
+    const googleVertexOptions: GoogleVertexProviderSettings = {};
+    if (auth) {
+      googleVertexOptions.project = auth.project;
+      googleVertexOptions.location = auth.location;
+    }
+    if (baseURL) {
+      googleVertexOptions.baseURL = baseURL;
+    }
+    if (auth?.clientEmail && auth?.privateKey) {
+      googleVertexOptions.googleCredentials = {
+        clientEmail: auth.clientEmail,
+        privateKey: auth.privateKey,
+        privateKeyId: auth.privateKeyId,
+      };
+    }
+    const googleVertex = createVertex(googleVertexOptions);
+    return googleVertex.textEmbeddingModel(model);
+  } else if (provider === "openai") {
+    const { createOpenAI } = await import("@ai-sdk/openai");
+    const openai = createOpenAI({
+      baseURL,
+      apiKey,
+    });
+    return openai.textEmbeddingModel(model);
+  } else if (provider === "mistral") {
+    const { createMistral } = await import("@ai-sdk/mistral");
+    const mistral = createMistral({
+      baseURL,
+      apiKey,
+    });
+    return mistral.textEmbeddingModel(model);
+  } else if (provider === "azure") {
+    const { createAzure } = await import("@ai-sdk/azure");
+    const azureOptions: AzureOpenAIProviderSettings = {};
+    if (auth) {
+      azureOptions.resourceName = auth.resourceName;
+      azureOptions.apiKey = auth.apiKey;
+      azureOptions.apiVersion = auth.apiVersion;
+    }
+    if (baseURL) {
+      azureOptions.baseURL = baseURL;
+      azureOptions.apiKey = apiKey;
+    }
+    const azure = createAzure(azureOptions);
+    return azure.textEmbeddingModel(model);
+  } else if (provider === "openaicompatible") {
+    const { createOpenAICompatible } = await import(
+      "@ai-sdk/openai-compatible"
+    );
+    const openaicompatible = createOpenAICompatible({
+      name: "openaicompatible",
+      baseURL,
+      apiKey,
+    });
+    return openaicompatible.textEmbeddingModel(model);
+  } else if (provider === "ollama") {
+    const { createOllama } = await import("ollama-ai-provider");
+    const local = global.location || {};
+    const ollama = createOllama({
+      baseURL,
+      headers,
+      fetch: async (input, init) => {
+        const headers = (init?.headers || {}) as Record<string, string>;
+        if (!baseURL?.startsWith(local.origin)) delete headers["Authorization"];
+        return await fetch(input, {
+          ...init,
+          headers,
+          credentials: "omit",
+        });
+      },
+    });
+    return ollama.textEmbeddingModel(model);
+  } else {
+    throw new Error("Unsupported Embedding Provider: " + provider);
+  }
+}
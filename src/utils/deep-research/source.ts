@@ -0,0 +1,142 @@
+import { Md5 } from "ts-md5";
+import { crawlPage } from "@/utils/crawler";
+
+// 常见的跟踪参数，不影响页面内容
+const TRACKING_PARAMS = [
+  "fbclid",
+  "gclid",
+  "msclkid",
+  "yclid",
+  "spm",
+  "ref",
+  "ref_src",
+  "from",
+];
+
+export interface FetchSourceOptions {
+  /** 最多抓取的来源数量 */
+  maxPages?: number;
+  /** 已有内容超过该长度时认为是完整正文，不再抓取 */
+  minContentLength?: number;
+}
+
+/**
+ * 规范化 URL：忽略协议、www 前缀、锚点、跟踪参数及参数顺序，
+ * 用于判断两个链接是否指向同一页面
+ */
+export function canonicalizeUrl(url: string): string {
+  try {
+    const urlObj = new URL(url);
+    const host = urlObj.hostname.toLowerCase().replace(/^www\./, "");
+    const params = Array.from(urlObj.searchParams.entries())
+      .filter(
+        ([key]) =>
+          !key.startsWith("utm_") &&
+          !TRACKING_PARAMS.includes(key.toLowerCase())
+      )
+      .sort(([a], [b]) => a.localeCompare(b));
+    const query = new URLSearchParams(params).toString();
+    const pathname = urlObj.pathname.replace(/\/+$/, "");
+    return `${host}${pathname}${query ? `?${query}` : ""}`;
+  } catch {
+    return url.trim();
+  }
+}
+
+/**
+ * 内容指纹：忽略大小写、空白和标点，转载或镜像页面的内容通常只有这些差异
+ */
+export function getContentHash(content: string): string {
+  const normalized = content
+    .toLowerCase()
+    .replace(
+      /[\s!-/:-@[-`{-~\u2000-\u206f\u3000-\u303f\uff00-\uffef]+/g,
+      ""
+    );
+  return Md5.hashStr(normalized);
+}
+
+/**
+ * 粗略估算 token 数：中日韩字符约 1 token/字，其他文本约 4 字符/token
+ */
+export function estimateTokens(text: string): number {
+  const cjk = text.match(
+    /[\u3040-\u30ff\u3400-\u4dbf\u4e00-\u9fff\uac00-\ud7af]/g
+  );
+  const cjkCount = cjk ? cjk.length : 0;
+  return cjkCount + Math.ceil((text.length - cjkCount) / 4);
+}
+
+export function truncateToTokens(text: string, maxTokens: number): string {
+  if (maxTokens <= 0 || estimateTokens(text) <= maxTokens) return text;
+
+  // 二分查找不超过预算的最长前缀
+  let low = 0;
+  let high = text.length;
+  while (low < high) {
+    const mid = Math.ceil((low + high) / 2);
+    if (estimateTokens(text.slice(0, mid)) <= maxTokens) {
+      low = mid;
+    } else {
+      high = mid - 1;
+    }
+  }
+  // 尽量在段落或句子边界处截断
+  const truncated = text.slice(0, low);
+  const boundary = Math.max(
+    truncated.lastIndexOf("\n\n"),
+    truncated.lastIndexOf("\n")
+  );
+  return `${
+    boundary > low * 0.8 ? truncated.slice(0, boundary) : truncated
+  }\n\n[...]`;
+}
+
+/**
+ * 跨搜索任务的来源去重，按规范化 URL 和内容指纹识别重复来源
+ */
+export class SourceDeduplicator {
+  private urls = new Set<string>();
+  private hashes = new Set<string>();
+
+  filter(sources: Source[]): Source[] {
+    return sources.filter((source) => {
+      const url = canonicalizeUrl(source.url);
+      if (this.urls.has(url)) return false;
+      const hash = source.content ? getContentHash(source.content) : "";
+      if (hash && this.hashes.has(hash)) return false;
+
+      this.urls.add(url);
+      if (hash) this.hashes.add(hash);
+      return true;
+    });
+  }
+}
+
+/**
+ * 抓取搜索结果的完整网页并转换为 Markdown，替换搜索服务返回的简短摘要。
+ * 抓取失败时保留原有内容
+ */
+export async function fetchSourceContent(
+  sources: Source[],
+  { maxPages = 5, minContentLength = 1000 }: FetchSourceOptions = {}
+): Promise<Source[]> {
+  return await Promise.all(
+    sources.map(async (source, idx) => {
+      if (idx >= maxPages) return source;
+      if ((source.content || "").length >= minContentLength) return source;
+      try {
+        const { title, content } = await crawlPage(source.url);
+        if (content.length <= (source.content || "").length) return source;
+        return {
+          ...source,
+          title: source.title || title,
+          content,
+        };
+      } catch (err) {
+        console.warn(`Failed to fetch ${source.url}:`, err);
+        return source;
+      }
+    })
+  );
+}
@@ -0,0 +1,118 @@
+import { z } from "zod";
+
+// 断点可能来自客户端，恢复运行前需要校验结构
+
+const tokenUsageSchema = z.object({
+  promptTokens: z.number(),
+  completionTokens: z.number(),
+  totalTokens: z.number(),
+});
+
+const thinkUsageSchema = z.object({
+  total: tokenUsageSchema,
+  byStage: z.record(tokenUsageSchema),
+  byModel: z.record(tokenUsageSchema),
+  byIteration: z.record(tokenUsageSchema),
+  byAgent: z.record(tokenUsageSchema),
+});
+
+const verificationIssueSchema = z.object({
+  location: z.string(),
+  severity: z.enum(["critical", "justification-gap"]),
+  description: z.string(),
+});
+
+const verifierVerdictSchema = z.object({
+  provider: z.string().optional(),
+  model: z.string(),
+  passed: z.boolean(),
+  summary: z.string(),
+  issues: z.array(verificationIssueSchema),
+  error: z.string().optional(),
+});
+
+const verificationSchema = z.object({
+  timestamp: z.number(),
+  passed: z.boolean(),
+  bugReport: z.string(),
+  goodVerify: z.string(),
+  issues: z.array(verificationIssueSchema).optional(),
+  verdicts: z.array(verifierVerdictSchema).optional(),
+});
+
+const sourceSchema = z.object({
+  title: z.string().optional(),
+  content: z.string().optional(),
+  url: z.string(),
+  images: z
+    .array(
+      z.object({
+        url: z.string(),
+        description: z.string().optional(),
+      })
+    )
+    .optional(),
+});
+
+export const deepThinkCheckpointSchema: z.ZodType<DeepThinkCheckpoint> =
+  z.object({
+    problemStatement: z.string(),
+    questions: z.string().optional(),
+    plan: z.string().optional(),
+    initialThought: z.string(),
+    solution: z.string(),
+    stage: z.enum(["verify", "review"]),
+    verification: z.object({
+      passed: z.boolean(),
+      bugReport: z.string(),
+      goodVerify: z.string(),
+      issues: z.array(verificationIssueSchema),
+      verdicts: z.array(verifierVerdictSchema).optional(),
+    }),
+    iteration: z.number().int().min(0),
+    errorCount: z.number().int().min(0),
+    correctCount: z.number().int().min(0),
+    iterations: z.array(
+      z.object({
+        iteration: z.number(),
+        solution: z.string(),
+        verification: verificationSchema,
+        status: z.enum([
+          "thinking",
+          "verifying",
+          "correcting",
+          "completed",
+          "failed",
+        ]),
+      })
+    ),
+    verifications: z.array(verificationSchema),
+    sources: z.array(sourceSchema),
+    usage: thinkUsageSchema.optional(),
+    selfConsistency: z
+      .object({
+        samples: z.number(),
+        answers: z.array(z.string()),
+        clusters: z.array(
+          z.object({
+            answer: z.string(),
+            members: z.array(z.number()),
+            ratio: z.number(),
+          })
+        ),
+        majorityAnswer: z.string(),
+        agreement: z.number(),
+      })
+      .optional(),
+    knowledgeChunks: z
+      .array(
+        z.object({
+          id: z.string(),
+          knowledgeId: z.string(),
+          title: z.string(),
+          content: z.string(),
+        })
+      )
+      .optional(),
+    updatedAt: z.number(),
+  });
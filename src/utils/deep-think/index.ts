@@ -1,10 +1,19 @@
-import { generateText, generateObject, type Tool, type JSONValue } from "ai";
+import {
+  generateText,
+  generateObject,
+  streamText,
+  tool,
+  type Tool,
+  type JSONValue,
+  type LanguageModelV1,
+} from "ai";
 import { z } from "zod";
+import Plimit from "p-limit";
+import { clone } from "radash";
 import {
   deepThinkInitialPrompt,
   selfImprovementPrompt,
   verificationSystemPrompt,
-  correctionPrompt,
   buildVerificationPrompt,
   buildInitialThinkingPrompt,
   extractDetailedSolutionMarker,
@@ -14,36 +23,134 @@ import {
   buildFinalSummaryPrompt,
   buildAskQuestionsPrompt,
   buildThinkingPlanPrompt,
+  buildVerificationVerdictPrompt,
+  buildCorrectionPrompt,
+  buildAgentCritiquePrompt,
+  buildAgentRevisionPrompt,
+  buildKnowledgeContext,
+  buildSystemPromptWithKnowledge,
+  buildAnswerExtractionPrompt,
+  buildAnswerClusteringPrompt,
 } from "./prompts";
+import {
+  createThinkUsage,
+  recordThinkUsage,
+  mergeAgentUsage,
+} from "@/utils/usage";
+import { ThinkTagStreamProcessor } from "@/utils/text";
+import { ProviderRateLimiter, type RateLimitOptions } from "./rate-limit";
 
 type ProviderOptions = Record<string, Record<string, JSONValue>>;
 type Tools = Record<string, Tool>;
+type VerificationOutcome = DeepThinkCheckpoint["verification"];
+
+// 模型调用搜索工具的最大轮数
+const MAX_SEARCH_STEPS = 5;
+
+const verificationVerdictSchema = z.object({
+  passed: z.boolean(),
+  summary: z.string(),
+  issues: z.array(
+    z.object({
+      location: z.string(),
+      severity: z.enum(["critical", "justification-gap"]),
+      description: z.string(),
+    })
+  ),
+});
+
+const finalAnswerSchema = z.object({
+  finalAnswer: z.string(),
+});
+
+const answerClustersSchema = z.object({
+  clusters: z.array(
+    z.object({
+      answer: z.string(),
+      members: z.array(z.number().int()),
+    })
+  ),
+});
+
+// 结构化聚类失败时的兜底：按规范化后的文本精确匹配
+function clusterAnswersByText(
+  answers: string[]
+): Array<{ answer: string; members: number[] }> {
+  const clusters: Array<{ key: string; answer: string; members: number[] }> = [];
+  answers.forEach((answer, idx) => {
+    const key = answer.trim().toLowerCase().replace(/\s+/g, " ").replace(/[.。]$/, "");
+    const cluster = key ? clusters.find((item) => item.key === key) : undefined;
+    if (cluster) {
+      cluster.members.push(idx);
+    } else {
+      clusters.push({ key, answer, members: [idx] });
+    }
+  });
+  return clusters.map(({ answer, members }) => ({ answer, members }));
+}
+
+/**
+ * 去掉模型输出中包裹 JSON 的 markdown 代码块
+ */
+function stripJsonCodeBlock(text: string): string {
+  let jsonText = text.trim();
+
+  if (jsonText.startsWith("```json")) {
+    jsonText = jsonText.slice(7);
+  } else if (jsonText.startsWith("```")) {
+    jsonText = jsonText.slice(3);
+  }
+  if (jsonText.endsWith("```")) {
+    jsonText = jsonText.slice(0, -3);
+  }
+  return jsonText.trim();
+}
+
+/** 指定服务商的阶段模型，provider 为空时使用默认服务商 */
+export interface ModelStageTarget {
+  provider?: string;
+  model: string;
+}
+
+/** 阶段模型可以只写模型名（使用默认服务商），也可以同时指定服务商 */
+export type ModelStageValue = string | ModelStageTarget;
+
+function toStageTarget(value?: ModelStageValue): ModelStageTarget | undefined {
+  const target = typeof value === "string" ? { model: value } : value;
+  return target?.model ? target : undefined;
+}
 
 export interface ModelStageConfig {
   /** 初始思考阶段的模型 */
-  initial?: string;
+  initial?: ModelStageValue;
   /** 自我改进阶段的模型 */
-  improvement?: string;
+  improvement?: ModelStageValue;
   /** 验证阶段的模型 */
-  verification?: string;
+  verification?: ModelStageValue;
   /** 修正阶段的模型 */
-  correction?: string;
+  correction?: ModelStageValue;
   /** 最终总结阶段的模型 */
-  summary?: string;
-  /** UltraThink: 生成计划阶段的模型 */
-  planning?: string;
+  summary?: ModelStageValue;
+  /** 自洽模式：提取和聚类最终答案阶段的模型 */
+  consensus?: ModelStageValue;
+  /** 提问和生成计划阶段的模型 */
+  planning?: ModelStageValue;
   /** UltraThink: 生成agent配置阶段的模型 */
-  agentConfig?: string;
+  agentConfig?: ModelStageValue;
   /** UltraThink: agent思考阶段的模型 */
-  agentThinking?: string;
+  agentThinking?: ModelStageValue;
+  /** UltraThink: 交叉评审阶段的模型，未指定时使用 agent 思考阶段的模型 */
+  critique?: ModelStageValue;
   /** UltraThink: 合成结果阶段的模型 */
-  synthesis?: string;
+  synthesis?: ModelStageValue;
 }
 
 export interface DeepThinkOptions {
   problemStatement: string;
   otherPrompts?: string[];
   knowledgeContext?: string;
+  /** 按查询检索知识库片段，设置后初始思考和每轮修正只使用相关片段，代替 knowledgeContext */
+  retrieveKnowledge?: (query: string) => Promise<KnowledgeChunk[]>;
   maxIterations?: number;
   requiredSuccessfulVerifications?: number;
   maxErrorsBeforeGiveUp?: number;
@@ -52,6 +159,8 @@ export interface DeepThinkOptions {
     provider: string;
     maxResult?: number;
   };
+  /** 外部搜索服务（Tavily、Exa 等），searchProvider 不为 "model" 时作为 web_search 工具提供给模型 */
+  webSearch?: (query: string) => Promise<{ sources: Source[]; images: ImageSource[] }>;
   /** 是否启用询问阶段 - 在开始前提出澄清问题 */
   enableAskQuestions?: boolean;
   /** 用户对询问的回答（如果有的话） */
@@ -61,11 +170,41 @@ export interface DeepThinkOptions {
   /** 是否启用交互模式 - 在问问题阶段等待用户回答 */
   enableInteractiveMode?: boolean;
   onProgress?: (event: DeepThinkProgressEvent) => void;
-  createModelProvider: (model: string, options?: any) => Promise<any>;
+  /** provider 为空时使用默认服务商 */
+  createModelProvider: (model: string, options?: any, provider?: string) => Promise<any>;
   thinkingModel: string;
+  /** thinkingModel 所属的服务商，未指定时使用默认服务商 */
+  thinkingProvider?: string;
   taskModel?: string;
   /** 分阶段模型配置，未指定的阶段使用 thinkingModel */
   modelStages?: ModelStageConfig;
+  /** 从断点恢复运行，跳过询问、计划和初始探索阶段 */
+  checkpoint?: DeepThinkCheckpoint;
+  /** 取消信号，中止后会终止正在进行的模型调用并返回部分结果 */
+  abortSignal?: AbortSignal;
+  /** 模型调用失败时 AI SDK 的重试次数，未指定时使用 SDK 默认值 */
+  maxRetries?: number;
+  /** 自洽模式：独立采样的初始方案数量，大于 1 时启用，只对多数答案的方案进行验证和修正 */
+  selfConsistencySamples?: number;
+  /** 验证模型组，设置后由这些模型并行独立验证，代替 verification 阶段的单个模型，每个模型可以指定服务商 */
+  verifierModels?: ModelStageValue[];
+  /** 验证模型组的通过规则：全部通过、多数通过或任一通过，默认为多数通过 */
+  verificationQuorum?: VerificationQuorum;
+}
+
+/** 支持流式输出的阶段 */
+export type DeepThinkStreamPhase =
+  | "initial-exploration"
+  | "self-improvement"
+  | "correction"
+  | "summary";
+
+export interface DeepThinkDeltaData {
+  phase: DeepThinkStreamPhase;
+  iteration: number;
+  delta: string;
+  /** UltraThink 中输出该内容的 agent */
+  agentId?: string;
 }
 
 export type DeepThinkProgressEvent =
@@ -75,16 +214,24 @@ export type DeepThinkProgressEvent =
   | { type: "planning"; data: { plan: string } }
   | { type: "thinking"; data: { iteration: number; phase: string } }
   | { type: "solution"; data: { solution: string; iteration: number } }
+  | { type: "text-delta"; data: DeepThinkDeltaData }
+  | { type: "reasoning-delta"; data: DeepThinkDeltaData }
   | { type: "verification"; data: { passed: boolean; iteration: number } }
   | { type: "correction"; data: { iteration: number } }
   | { type: "summarizing"; data: { message: string } }
+  | { type: "checkpoint"; data: DeepThinkCheckpoint }
+  | { type: "usage"; data: ThinkUsage }
   | { type: "success"; data: { solution: string; iterations: number } }
   | { type: "failure"; data: { reason: string } }
+  | { type: "cancelled"; data: { iteration: number } }
   | { type: "progress"; data: { message: string } };
 
 export class DeepThinkEngine {
   private options: DeepThinkOptions;
   private sources: Source[] = []; // 追踪所有搜索来源
+  private knowledgeChunks = new Map<string, KnowledgeChunk>(); // 追踪检索到的知识库片段
+  private usage: ThinkUsage = createThinkUsage(); // 追踪 token 用量
+  private currentIteration = 0;
 
   constructor(options: DeepThinkOptions) {
     this.options = {
@@ -92,6 +239,7 @@ export class DeepThinkEngine {
       requiredSuccessfulVerifications: 3,
       maxErrorsBeforeGiveUp: 10,
       enableWebSearch: false,
+      verificationQuorum: "majority",
       ...options,
     };
   }
@@ -103,11 +251,117 @@ export class DeepThinkEngine {
   }
 
   /**
-   * 获取指定阶段应该使用的模型
+   * 获取指定阶段应该使用的服务商和模型
    * 如果该阶段没有配置特定模型，则使用默认的 thinkingModel
    */
+  private getStageTarget(stage: keyof ModelStageConfig): ModelStageTarget {
+    return (
+      toStageTarget(this.options.modelStages?.[stage]) || {
+        provider: this.options.thinkingProvider,
+        model: this.options.thinkingModel,
+      }
+    );
+  }
+
   private getModelForStage(stage: keyof ModelStageConfig): string {
-    return this.options.modelStages?.[stage] || this.options.thinkingModel;
+    return this.getStageTarget(stage).model;
+  }
+
+  private createModel(target: ModelStageTarget) {
+    return this.options.createModelProvider(target.model, undefined, target.provider);
+  }
+
+  private createModelForStage(stage: keyof ModelStageConfig) {
+    return this.createModel(this.getStageTarget(stage));
+  }
+
+  /**
+   * 获取知识库上下文：设置了 retrieveKnowledge 时按查询检索相关片段，
+   * 否则使用完整的 knowledgeContext
+   */
+  private async getKnowledgeContext(query: string): Promise<string | undefined> {
+    const { retrieveKnowledge, knowledgeContext } = this.options;
+    if (!retrieveKnowledge) return knowledgeContext;
+
+    const chunks = await retrieveKnowledge(query);
+    for (const chunk of chunks) {
+      this.knowledgeChunks.set(chunk.id, chunk);
+    }
+    return chunks.length > 0 ? buildKnowledgeContext(chunks) : undefined;
+  }
+
+  /**
+   * 记录一次模型调用的 token 用量，按阶段、模型和迭代轮次汇总
+   */
+  private recordUsage(
+    stage: keyof ModelStageConfig,
+    model: string,
+    usage?: Partial<TokenUsage>
+  ): void {
+    recordThinkUsage(this.usage, {
+      stage,
+      model,
+      usage,
+      iteration: this.currentIteration,
+    });
+    this.emit({ type: "usage", data: JSON.parse(JSON.stringify(this.usage)) });
+  }
+
+  /**
+   * 流式调用模型，逐段发出正文和推理内容的增量事件
+   * 返回值包含 generateText 结果中用到的字段
+   */
+  private async streamStage(
+    phase: DeepThinkStreamPhase,
+    params: Parameters<typeof streamText>[0]
+  ) {
+    const iteration = this.currentIteration;
+    const thinkTagStreamProcessor = new ThinkTagStreamProcessor();
+    const result = streamText({
+      ...params,
+      abortSignal: this.options.abortSignal,
+      maxRetries: this.options.maxRetries,
+    });
+
+    let text = "";
+    for await (const part of result.fullStream) {
+      if (part.type === "text-delta") {
+        thinkTagStreamProcessor.processChunk(
+          part.textDelta,
+          (data) => {
+            text += data;
+            this.emit({
+              type: "text-delta",
+              data: { phase, iteration, delta: data },
+            });
+          },
+          (data) => {
+            this.emit({
+              type: "reasoning-delta",
+              data: { phase, iteration, delta: data },
+            });
+          }
+        );
+      } else if (part.type === "reasoning") {
+        this.emit({
+          type: "reasoning-delta",
+          data: { phase, iteration, delta: part.textDelta },
+        });
+      } else if (part.type === "step-finish" && part.finishReason === "tool-calls") {
+        // 调用搜索工具前的文字只是过渡说明，以最后一步的输出为准
+        text = "";
+      } else if (part.type === "error") {
+        throw part.error;
+      }
+    }
+    // 中止时流可能直接结束而不报错
+    this.options.abortSignal?.throwIfAborted();
+
+    return {
+      text,
+      usage: await result.usage,
+      experimental_providerMetadata: await result.providerMetadata,
+    };
   }
 
   /**
@@ -147,12 +401,60 @@ export class DeepThinkEngine {
     }
   }
 
+  /**
+   * 将外部搜索服务包装为工具，搜索结果记录到 sources 中
+   */
+  private createWebSearchTool(maxResult: number): Tool {
+    return tool({
+      description:
+        "Search the web for up-to-date information. Use it to look up facts, data or references you are not sure about.",
+      parameters: z.object({
+        query: z.string().describe("The search query"),
+      }),
+      execute: async ({ query }) => {
+        this.emit({
+          type: "progress",
+          data: { message: `Searching the web: ${query}` },
+        });
+        try {
+          const { sources } = await this.options.webSearch!(query);
+          const results = sources.slice(0, maxResult);
+          for (const source of results) {
+            if (!this.sources.some((item) => item.url === source.url)) {
+              this.sources.push({
+                url: source.url,
+                title: source.title,
+                content: source.content?.slice(0, 500),
+              });
+            }
+          }
+          return results.map((source) => ({
+            title: source.title,
+            url: source.url,
+            content: source.content?.slice(0, 3000),
+          }));
+        } catch (err) {
+          if (this.options.abortSignal?.aborted) throw err;
+          console.warn("Web search failed:", err);
+          return { error: err instanceof Error ? err.message : "Search failed" };
+        }
+      },
+    });
+  }
+
   private async getSearchTools(): Promise<Tools | undefined> {
     if (!this.options.enableWebSearch) return undefined;
 
     const { thinkingModel } = this.options;
     const { provider = "model", maxResult = 5 } = this.options.searchProvider || {};
 
+    // 外部搜索服务，由模型在思考过程中按需调用
+    if (provider !== "model") {
+      return this.options.webSearch
+        ? { web_search: this.createWebSearchTool(maxResult) }
+        : undefined;
+    }
+
     // Enable OpenAI's built-in search tool
     if (
       provider === "model" &&
@@ -217,15 +519,20 @@ export class DeepThinkEngine {
       data: { message: "Generating clarification questions..." },
     });
 
-    const model = await this.options.createModelProvider(this.options.thinkingModel);
+    // 提问和制定计划使用计划阶段的模型，未配置时为 thinkingModel
+    const planningModel = this.getModelForStage("planning");
+    const model = await this.createModelForStage("planning");
     const prompt = buildAskQuestionsPrompt(problemStatement);
 
     const result = await generateText({
       model,
       prompt,
+      abortSignal: this.options.abortSignal,
+      maxRetries: this.options.maxRetries,
     });
 
     const questions = result.text;
+    this.recordUsage("planning", planningModel, result.usage);
     this.emit({
       type: "asking",
       data: { questions },
@@ -254,15 +561,19 @@ export class DeepThinkEngine {
       data: { message: "Generating thinking plan..." },
     });
 
-    const model = await this.options.createModelProvider(this.options.thinkingModel);
+    const planningModel = this.getModelForStage("planning");
+    const model = await this.createModelForStage("planning");
     const prompt = buildThinkingPlanPrompt(problemStatement, userAnswers);
 
     const result = await generateText({
       model,
       prompt,
+      abortSignal: this.options.abortSignal,
+      maxRetries: this.options.maxRetries,
     });
 
     const plan = result.text;
+    this.recordUsage("planning", planningModel, result.usage);
     this.emit({
       type: "planning",
       data: { plan },
@@ -274,7 +585,7 @@ export class DeepThinkEngine {
   private async verifySolution(
     problemStatement: string,
     solution: string
-  ): Promise<{ bugReport: string; goodVerify: string }> {
+  ): Promise<VerificationOutcome> {
     const detailedSolution = this.extractDetailedSolution(solution);
     const verificationPrompt = buildVerificationPrompt(
       problemStatement,
@@ -283,31 +594,54 @@ export class DeepThinkEngine {
 
     this.emit({ type: "progress", data: { message: "Verifying solution..." } });
 
+    const verifiers = (this.options.verifierModels || [])
+      .map(toStageTarget)
+      .filter((target): target is ModelStageTarget => !!target);
+    if (verifiers.length > 0) {
+      return this.runVerifierPanel(verificationPrompt, verifiers);
+    }
+
     // 使用验证阶段的模型
-    const verificationModel = this.getModelForStage("verification");
-    const model = await this.options.createModelProvider(verificationModel);
+    return this.runVerifier(
+      verificationPrompt,
+      this.getStageTarget("verification")
+    );
+  }
+
+  /**
+   * 使用单个模型验证方案
+   */
+  private async runVerifier(
+    verificationPrompt: string,
+    verificationTarget: ModelStageTarget
+  ): Promise<VerificationOutcome> {
+    const verificationModel = verificationTarget.model;
+    const model = await this.createModel(verificationTarget);
 
     // Get verification
     const verificationResult = await generateText({
       model,
       system: verificationSystemPrompt,
       prompt: verificationPrompt,
+      abortSignal: this.options.abortSignal,
+      maxRetries: this.options.maxRetries,
     });
 
     const verificationOutput = verificationResult.text;
+    this.recordUsage("verification", verificationModel, verificationResult.usage);
+
+    // Extract a structured verdict from the review
+    const verdict = await this.generateStructured(
+      "verification",
+      verificationVerdictSchema,
+      buildVerificationVerdictPrompt(verificationOutput),
+      "verification verdict",
+      verificationTarget
+    );
 
-    // Check if verification is good
-    const checkPrompt = `Response in "yes" or "no". Is the following statement saying the solution is correct, or does not contain critical error or a major justification gap?\n\n${verificationOutput}`;
-
-    const checkResult = await generateText({
-      model,
-      prompt: checkPrompt,
-    });
-
-    const goodVerify = checkResult.text;
     let bugReport = "";
 
-    if (!goodVerify.toLowerCase().includes("yes")) {
+    if (!verdict.passed) {
       bugReport = this.extractDetailedSolution(
         verificationOutput,
         "Detailed Review",
@@ -315,7 +649,242 @@ export class DeepThinkEngine {
       );
     }
 
-    return { bugReport, goodVerify };
+    return {
+      passed: verdict.passed,
+      bugReport,
+      goodVerify: verdict.summary,
+      issues: verdict.issues,
+    };
+  }
+
+  /**
+   * 验证模型组：多个模型并行独立验证，再按法定人数规则汇总结论，
+   * 调用失败的验证模型不参与计票
+   */
+  private async runVerifierPanel(
+    verificationPrompt: string,
+    verifiers: ModelStageTarget[]
+  ): Promise<VerificationOutcome> {
+    const quorum = this.options.verificationQuorum!;
+
+    const results = await Promise.all(
+      verifiers.map(async ({ provider, model }) => {
+        try {
+          const outcome = await this.runVerifier(verificationPrompt, { provider, model });
+          return { provider, model, outcome };
+        } catch (err) {
+          if (this.options.abortSignal?.aborted) throw err;
+          console.warn(`Verifier ${model} failed:`, err);
+          return { provider, model, error: err instanceof Error ? err.message : String(err) };
+        }
+      })
+    );
+
+    const verdicts: VerifierVerdict[] = results.map((result) => ({
+      provider: result.provider,
+      model: result.model,
+      passed: result.outcome?.passed || false,
+      summary: result.outcome?.goodVerify || "",
+      issues: result.outcome?.issues || [],
+      error: result.error,
+    }));
+
+    const counted = verdicts.filter((verdict) => !verdict.error);
+    if (counted.length === 0) {
+      throw new Error(
+        `All verifiers failed: ${verdicts.map((verdict) => `${verdict.model}: ${verdict.error}`).join("; ")}`
+      );
+    }
+
+    const passCount = counted.filter((verdict) => verdict.passed).length;
+    const passed =
+      quorum === "all"
+        ? passCount === counted.length
+        : quorum === "any"
+          ? passCount > 0
+          : passCount * 2 > counted.length;
+
+    // 未通过时汇总所有否决者的问题和详细评审，供修正阶段逐条处理
+    const rejections = results.filter(
+      (result) => result.outcome && !result.outcome.passed
+    );
+
+    return {
+      passed,
+      bugReport: passed
+        ? ""
+        : rejections
+            .map((result) => {
+              const name = result.provider ? `${result.provider}:${result.model}` : result.model;
+              return `### Verifier: ${name}\n\n${result.outcome!.bugReport}`;
+            })
+            .join("\n\n"),
+      goodVerify: `${passCount}/${counted.length} verifiers passed (quorum: ${quorum})`,
+      issues: passed
+        ? []
+        : rejections.flatMap((result) => result.outcome!.issues),
+      verdicts,
+    };
+  }
+
+  /**
+   * 生成结构化结果，generateObject 失败时回退到 generateText 并手动解析 JSON
+   */
+  private async generateStructured<T extends z.ZodTypeAny>(
+    stage: keyof ModelStageConfig,
+    schema: T,
+    prompt: string,
+    name: string,
+    target: ModelStageTarget = this.getStageTarget(stage)
+  ): Promise<z.infer<T>> {
+    const modelName = target.model;
+    const model = await this.createModel(target);
+
+    try {
+      const result = await generateObject({
+        model,
+        schema,
+        mode: "json", // Use JSON mode for broader model compatibility
+        prompt,
+        abortSignal: this.options.abortSignal,
+        maxRetries: this.options.maxRetries,
+      });
+
+      this.recordUsage(stage, modelName, result.usage);
+
+      return result.object;
+    } catch (error) {
+      if (this.options.abortSignal?.aborted) throw error;
+
+      // Fallback: if generateObject fails, use generateText with manual parsing
+      console.warn("generateObject failed, falling back to manual JSON parsing:", error);
+
+      const textResult = await generateText({
+        model,
+        prompt,
+        abortSignal: this.options.abortSignal,
+        maxRetries: this.options.maxRetries,
+      });
+      this.recordUsage(stage, modelName, textResult.usage);
+
+      const jsonText = stripJsonCodeBlock(textResult.text);
+
+      try {
+        return schema.parse(JSON.parse(jsonText));
+      } catch (parseError) {
+        throw new Error(
+          `Failed to parse ${name}. Original error: ${parseError instanceof Error ? parseError.message : String(parseError)}. ` +
+          `Response text: ${jsonText.substring(0, 200)}...`
+        );
+      }
+    }
+  }
+
+  /**
+   * 自洽模式：独立采样多个初始方案，提取并聚类最终答案，
+   * 返回多数答案中的第一个方案
+   */
+  private async sampleByConsensus(
+    model: LanguageModelV1,
+    initialModel: string,
+    prompt: string
+  ): Promise<{ solution: string; report: SelfConsistencyReport }> {
+    const samples = this.options.selfConsistencySamples!;
+
+    this.emit({
+      type: "progress",
+      data: { message: `Sampling ${samples} independent solutions...` },
+    });
+
+    const tools = await this.getSearchTools();
+    const solutions = await Promise.all(
+      Array.from({ length: samples }, async () => {
+        const result = await generateText({
+          model,
+          prompt,
+          tools,
+          maxSteps: MAX_SEARCH_STEPS,
+          providerOptions: this.getProviderOptions(),
+          abortSignal: this.options.abortSignal,
+          maxRetries: this.options.maxRetries,
+        });
+        this.extractSourcesFromResult(result);
+        this.recordUsage("initial", initialModel, result.usage);
+        return result.text;
+      })
+    );
+
+    this.emit({
+      type: "progress",
+      data: { message: "Extracting final answers..." },
+    });
+
+    const answers = await Promise.all(
+      solutions.map(async (solution) => {
+        try {
+          const { finalAnswer } = await this.generateStructured(
+            "consensus",
+            finalAnswerSchema,
+            buildAnswerExtractionPrompt(solution),
+            "final answer"
+          );
+          return finalAnswer.trim();
+        } catch (err) {
+          if (this.options.abortSignal?.aborted) throw err;
+          console.warn("Failed to extract final answer:", err);
+          return "";
+        }
+      })
+    );
+
+    let clusters = clusterAnswersByText(answers);
+    if (clusters.length > 1) {
+      try {
+        const result = await this.generateStructured(
+          "consensus",
+          answerClustersSchema,
+          buildAnswerClusteringPrompt(answers),
+          "answer clusters"
+        );
+        // 每个样本必须恰好属于一个簇，否则使用文本匹配的结果
+        const members = result.clusters.flatMap((cluster) => cluster.members);
+        const isValid =
+          members.length === samples &&
+          new Set(members).size === samples &&
+          members.every((idx) => idx >= 0 && idx < samples);
+        if (isValid) clusters = result.clusters;
+      } catch (err) {
+        if (this.options.abortSignal?.aborted) throw err;
+        console.warn("Failed to cluster answers, using exact matching:", err);
+      }
+    }
+
+    const sorted: AnswerCluster[] = clusters
+      .map((cluster) => ({
+        answer: cluster.answer,
+        members: [...cluster.members].sort((a, b) => a - b),
+        ratio: cluster.members.length / samples,
+      }))
+      .sort((a, b) => b.members.length - a.members.length);
+    const majority = sorted[0];
+
+    this.emit({
+      type: "progress",
+      data: {
+        message: `Majority answer agreed by ${majority.members.length}/${samples} samples`,
+      },
+    });
+
+    return {
+      solution: solutions[majority.members[0]],
+      report: {
+        samples,
+        answers,
+        clusters: sorted,
+        majorityAnswer: majority.answer,
+        agreement: majority.ratio,
+      },
+    };
   }
 
   private   async initialExploration(
@@ -323,7 +892,8 @@ export class DeepThinkEngine {
     otherPrompts: string[] = []
   ): Promise<{
     solution: string;
-    verification: { bugReport: string; goodVerify: string };
+    verification: VerificationOutcome;
+    selfConsistency?: SelfConsistencyReport;
   } | null> {
     this.emit({
       type: "thinking",
@@ -332,26 +902,38 @@ export class DeepThinkEngine {
 
     // 使用初始思考阶段的模型
     const initialModel = this.getModelForStage("initial");
-    const model = await this.options.createModelProvider(initialModel);
+    const model = await this.createModelForStage("initial");
 
+    const knowledgeContext = await this.getKnowledgeContext(problemStatement);
     const fullPrompt = buildInitialThinkingPrompt(
       problemStatement,
       otherPrompts,
-      this.options.knowledgeContext
+      knowledgeContext
     );
 
     // First solution
-    const firstResult = await generateText({
-      model,
-      prompt: fullPrompt,
-      tools: await this.getSearchTools(),
-      providerOptions: this.getProviderOptions(),
-    });
+    let firstSolution: string;
+    let selfConsistency: SelfConsistencyReport | undefined;
 
-    // 提取搜索来源
-    this.extractSourcesFromResult(firstResult);
+    if ((this.options.selfConsistencySamples || 1) > 1) {
+      const consensus = await this.sampleByConsensus(model, initialModel, fullPrompt);
+      firstSolution = consensus.solution;
+      selfConsistency = consensus.report;
+    } else {
+      const firstResult = await this.streamStage("initial-exploration", {
+        model,
+        prompt: fullPrompt,
+        tools: await this.getSearchTools(),
+        maxSteps: MAX_SEARCH_STEPS,
+        providerOptions: this.getProviderOptions(),
+      });
+
+      // 提取搜索来源
+      this.extractSourcesFromResult(firstResult);
 
-    const firstSolution = firstResult.text;
+      firstSolution = firstResult.text;
+      this.recordUsage("initial", initialModel, firstResult.usage);
+    }
     this.emit({
       type: "solution",
       data: { solution: firstSolution, iteration: 0 },
@@ -365,16 +947,11 @@ export class DeepThinkEngine {
 
     // 使用自我改进阶段的模型
     const improvementModel = this.getModelForStage("improvement");
-    const improvementModelProvider = await this.options.createModelProvider(improvementModel);
+    const improvementModelProvider = await this.createModelForStage("improvement");
 
-    const systemPromptWithKnowledge = this.options.knowledgeContext
-      ? deepThinkInitialPrompt +
-        "\n\n### Available Knowledge Base ###\n\n" +
-        this.options.knowledgeContext +
-        "\n\n### End of Knowledge Base ###\n"
-      : deepThinkInitialPrompt;
+    const systemPromptWithKnowledge = buildSystemPromptWithKnowledge(knowledgeContext);
 
-    const improvementResult = await generateText({
+    const improvementResult = await this.streamStage("self-improvement", {
       model: improvementModelProvider,
       system: systemPromptWithKnowledge,
       messages: [
@@ -383,6 +960,7 @@ export class DeepThinkEngine {
         { role: "user", content: selfImprovementPrompt },
       ],
       tools: await this.getSearchTools(),
+      maxSteps: MAX_SEARCH_STEPS,
       providerOptions: this.getProviderOptions(),
     });
 
@@ -390,6 +968,7 @@ export class DeepThinkEngine {
     this.extractSourcesFromResult(improvementResult);
 
     const improvedSolution = improvementResult.text;
+    this.recordUsage("improvement", improvementModel, improvementResult.usage);
     this.emit({
       type: "solution",
       data: { solution: improvedSolution, iteration: 0 },
@@ -404,21 +983,34 @@ export class DeepThinkEngine {
     this.emit({
       type: "verification",
       data: {
-        passed: verification.goodVerify.toLowerCase().includes("yes"),
+        passed: verification.passed,
         iteration: 0,
       },
     });
 
-    return { solution: improvedSolution, verification };
+    return { solution: improvedSolution, verification, selfConsistency };
   }
 
-  async run(): Promise<DeepThinkResult> {
-    const { problemStatement, otherPrompts = [] } = this.options;
-    const maxIterations = this.options.maxIterations!;
-    const requiredSuccesses = this.options.requiredSuccessfulVerifications!;
-    const maxErrors = this.options.maxErrorsBeforeGiveUp!;
+  /**
+   * 生成断点快照，深拷贝以保证调用方可以安全地序列化和保存
+   */
+  private saveCheckpoint(state: DeepThinkCheckpoint): void {
+    this.emit({
+      type: "checkpoint",
+      data: JSON.parse(
+        JSON.stringify({
+          ...state,
+          sources: this.sources,
+          knowledgeChunks: Array.from(this.knowledgeChunks.values()),
+          usage: this.usage,
+          updatedAt: Date.now(),
+        })
+      ),
+    });
+  }
 
-    this.emit({ type: "init", data: { problem: problemStatement } });
+  private async createInitialCheckpoint(): Promise<DeepThinkCheckpoint> {
+    const { problemStatement, otherPrompts = [] } = this.options;
 
     let questions: string | undefined;
     let plan: string | undefined;
@@ -448,40 +1040,151 @@ export class DeepThinkEngine {
       throw new Error("Failed in initial exploration");
     }
 
-    let solution = initial.solution;
-    let verification = initial.verification;
+    return {
+      problemStatement,
+      questions,
+      plan,
+      initialThought: initial.solution,
+      solution: initial.solution,
+      stage: "review",
+      verification: initial.verification,
+      iteration: 0,
+      errorCount: 0,
+      correctCount: initial.verification.passed ? 1 : 0,
+      iterations: [],
+      verifications: [],
+      sources: [],
+      selfConsistency: initial.selfConsistency,
+      updatedAt: Date.now(),
+    };
+  }
 
-    const iterations: DeepThinkIteration[] = [];
-    const verifications: Verification[] = [];
+  async run(): Promise<DeepThinkResult> {
+    const { problemStatement, checkpoint } = this.options;
 
-    let errorCount = 0;
-    let correctCount = verification.goodVerify.toLowerCase().includes("yes")
-      ? 1
-      : 0;
+    this.emit({ type: "init", data: { problem: problemStatement } });
+
+    let state: DeepThinkCheckpoint | undefined;
+    if (checkpoint) {
+      if (checkpoint.problemStatement !== problemStatement) {
+        throw new Error("Checkpoint does not match the problem statement");
+      }
+      const restored: DeepThinkCheckpoint = JSON.parse(JSON.stringify(checkpoint));
+      this.sources = restored.sources;
+      for (const chunk of restored.knowledgeChunks || []) {
+        this.knowledgeChunks.set(chunk.id, chunk);
+      }
+      this.usage = restored.usage || createThinkUsage();
+      this.emit({
+        type: "progress",
+        data: {
+          message: `Resuming from checkpoint (iteration ${restored.iteration})...`,
+        },
+      });
+      state = restored;
+    }
+
+    const buildResult = (
+      summary: string | undefined,
+      totalIterations: number,
+      cancelled = false
+    ): DeepThinkResult => ({
+      mode: "deep-think",
+      questions: state?.questions,
+      userAnswers: this.options.userAnswers,
+      plan: state?.plan,
+      initialThought: state?.initialThought || "",
+      improvements: [],
+      iterations: state?.iterations || [],
+      verifications: state?.verifications || [],
+      finalSolution: state?.solution || "",
+      summary,
+      totalIterations,
+      successfulVerifications: state?.correctCount || 0,
+      sources: this.sources.length > 0 ? this.sources : undefined,
+      knowledgeEnhanced: this.sources.length > 0 || this.knowledgeChunks.size > 0,
+      cancelled: cancelled || undefined,
+      usage: this.usage,
+      selfConsistency: state?.selfConsistency,
+      knowledgeChunks:
+        this.knowledgeChunks.size > 0
+          ? Array.from(this.knowledgeChunks.values())
+          : undefined,
+    });
+
+    try {
+      if (!state) {
+        state = await this.createInitialCheckpoint();
+        this.saveCheckpoint(state);
+      }
+      return await this.runLoop(state, buildResult);
+    } catch (err) {
+      if (!this.options.abortSignal?.aborted) throw err;
+
+      const iteration = state?.iteration || 0;
+      this.emit({ type: "cancelled", data: { iteration } });
+      return buildResult(undefined, iteration, true);
+    }
+  }
+
+  /**
+   * 验证/修正主循环，直接修改传入的 state 以便取消时返回部分结果
+   */
+  private async runLoop(
+    state: DeepThinkCheckpoint,
+    buildResult: (summary: string, totalIterations: number) => DeepThinkResult
+  ): Promise<DeepThinkResult> {
+    const { problemStatement } = this.options;
+    const maxIterations = this.options.maxIterations!;
+    const requiredSuccesses = this.options.requiredSuccessfulVerifications!;
+    const maxErrors = this.options.maxErrorsBeforeGiveUp!;
 
     // Main loop
-    for (let i = 0; i < maxIterations; i++) {
-      const passed = verification.goodVerify.toLowerCase().includes("yes");
+    for (let i = state.iteration; i < maxIterations; i++) {
+      state.iteration = i;
+      this.currentIteration = i;
+
+      // Verify the solution produced by the previous correction
+      if (state.stage === "verify") {
+        state.verification = await this.verifySolution(
+          problemStatement,
+          state.solution
+        );
+        this.emit({
+          type: "verification",
+          data: {
+            passed: state.verification.passed,
+            iteration: i,
+          },
+        });
+        state.stage = "review";
+        this.saveCheckpoint(state);
+      }
 
-      verifications.push({
+      const { verification } = state;
+      const { passed } = verification;
+
+      state.verifications.push({
         timestamp: Date.now(),
         passed,
         bugReport: verification.bugReport,
         goodVerify: verification.goodVerify,
+        issues: verification.issues,
+        verdicts: verification.verdicts,
       });
 
-      iterations.push({
+      state.iterations.push({
         iteration: i,
-        solution,
-        verification: verifications[verifications.length - 1],
+        solution: state.solution,
+        verification: state.verifications[state.verifications.length - 1],
         status: passed ? "completed" : "correcting",
       });
 
       if (!passed) {
-        correctCount = 0;
-        errorCount++;
+        state.correctCount = 0;
+        state.errorCount++;
 
-        if (errorCount >= maxErrors) {
+        if (state.errorCount >= maxErrors) {
           this.emit({
             type: "failure",
             data: { reason: "Too many errors" },
@@ -494,44 +1197,53 @@ export class DeepThinkEngine {
 
         // 使用修正阶段的模型
         const correctionModel = this.getModelForStage("correction");
-        const model = await this.options.createModelProvider(correctionModel);
-
-        const systemPromptWithKnowledge = this.options.knowledgeContext
-          ? deepThinkInitialPrompt +
-            "\n\n### Available Knowledge Base ###\n\n" +
-            this.options.knowledgeContext +
-            "\n\n### End of Knowledge Base ###\n"
-          : deepThinkInitialPrompt;
+        const model = await this.createModelForStage("correction");
+
+        // 每轮修正按验证发现的问题重新检索知识库
+        const knowledgeContext = await this.getKnowledgeContext(
+          `${problemStatement}\n\n${
+            verification.issues.length > 0
+              ? verification.issues.map((issue) => issue.description).join("\n")
+              : verification.bugReport
+          }`
+        );
+        const systemPromptWithKnowledge = buildSystemPromptWithKnowledge(knowledgeContext);
 
-        const correctionResult = await generateText({
+        const correctionResult = await this.streamStage("correction", {
           model,
           system: systemPromptWithKnowledge,
           messages: [
             { role: "user", content: problemStatement },
-            { role: "assistant", content: solution },
+            { role: "assistant", content: state.solution },
             {
               role: "user",
-              content: correctionPrompt + "\n\n" + verification.bugReport,
+              content: buildCorrectionPrompt(
+                verification.issues,
+                verification.bugReport
+              ),
             },
           ],
           tools: await this.getSearchTools(),
+          maxSteps: MAX_SEARCH_STEPS,
           providerOptions: this.getProviderOptions(),
         });
 
+        this.recordUsage("correction", correctionModel, correctionResult.usage);
+
         // 提取搜索来源
         this.extractSourcesFromResult(correctionResult);
 
-        solution = correctionResult.text;
+        state.solution = correctionResult.text;
         this.emit({
           type: "solution",
-          data: { solution, iteration: i + 1 },
+          data: { solution: state.solution, iteration: i + 1 },
         });
       } else {
-        correctCount++;
-        errorCount = 0;
+        state.correctCount++;
+        state.errorCount = 0;
       }
 
-      if (correctCount >= requiredSuccesses) {
+      if (state.correctCount >= requiredSuccesses) {
         // Generate final summary for the user
         this.emit({
           type: "summarizing",
@@ -539,52 +1251,33 @@ export class DeepThinkEngine {
         });
 
         const summaryModel = this.getModelForStage("summary");
-        const summaryModelProvider = await this.options.createModelProvider(summaryModel);
+        const summaryModelProvider = await this.createModelForStage("summary");
 
         const summaryPrompt = buildFinalSummaryPrompt(
           problemStatement,
-          solution
+          state.solution
         );
 
-        const summaryResult = await generateText({
+        const summaryResult = await this.streamStage("summary", {
           model: summaryModelProvider,
           prompt: summaryPrompt,
         });
 
         const finalSummary = summaryResult.text;
+        this.recordUsage("summary", summaryModel, summaryResult.usage);
 
         this.emit({
           type: "success",
           data: { solution: finalSummary, iterations: i + 1 },
         });
 
-        return {
-          mode: "deep-think",
-          questions,
-          userAnswers: this.options.userAnswers,
-          plan,
-          initialThought: initial.solution,
-          improvements: [],
-          iterations,
-          verifications,
-          finalSolution: solution,
-          summary: finalSummary,
-          totalIterations: i + 1,
-          successfulVerifications: correctCount,
-          sources: this.sources.length > 0 ? this.sources : undefined,
-          knowledgeEnhanced: this.sources.length > 0,
-        };
+        return buildResult(finalSummary, i + 1);
       }
 
-      // Verify again
-      verification = await this.verifySolution(problemStatement, solution);
-      this.emit({
-        type: "verification",
-        data: {
-          passed: verification.goodVerify.toLowerCase().includes("yes"),
-          iteration: i + 1,
-        },
-      });
+      // Verify again in the next iteration
+      state.stage = "verify";
+      state.iteration = i + 1;
+      this.saveCheckpoint(state);
     }
 
     // Failed to find solution - still generate a summary with what we have
@@ -594,53 +1287,56 @@ export class DeepThinkEngine {
     });
 
     const summaryModel = this.getModelForStage("summary");
-    const summaryModelProvider = await this.options.createModelProvider(summaryModel);
+    const summaryModelProvider = await this.createModelForStage("summary");
 
     const summaryPrompt = buildFinalSummaryPrompt(
       problemStatement,
-      solution
+      state.solution
     );
 
-    const summaryResult = await generateText({
+    const summaryResult = await this.streamStage("summary", {
       model: summaryModelProvider,
       prompt: summaryPrompt,
     });
 
     const finalSummary = summaryResult.text;
+    this.recordUsage("summary", summaryModel, summaryResult.usage);
 
     this.emit({
       type: "failure",
       data: { reason: "Max iterations reached" },
     });
 
-    return {
-      mode: "deep-think",
-      questions,
-      userAnswers: this.options.userAnswers,
-      plan,
-      initialThought: initial.solution,
-      improvements: [],
-      iterations,
-      verifications,
-      finalSolution: solution,
-      summary: finalSummary,
-      totalIterations: maxIterations,
-      successfulVerifications: correctCount,
-      sources: this.sources.length > 0 ? this.sources : undefined,
-      knowledgeEnhanced: this.sources.length > 0,
-    };
+    return buildResult(finalSummary, maxIterations);
   }
 }
 
 // Ultra Think - Parallel Multiple Agents
 export interface UltraThinkOptions extends DeepThinkOptions {
   numAgents?: number; // Maximum number of agents (optional). If not set, use all agents suggested by LLM
+  /** 同时运行的 agent 数量上限，超出的 agent 排队等待，默认为 3 */
+  maxConcurrentAgents?: number;
+  /** 相邻两个 agent 启动之间的最小间隔（毫秒），默认为 1000 */
+  agentStartInterval?: number;
+  /** 服务商返回 429 时的重试和退避配置 */
+  rateLimit?: RateLimitOptions;
+  /** 是否启用交叉评审阶段 - agent 完成后互相评审，并各自修订一次方案 */
+  enableCritique?: boolean;
   onAgentUpdate?: (agentId: string, update: Partial<AgentResult>) => void;
 }
 
+interface UltraThinkPartialState {
+  questions?: string;
+  plan: string;
+  agentResults: AgentResult[];
+}
+
 export class UltraThinkEngine {
   private options: UltraThinkOptions;
   private sources: Source[] = []; // 追踪所有搜索来源
+  private knowledgeChunks = new Map<string, KnowledgeChunk>(); // 追踪检索到的知识库片段
+  private usage: ThinkUsage = createThinkUsage(); // 自身调用的 token 用量
+  private agentUsages: Record<string, ThinkUsage> = {}; // 各 agent 最新的 token 用量
 
   constructor(options: UltraThinkOptions) {
     this.options = {
@@ -650,8 +1346,18 @@ export class UltraThinkEngine {
       requiredSuccessfulVerifications: 3,
       maxErrorsBeforeGiveUp: 10,
       enableWebSearch: false,
+      maxConcurrentAgents: 3,
+      agentStartInterval: 1000,
       ...options,
     };
+
+    // 所有 agent 共享同一个限流器，某个服务商被限流时一起退避。
+    // 限流器已经负责重试，关闭 SDK 自身的重试以免重试次数叠加
+    const { createModelProvider } = options;
+    const rateLimiter = new ProviderRateLimiter(options.rateLimit);
+    this.options.createModelProvider = async (model, providerOptions, provider) =>
+      rateLimiter.wrap(await createModelProvider(model, providerOptions, provider));
+    this.options.maxRetries = 0;
   }
 
   private emit(event: DeepThinkProgressEvent) {
@@ -661,11 +1367,48 @@ export class UltraThinkEngine {
   }
 
   /**
-   * 获取指定阶段应该使用的模型
+   * 获取指定阶段应该使用的服务商和模型
    * 如果该阶段没有配置特定模型，则使用默认的 thinkingModel
    */
+  private getStageTarget(stage: keyof ModelStageConfig): ModelStageTarget {
+    return (
+      toStageTarget(this.options.modelStages?.[stage]) || {
+        provider: this.options.thinkingProvider,
+        model: this.options.thinkingModel,
+      }
+    );
+  }
+
   private getModelForStage(stage: keyof ModelStageConfig): string {
-    return this.options.modelStages?.[stage] || this.options.thinkingModel;
+    return this.getStageTarget(stage).model;
+  }
+
+  private createModel(target: ModelStageTarget) {
+    return this.options.createModelProvider(target.model, undefined, target.provider);
+  }
+
+  private createModelForStage(stage: keyof ModelStageConfig) {
+    return this.createModel(this.getStageTarget(stage));
+  }
+
+  /**
+   * 汇总自身调用和所有 agent 的 token 用量
+   */
+  private getUsage(): ThinkUsage {
+    return Object.entries(this.agentUsages).reduce(
+      (usage, [agentId, agentUsage]) =>
+        mergeAgentUsage(usage, agentId, agentUsage),
+      clone(this.usage)
+    );
+  }
+
+  private recordUsage(
+    stage: keyof ModelStageConfig,
+    model: string,
+    usage?: Partial<TokenUsage>
+  ): void {
+    recordThinkUsage(this.usage, { stage, model, usage });
+    this.emit({ type: "usage", data: this.getUsage() });
   }
 
   private async getSearchTools(): Promise<Tools | undefined> {
@@ -721,12 +1464,15 @@ export class UltraThinkEngine {
 
     // 使用计划阶段的模型
     const planningModel = this.getModelForStage("planning");
-    const model = await this.options.createModelProvider(planningModel);
+    const model = await this.createModelForStage("planning");
 
     const result = await generateText({
       model,
       prompt: ultraThinkPlanPrompt.replace("{query}", problemStatement),
+      abortSignal: this.options.abortSignal,
+      maxRetries: this.options.maxRetries,
     });
+    this.recordUsage("planning", planningModel, result.usage);
 
     return result.text;
   }
@@ -741,7 +1487,7 @@ export class UltraThinkEngine {
 
     // 使用agent配置阶段的模型
     const agentConfigModel = this.getModelForStage("agentConfig");
-    const model = await this.options.createModelProvider(agentConfigModel);
+    const model = await this.createModelForStage("agentConfig");
 
     // Use generateObject for structured output instead of manual JSON parsing
     const agentConfigSchema = z.object({
@@ -760,8 +1506,12 @@ export class UltraThinkEngine {
         schema: agentConfigSchema,
         mode: "json", // Use JSON mode for broader model compatibility
         prompt: generateAgentPromptsPrompt.replace("{plan}", plan),
+        abortSignal: this.options.abortSignal,
+        maxRetries: this.options.maxRetries,
       });
 
+      this.recordUsage("agentConfig", agentConfigModel, result.usage);
+
       return result.object.configs;
     } catch (error) {
       // Fallback: if generateObject fails, use generateText with manual parsing
@@ -770,21 +1520,13 @@ export class UltraThinkEngine {
       const textResult = await generateText({
         model,
         prompt: generateAgentPromptsPrompt.replace("{plan}", plan),
+        abortSignal: this.options.abortSignal,
+        maxRetries: this.options.maxRetries,
       });
+      this.recordUsage("agentConfig", agentConfigModel, textResult.usage);
 
       // Try to parse the JSON, with better error handling
-      let jsonText = textResult.text.trim();
-      
-      // Remove markdown code blocks
-      if (jsonText.startsWith("```json")) {
-        jsonText = jsonText.slice(7);
-      } else if (jsonText.startsWith("```")) {
-        jsonText = jsonText.slice(3);
-      }
-      if (jsonText.endsWith("```")) {
-        jsonText = jsonText.slice(0, -3);
-      }
-      jsonText = jsonText.trim();
+      const jsonText = stripJsonCodeBlock(textResult.text);
 
       try {
         const parsed = JSON.parse(jsonText);
@@ -812,6 +1554,16 @@ export class UltraThinkEngine {
       progress: 0,
     };
 
+    // 排队中的 agent 在取消后不再启动
+    if (this.options.abortSignal?.aborted) {
+      result.status = "failed";
+      result.error = "Cancelled";
+      if (onAgentProgress) {
+        onAgentProgress(config.agentId, { status: "failed", error: result.error });
+      }
+      return result;
+    }
+
     // 通知 agent 开始
     if (onAgentProgress) {
       onAgentProgress(config.agentId, { status: "thinking", progress: 10 });
@@ -819,13 +1571,16 @@ export class UltraThinkEngine {
 
     try {
       // Agent思考阶段可以使用专门的模型，或者继承各个阶段的配置
-      const agentThinkingModel = this.getModelForStage("agentThinking");
+      const agentThinking = this.getStageTarget("agentThinking");
       
       const engine = new DeepThinkEngine({
         ...this.options,
         // 如果设置了agentThinking模型，则覆盖thinkingModel
-        thinkingModel: agentThinkingModel,
+        thinkingModel: agentThinking.model,
+        thinkingProvider: agentThinking.provider,
         problemStatement,
+        // 断点仅适用于单个 DeepThink 运行，agent 总是从头开始
+        checkpoint: undefined,
         otherPrompts: [config.specificPrompt],
         onProgress: (event) => {
           if (event.type === "thinking") {
@@ -846,6 +1601,19 @@ export class UltraThinkEngine {
             if (onAgentProgress) {
               onAgentProgress(config.agentId, { status: "completed", progress: 100 });
             }
+          } else if (
+            event.type === "text-delta" ||
+            event.type === "reasoning-delta"
+          ) {
+            // 转发 agent 的流式输出，并行的 agent 按 agentId 区分
+            this.emit({
+              type: event.type,
+              data: { ...event.data, agentId: config.agentId },
+            });
+          } else if (event.type === "usage") {
+            this.agentUsages[config.agentId] = event.data;
+            result.usage = event.data.total;
+            this.emit({ type: "usage", data: this.getUsage() });
           } else if (event.type === "failure") {
             result.status = "failed";
             result.error = event.data.reason;
@@ -862,12 +1630,20 @@ export class UltraThinkEngine {
       const deepThinkResult = await engine.run();
       result.solution = deepThinkResult.finalSolution;
       result.verifications = deepThinkResult.verifications;
+      if (deepThinkResult.cancelled) {
+        throw new Error("Cancelled");
+      }
       result.status = "completed";
       result.progress = 100;
 
       // 收集 agent 的搜索来源
-      if (deepThinkResult.sources && deepThinkResult.sources.length > 0) {
-        this.sources.push(...deepThinkResult.sources);
+      for (const source of deepThinkResult.sources || []) {
+        if (!this.sources.some((item) => item.url === source.url)) {
+          this.sources.push(source);
+        }
+      }
+      for (const chunk of deepThinkResult.knowledgeChunks || []) {
+        this.knowledgeChunks.set(chunk.id, chunk);
       }
 
       if (onAgentProgress) {
@@ -876,6 +1652,7 @@ export class UltraThinkEngine {
           progress: 100,
           solution: deepThinkResult.finalSolution,
           verifications: deepThinkResult.verifications,
+          usage: result.usage,
         });
       }
     } catch (err) {
@@ -892,7 +1669,149 @@ export class UltraThinkEngine {
     return result;
   }
 
+  /**
+   * 交叉评审阶段：每个完成的 agent 由前一个 agent 从其角度评审，
+   * 然后根据评审意见修订一次方案
+   */
+  private async runCritiqueRound(
+    agentResults: AgentResult[],
+    problemStatement: string,
+    onAgentProgress?: (agentId: string, update: Partial<AgentResult>) => void
+  ): Promise<void> {
+    const completed = agentResults.filter(
+      (result) => result.status === "completed" && result.solution
+    );
+    if (completed.length < 2) return;
+
+    this.emit({
+      type: "progress",
+      data: { message: `Running critique round for ${completed.length} agents...` },
+    });
+
+    const critiqueTarget =
+      toStageTarget(this.options.modelStages?.critique) ||
+      this.getStageTarget("agentThinking");
+    const revisionTarget = this.getStageTarget("agentThinking");
+    const critiqueModel = critiqueTarget.model;
+    const revisionModel = revisionTarget.model;
+    const plimit = Plimit(Math.max(1, this.options.maxConcurrentAgents!));
+
+    await Promise.all(
+      completed.map((target, idx) =>
+        plimit(async () => {
+          const reviewer = completed[(idx + completed.length - 1) % completed.length];
+          const solution = target.solution!;
+
+          target.status = "revising";
+          if (onAgentProgress) {
+            onAgentProgress(target.agentId, { status: "revising", progress: 90 });
+          }
+
+          try {
+            const critiqueProvider = await this.createModel(critiqueTarget);
+            const critiqueResult = await generateText({
+              model: critiqueProvider,
+              prompt: buildAgentCritiquePrompt(
+                problemStatement,
+                reviewer.approach,
+                target.approach,
+                solution
+              ),
+              abortSignal: this.options.abortSignal,
+              maxRetries: this.options.maxRetries,
+            });
+            this.recordUsage("critique", critiqueModel, critiqueResult.usage);
+
+            const critiques: AgentCritique[] = [
+              {
+                fromAgentId: reviewer.agentId,
+                approach: reviewer.approach,
+                critique: critiqueResult.text,
+              },
+            ];
+            target.critiques = critiques;
+            if (onAgentProgress) {
+              onAgentProgress(target.agentId, { critiques });
+            }
+
+            const revisionProvider = await this.createModel(revisionTarget);
+            const revisionResult = await generateText({
+              model: revisionProvider,
+              system: deepThinkInitialPrompt,
+              messages: [
+                {
+                  role: "user",
+                  content: `${problemStatement}\n\n${target.specificPrompt}`,
+                },
+                { role: "assistant", content: solution },
+                { role: "user", content: buildAgentRevisionPrompt(critiques) },
+              ],
+              abortSignal: this.options.abortSignal,
+              maxRetries: this.options.maxRetries,
+            });
+            this.recordUsage("agentThinking", revisionModel, revisionResult.usage);
+
+            target.originalSolution = solution;
+            target.solution = revisionResult.text;
+          } catch (err) {
+            if (this.options.abortSignal?.aborted) throw err;
+            // 评审失败时保留 agent 原有的方案
+            console.warn(`Critique round failed for ${target.agentId}:`, err);
+          }
+
+          target.status = "completed";
+          if (onAgentProgress) {
+            onAgentProgress(target.agentId, {
+              status: "completed",
+              progress: 100,
+              solution: target.solution,
+              originalSolution: target.originalSolution,
+            });
+          }
+        })
+      )
+    );
+  }
+
   async run(): Promise<UltraThinkResult> {
+    const partial: UltraThinkPartialState = { plan: "", agentResults: [] };
+
+    try {
+      return await this.runStages(partial);
+    } catch (err) {
+      if (!this.options.abortSignal?.aborted) throw err;
+
+      this.emit({ type: "cancelled", data: { iteration: 0 } });
+      return {
+        mode: "ultra-think",
+        questions: partial.questions,
+        userAnswers: this.options.userAnswers,
+        plan: partial.plan,
+        agentResults: partial.agentResults,
+        synthesis: "",
+        finalSolution: "",
+        totalAgents: partial.agentResults.length,
+        completedAgents: partial.agentResults.filter(
+          (r) => r.status === "completed"
+        ).length,
+        sources: this.sources.length > 0 ? this.sources : undefined,
+        knowledgeEnhanced: this.sources.length > 0 || this.knowledgeChunks.size > 0,
+        cancelled: true,
+        usage: this.getUsage(),
+        knowledgeChunks:
+          this.knowledgeChunks.size > 0
+            ? Array.from(this.knowledgeChunks.values())
+            : undefined,
+      };
+    }
+  }
+
+  /**
+   * 执行各个阶段，并将中间结果写入 partial 以便取消时返回
+   */
+  private async runStages(
+    partial: UltraThinkPartialState
+  ): Promise<UltraThinkResult> {
     const { problemStatement, onAgentUpdate } = this.options;
 
     this.emit({ type: "init", data: { problem: problemStatement } });
@@ -906,15 +1825,20 @@ export class UltraThinkEngine {
         data: { message: "Generating clarification questions..." },
       });
 
-      const model = await this.options.createModelProvider(this.options.thinkingModel);
+      const planningModel = this.getModelForStage("planning");
+      const model = await this.createModelForStage("planning");
       const prompt = buildAskQuestionsPrompt(problemStatement);
 
       const result = await generateText({
         model,
         prompt,
+        abortSignal: this.options.abortSignal,
+        maxRetries: this.options.maxRetries,
       });
 
       questions = result.text;
+      this.recordUsage("planning", planningModel, result.usage);
+      partial.questions = questions;
       this.emit({
         type: "asking",
         data: { questions },
@@ -927,6 +1851,7 @@ export class UltraThinkEngine {
         ? `${problemStatement}\n\n### User Provided Context ###\n${this.options.userAnswers}`
         : problemStatement
     );
+    partial.plan = plan;
 
     // Generate agent configs
     const configs = await this.generateAgentConfigs(plan);
@@ -944,21 +1869,47 @@ export class UltraThinkEngine {
         onAgentUpdate(config.agentId, {
           approach: config.approach,
           specificPrompt: config.specificPrompt,
+          status: "pending",
+          progress: 0,
         });
       });
     }
 
-    // Run agents in parallel
+    // Run agents in parallel, at most maxConcurrentAgents at a time
+    const maxConcurrent = Math.max(1, this.options.maxConcurrentAgents!);
     this.emit({
       type: "progress",
-      data: { message: `Running ${numAgents} agents in parallel...` },
+      data: {
+        message: `Running ${numAgents} agents (${Math.min(maxConcurrent, numAgents)} at a time)...`,
+      },
     });
 
+    const plimit = Plimit(maxConcurrent);
+    const startInterval = this.options.agentStartInterval!;
+    let nextStartAt = 0;
+
     const agentResults = await Promise.all(
       selectedConfigs.map((config) =>
-        this.runAgent(config, problemStatement, onAgentUpdate)
+        plimit(async () => {
+          // 错开 agent 的启动时间，避免同时发起大量请求
+          const wait = nextStartAt - Date.now();
+          nextStartAt = Math.max(nextStartAt, Date.now()) + startInterval;
+          if (wait > 0) {
+            await new Promise((resolve) => setTimeout(resolve, wait));
+          }
+          return this.runAgent(config, problemStatement, onAgentUpdate);
+        })
       )
     );
+    partial.agentResults = agentResults;
+
+    // Agent 会吞掉自身的错误，取消后不再进入合成阶段
+    this.options.abortSignal?.throwIfAborted();
+
+    // Cross-agent critique (optional)
+    if (this.options.enableCritique) {
+      await this.runCritiqueRound(agentResults, problemStatement, onAgentUpdate);
+    }
 
     // Synthesize results
     this.emit({
@@ -973,6 +1924,7 @@ export class UltraThinkEngine {
 
 **Status:** ${result.status}
 ${result.error ? `**Error:** ${result.error}` : ""}
+${result.critiques ? "**Revised after peer critique**" : ""}
 
 **Solution:**
 ${result.solution || "No solution generated"}
@@ -982,16 +1934,19 @@ ${result.solution || "No solution generated"}
 
     // 使用合成阶段的模型
     const synthesisModel = this.getModelForStage("synthesis");
-    const model = await this.options.createModelProvider(synthesisModel);
+    const model = await this.createModelForStage("synthesis");
 
     const synthesisResult = await generateText({
       model,
       prompt: synthesizeResultsPrompt
         .replace("{problem}", problemStatement)
         .replace("{agentResults}", agentResultsText),
+      abortSignal: this.options.abortSignal,
+      maxRetries: this.options.maxRetries,
     });
 
     const synthesis = synthesisResult.text;
+    this.recordUsage("synthesis", synthesisModel, synthesisResult.usage);
 
     // Generate final summary for the user
     this.emit({
@@ -1000,7 +1955,7 @@ ${result.solution || "No solution generated"}
     });
 
     const summaryModel = this.getModelForStage("summary");
-    const summaryModelProvider = await this.options.createModelProvider(summaryModel);
+    const summaryModelProvider = await this.createModelForStage("summary");
 
     const summaryPrompt = buildFinalSummaryPrompt(
       problemStatement,
@@ -1010,9 +1965,12 @@ ${result.solution || "No solution generated"}
     const summaryResultFinal = await generateText({
       model: summaryModelProvider,
       prompt: summaryPrompt,
+      abortSignal: this.options.abortSignal,
+      maxRetries: this.options.maxRetries,
     });
 
     const finalSummary = summaryResultFinal.text;
+    this.recordUsage("summary", summaryModel, summaryResultFinal.usage);
 
     this.emit({
       type: "success",
@@ -1032,7 +1990,12 @@ ${result.solution || "No solution generated"}
       completedAgents: agentResults.filter((r) => r.status === "completed")
         .length,
       sources: this.sources.length > 0 ? this.sources : undefined,
-      knowledgeEnhanced: this.sources.length > 0,
+      knowledgeEnhanced: this.sources.length > 0 || this.knowledgeChunks.size > 0,
+      usage: this.getUsage(),
+      knowledgeChunks:
+        this.knowledgeChunks.size > 0
+          ? Array.from(this.knowledgeChunks.values())
+          : undefined,
     };
   }
 }
@@ -172,6 +172,126 @@ ${verificationReminder}
 `;
 }
 
+export const verificationVerdictPrompt = `Below is a reviewer's assessment of an analysis:
+<REVIEW>
+{review}
+</REVIEW>
+
+Extract the reviewer's verdict as structured data.
+
+**Response format (JSON only):**
+
+\`\`\`json
+{
+  "passed": false,
+  "summary": "One sentence restating the reviewer's overall assessment",
+  "issues": [
+    {
+      "location": "Quote or description of where the issue occurs",
+      "severity": "critical",
+      "description": "What is wrong and why it matters"
+    }
+  ]
+}
+\`\`\`
+
+**Rules:**
+- "passed" is true only if the review finds no Critical Flaw and no major Weak Reasoning gap
+- List every Critical Flaw with severity "critical"
+- List every Weak Reasoning issue with severity "justification-gap"
+- Do not list Minor Issues
+- Use an empty "issues" array when the analysis passed
+- Do not invent issues the reviewer did not raise`;
+
+export function buildVerificationVerdictPrompt(review: string): string {
+  return verificationVerdictPrompt.replace("{review}", review);
+}
+
+export function buildCorrectionPrompt(
+  issues: VerificationIssue[],
+  bugReport: string
+): string {
+  if (issues.length === 0) {
+    return correctionPrompt + "\n\n" + bugReport;
+  }
+
+  const issueList = issues
+    .map(
+      (issue, idx) =>
+        `${idx + 1}. [${issue.severity === "critical" ? "Critical Flaw" : "Justification Gap"}] ${issue.location}\n   ${issue.description}`
+    )
+    .join("\n");
+
+  return `${correctionPrompt}
+
+### Issues to Address ###
+
+Resolve or rebut each of these issues individually:
+
+${issueList}
+
+### Reviewer's Detailed Review ###
+
+${bugReport}`;
+}
+
+export const answerExtractionPrompt = `Below is a solution to a problem:
+<SOLUTION>
+{solution}
+</SOLUTION>
+
+Extract the final answer that this solution arrives at.
+
+**Response format (JSON only):**
+
+\`\`\`json
+{
+  "finalAnswer": "The final answer in its shortest canonical form"
+}
+\`\`\`
+
+**Rules:**
+- Give only the answer itself (a number, expression, value, label or one short sentence), not the reasoning
+- Simplify numbers and expressions to a canonical form
+- If the solution does not reach a definite answer, use an empty string`;
+
+export const answerClusteringPrompt = `Several independent solutions to the same problem produced these final answers:
+<ANSWERS>
+{answers}
+</ANSWERS>
+
+Group the answers that are equivalent, i.e. they state the same result even if written differently (e.g. "0.5" and "1/2").
+
+**Response format (JSON only):**
+
+\`\`\`json
+{
+  "clusters": [
+    {
+      "answer": "Canonical form of the shared answer",
+      "members": [0, 2]
+    }
+  ]
+}
+\`\`\`
+
+**Rules:**
+- "members" are the numbers in square brackets
+- Every answer must belong to exactly one cluster
+- Empty answers each form their own cluster
+- Do not group answers that merely look similar but state different results`;
+
+export function buildAnswerExtractionPrompt(solution: string): string {
+  return answerExtractionPrompt.replace("{solution}", solution);
+}
+
+export function buildAnswerClusteringPrompt(answers: string[]): string {
+  return answerClusteringPrompt.replace(
+    "{answers}",
+    answers.map((answer, idx) => `[${idx}] ${answer || "(no answer)"}`).join("\n")
+  );
+}
+
 export const extractDetailedSolutionMarker = "Deep Dive";
 
 // Ultra Think Prompts - Multi-Agent Parallel Analysis
@@ -263,6 +383,64 @@ Synthesize these results into a unified, comprehensive response.
 - Make your final answer clear and actionable
 - Include practical recommendations when relevant`;
 
+export const agentCritiquePrompt = `You are an analyst who approached the following task using this approach: **{reviewerApproach}**
+
+<ORIGINAL_TASK>
+{problem}
+</ORIGINAL_TASK>
+
+Another agent analyzed the same task using a different approach: **{approach}**
+
+<PEER_ANALYSIS>
+{solution}
+</PEER_ANALYSIS>
+
+Critique the peer's analysis from the perspective of your own approach.
+
+**Focus on:**
+- Errors in reasoning, facts or technical details
+- Important considerations your approach reveals that the peer missed
+- Claims that lack adequate justification
+- Conclusions that do not follow from the analysis
+
+**Guidelines:**
+- Be specific: quote or point to the part you are critiquing
+- Prioritize: list the most important problems first
+- Be fair: acknowledge what the analysis gets right in one sentence
+- Do not rewrite the solution yourself`;
+
+export const agentRevisionPrompt = `Other agents reviewed your analysis from their own perspectives:
+
+<CRITIQUES>
+{critiques}
+</CRITIQUES>
+
+Revise your analysis in light of these critiques. Fix valid problems and incorporate important missing considerations. Where a critique is mistaken, keep your reasoning and briefly explain why.
+
+Produce the complete revised analysis, not just the changes.`;
+
+export function buildAgentCritiquePrompt(
+  problem: string,
+  reviewerApproach: string,
+  approach: string,
+  solution: string
+): string {
+  return agentCritiquePrompt
+    .replace("{reviewerApproach}", reviewerApproach)
+    .replace("{problem}", problem)
+    .replace("{approach}", approach)
+    .replace("{solution}", solution);
+}
+
+export function buildAgentRevisionPrompt(critiques: AgentCritique[]): string {
+  return agentRevisionPrompt.replace(
+    "{critiques}",
+    critiques
+      .map((item) => `### Critique from ${item.fromAgentId} (${item.approach})\n\n${item.critique}`)
+      .join("\n\n---\n\n")
+  );
+}
+
 export const finalSummaryPrompt = `You have completed a comprehensive analysis of the user's question through a rigorous thinking process. Now, create a clear, well-organized final response for the user.
 
 **CRITICAL GUIDELINES:**
@@ -273,6 +451,7 @@ export const finalSummaryPrompt = `You have completed a comprehensive analysis o
 - **PRESENT** insights as if they came from a single, coherent analysis
 - **USE** appropriate formatting (headings, lists, code blocks, diagrams) for clarity
 - **BE THOROUGH** but concise - include all important insights without redundancy
+- **KEEP** citations to reference materials such as [K1.2] wherever the analysis relies on them
 
 **Your task:**
 Take the analytical work that has been done and transform it into a polished, user-focused response that:
@@ -301,6 +480,25 @@ ${analysisResult}
 Now create the final, polished response for the user. Start directly with the answer - no preamble about the process.`;
 };
 
+export function buildKnowledgeContext(chunks: KnowledgeChunk[]): string {
+  return (
+    "Each passage is labelled with an id such as [K1.2]. When you rely on a passage, cite its id in square brackets. " +
+    "If the passage contains a page marker like [Page 3], also note the page number of the information, e.g. [K1.2] (p. 3).\n\n" +
+    chunks
+      .map((chunk) => `### [${chunk.id}] ${chunk.title} ###\n\n${chunk.content}`)
+      .join("\n\n---\n\n")
+  );
+}
+
+export function buildSystemPromptWithKnowledge(knowledgeContext?: string): string {
+  return knowledgeContext
+    ? deepThinkInitialPrompt +
+        "\n\n### Available Knowledge Base ###\n\n" +
+        knowledgeContext +
+        "\n\n### End of Knowledge Base ###\n"
+    : deepThinkInitialPrompt;
+}
+
 export function buildInitialThinkingPrompt(
   problemStatement: string,
   otherPrompts: string[] = [],
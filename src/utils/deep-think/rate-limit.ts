@@ -0,0 +1,111 @@
+import {
+  wrapLanguageModel,
+  APICallError,
+  type LanguageModelV1,
+} from "ai";
+
+export interface RateLimitOptions {
+  /** 遇到 429 后的最大重试次数 */
+  maxRetries?: number;
+  /** 首次退避时间（毫秒），之后按指数增长 */
+  initialDelay?: number;
+  /** 单次退避的最长时间（毫秒） */
+  maxDelay?: number;
+}
+
+function isRateLimitError(error: unknown): error is APICallError {
+  return APICallError.isInstance(error) && error.statusCode === 429;
+}
+
+// 解析 Retry-After 响应头，支持秒数和 HTTP 日期两种格式
+function getRetryAfter(error: APICallError): number | undefined {
+  const headers = error.responseHeaders || {};
+  const value = headers["retry-after"] || headers["Retry-After"];
+  if (!value) return undefined;
+
+  const seconds = Number(value);
+  if (!isNaN(seconds)) return seconds * 1000;
+
+  const date = Date.parse(value);
+  if (!isNaN(date)) return Math.max(date - Date.now(), 0);
+
+  return undefined;
+}
+
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) return reject(signal.reason);
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    function onAbort() {
+      clearTimeout(timer);
+      reject(signal!.reason);
+    }
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+}
+
+/**
+ * 按服务商追踪限流状态：某个服务商返回 429 后，
+ * 同一服务商的所有调用都会等待冷却结束再发起，并以指数退避重试
+ */
+export class ProviderRateLimiter {
+  private options: Required<RateLimitOptions>;
+  private cooldownUntil: Record<string, number> = {};
+
+  constructor(options: RateLimitOptions = {}) {
+    this.options = {
+      maxRetries: 5,
+      initialDelay: 2000,
+      maxDelay: 60000,
+      ...options,
+    };
+  }
+
+  async run<T>(
+    provider: string,
+    fn: () => PromiseLike<T>,
+    signal?: AbortSignal
+  ): Promise<T> {
+    const { maxRetries, initialDelay, maxDelay } = this.options;
+
+    for (let attempt = 0; ; attempt++) {
+      const wait = (this.cooldownUntil[provider] || 0) - Date.now();
+      if (wait > 0) await sleep(wait, signal);
+
+      try {
+        return await fn();
+      } catch (error) {
+        if (!isRateLimitError(error) || attempt >= maxRetries) throw error;
+
+        // 加入随机抖动，避免并发的 agent 同时重试
+        const backoff = initialDelay * 2 ** attempt * (1 + Math.random() * 0.2);
+        const delay = Math.min(getRetryAfter(error) ?? backoff, maxDelay);
+        this.cooldownUntil[provider] = Math.max(
+          this.cooldownUntil[provider] || 0,
+          Date.now() + delay
+        );
+      }
+    }
+  }
+
+  /**
+   * 包装模型，使其所有调用都经过限流器
+   */
+  wrap(model: LanguageModelV1): LanguageModelV1 {
+    // provider 形如 "openai.chat"，取前缀作为服务商标识
+    const provider = model.provider.split(".")[0];
+
+    return wrapLanguageModel({
+      model,
+      middleware: {
+        wrapGenerate: ({ doGenerate, params }) =>
+          this.run(provider, doGenerate, params.abortSignal),
+        wrapStream: ({ doStream, params }) =>
+          this.run(provider, doStream, params.abortSignal),
+      },
+    });
+  }
+}
@@ -0,0 +1,776 @@
+/**
+ * 轻量的 HTML 正文提取与 Markdown 转换，不依赖 DOM，可在 Edge Runtime 中运行
+ */
+
+interface HtmlElement {
+  type: "element";
+  tag: string;
+  attrs: Record<string, string>;
+  children: HtmlNode[];
+}
+
+interface HtmlText {
+  type: "text";
+  text: string;
+}
+
+type HtmlNode = HtmlElement | HtmlText;
+
+export interface ReadableContent {
+  title: string;
+  content: string;
+  author?: string;
+  publishedTime?: string;
+  canonicalUrl?: string;
+  description?: string;
+  siteName?: string;
+  language?: string;
+  // 页面中的所有链接（绝对地址，已去重），用于爬取整站
+  links: string[];
+}
+
+const HTML_ENTITIES: Record<string, string> = {
+  amp: "&",
+  lt: "<",
+  gt: ">",
+  quot: '"',
+  apos: "'",
+  nbsp: " ",
+  ndash: "–",
+  mdash: "—",
+  hellip: "…",
+  lsquo: "‘",
+  rsquo: "’",
+  ldquo: "“",
+  rdquo: "”",
+  copy: "©",
+  reg: "®",
+  trade: "™",
+  middot: "·",
+  times: "×",
+};
+
+const VOID_TAGS = new Set([
+  "area",
+  "base",
+  "br",
+  "col",
+  "embed",
+  "hr",
+  "img",
+  "input",
+  "link",
+  "meta",
+  "param",
+  "source",
+  "track",
+  "wbr",
+]);
+
+// 内容不包含子标签的元素
+const RAW_TEXT_TAGS = new Set(["script", "style", "textarea", "title"]);
+
+// 块级元素会隐式关闭尚未闭合的 p
+const CLOSES_PARAGRAPH = [
+  "address",
+  "article",
+  "aside",
+  "blockquote",
+  "div",
+  "dl",
+  "figure",
+  "footer",
+  "form",
+  "h1",
+  "h2",
+  "h3",
+  "h4",
+  "h5",
+  "h6",
+  "header",
+  "hr",
+  "main",
+  "nav",
+  "ol",
+  "p",
+  "pre",
+  "section",
+  "table",
+  "ul",
+];
+const PARAGRAPH_BOUNDARY = [
+  "div",
+  "section",
+  "article",
+  "blockquote",
+  "td",
+  "th",
+  "li",
+];
+
+// 打开这些标签时会隐式关闭尚未闭合的同类标签，直到遇到边界标签
+const IMPLIED_END_TAGS: Record<string, { closes: string[]; until: string[] }> =
+  {
+    ...Object.fromEntries(
+      CLOSES_PARAGRAPH.map((tag) => [
+        tag,
+        { closes: ["p"], until: PARAGRAPH_BOUNDARY },
+      ])
+    ),
+    li: { closes: ["li"], until: ["ul", "ol"] },
+    dt: { closes: ["dt", "dd"], until: ["dl"] },
+    dd: { closes: ["dt", "dd"], until: ["dl"] },
+    tr: { closes: ["tr", "td", "th"], until: ["table"] },
+    td: { closes: ["td", "th"], until: ["tr", "table"] },
+    th: { closes: ["td", "th"], until: ["tr", "table"] },
+    option: { closes: ["option"], until: ["select"] },
+  };
+
+// 与正文无关的元素，提取前直接移除
+const BOILERPLATE_TAGS = new Set([
+  "script",
+  "style",
+  "noscript",
+  "template",
+  "svg",
+  "canvas",
+  "iframe",
+  "object",
+  "embed",
+  "form",
+  "button",
+  "input",
+  "select",
+  "textarea",
+  "dialog",
+  "link",
+  "meta",
+]);
+
+const CONTAINER_TAGS = new Set(["div", "section", "article", "main", "td"]);
+
+const NEGATIVE_HINTS =
+  /comment|sidebar|footer|\bnav|menu|share|social|related|advert|\bads?\b|banner|cookie|popup|modal|subscribe|newsletter|breadcrumb|pagination|widget|sponsor|promo|toolbar/i;
+const POSITIVE_HINTS = /article|content|main|body|post|entry|text|story/i;
+
+const TOKEN_REGEX =
+  /<!--[\s\S]*?-->|<!\[CDATA\[[\s\S]*?\]\]>|<![^>]*>|<\?[\s\S]*?\?>|<\/([a-zA-Z][\w:-]*)\s*>|<([a-zA-Z][\w:-]*)((?:\s+[^\s"'>/=]+(?:\s*=\s*(?:"[^"]*"|'[^']*'|[^\s"'=<>`]+))?)*)\s*\/?>/g;
+const ATTR_REGEX =
+  /([^\s"'>/=]+)(?:\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s"'=<>`]+)))?/g;
+
+// 结构性缩进和代码块使用占位符，避免在合并空白时被破坏
+const INDENT = "\ue000";
+const CODE_PLACEHOLDER = "\ue001";
+
+export function decodeHtmlEntities(text: string): string {
+  return text.replace(
+    /&(#x[0-9a-f]+|#\d+|[a-z]+);/gi,
+    (entity, code: string) => {
+      if (code[0] === "#") {
+        const value =
+          code[1] === "x" || code[1] === "X"
+            ? parseInt(code.slice(2), 16)
+            : parseInt(code.slice(1), 10);
+        return isNaN(value) || value > 0x10ffff
+          ? entity
+          : String.fromCodePoint(value);
+      }
+      return HTML_ENTITIES[code.toLowerCase()] ?? entity;
+    }
+  );
+}
+
+function parseAttributes(source: string): Record<string, string> {
+  const attrs: Record<string, string> = {};
+  for (const match of source.matchAll(ATTR_REGEX)) {
+    const value = match[2] ?? match[3] ?? match[4] ?? "";
+    attrs[match[1].toLowerCase()] = decodeHtmlEntities(value);
+  }
+  return attrs;
+}
+
+/**
+ * 容错解析 HTML，处理自闭合标签、隐式闭合和未闭合的标签
+ */
+function parseHtml(html: string): HtmlElement {
+  const root: HtmlElement = {
+    type: "element",
+    tag: "#root",
+    attrs: {},
+    children: [],
+  };
+  const stack: HtmlElement[] = [root];
+  const current = () => stack[stack.length - 1];
+  const appendText = (text: string) => {
+    if (text) current().children.push({ type: "text", text });
+  };
+
+  TOKEN_REGEX.lastIndex = 0;
+  let lastIndex = 0;
+  let match: RegExpExecArray | null;
+  while ((match = TOKEN_REGEX.exec(html))) {
+    appendText(decodeHtmlEntities(html.slice(lastIndex, match.index)));
+    lastIndex = TOKEN_REGEX.lastIndex;
+
+    const [token, closeTag, openTag, attrSource = ""] = match;
+    if (closeTag) {
+      const tag = closeTag.toLowerCase();
+      const idx = stack.findLastIndex((item) => item.tag === tag);
+      if (idx > 0) stack.length = idx;
+    } else if (openTag) {
+      const tag = openTag.toLowerCase();
+      const rule = IMPLIED_END_TAGS[tag];
+      if (rule) {
+        for (let i = stack.length - 1; i > 0; i--) {
+          if (rule.until.includes(stack[i].tag)) break;
+          if (rule.closes.includes(stack[i].tag)) {
+            stack.length = i;
+            break;
+          }
+        }
+      }
+      const element: HtmlElement = {
+        type: "element",
+        tag,
+        attrs: parseAttributes(attrSource),
+        children: [],
+      };
+      current().children.push(element);
+
+      if (RAW_TEXT_TAGS.has(tag)) {
+        const end = html
+          .toLowerCase()
+          .indexOf(`</${tag}`, TOKEN_REGEX.lastIndex);
+        const stop = end === -1 ? html.length : end;
+        const text = html.slice(TOKEN_REGEX.lastIndex, stop);
+        element.children.push({
+          type: "text",
+          text:
+            tag === "script" || tag === "style"
+              ? text
+              : decodeHtmlEntities(text),
+        });
+        const close = html.indexOf(">", stop);
+        lastIndex = close === -1 ? html.length : close + 1;
+        TOKEN_REGEX.lastIndex = lastIndex;
+      } else if (!VOID_TAGS.has(tag) && !token.endsWith("/>")) {
+        stack.push(element);
+      }
+    }
+  }
+  appendText(decodeHtmlEntities(html.slice(lastIndex)));
+  return root;
+}
+
+function* walk(node: HtmlElement): Generator<HtmlElement> {
+  for (const child of node.children) {
+    if (child.type === "element") {
+      yield child;
+      yield* walk(child);
+    }
+  }
+}
+
+function findAll(node: HtmlElement, predicate: (el: HtmlElement) => boolean) {
+  const result: HtmlElement[] = [];
+  for (const el of walk(node)) {
+    if (predicate(el)) result.push(el);
+  }
+  return result;
+}
+
+function getText(node: HtmlNode): string {
+  if (node.type === "text") return node.text;
+  return node.children.map(getText).join("");
+}
+
+function getTextLength(node: HtmlNode): number {
+  return getText(node).replace(/\s+/g, " ").trim().length;
+}
+
+function getLinkDensity(el: HtmlElement): number {
+  const length = getTextLength(el);
+  if (length === 0) return 0;
+  const linkLength = findAll(el, (item) => item.tag === "a").reduce(
+    (sum, link) => sum + getTextLength(link),
+    0
+  );
+  return linkLength / length;
+}
+
+function getHints(el: HtmlElement) {
+  return `${el.attrs.class || ""} ${el.attrs.id || ""} ${el.attrs.role || ""}`;
+}
+
+function isHidden(el: HtmlElement) {
+  return (
+    "hidden" in el.attrs ||
+    el.attrs["aria-hidden"] === "true" ||
+    /display\s*:\s*none|visibility\s*:\s*hidden/i.test(el.attrs.style || "")
+  );
+}
+
+function removeNodes(
+  node: HtmlElement,
+  predicate: (el: HtmlElement) => boolean
+) {
+  node.children = node.children.filter(
+    (child) => child.type === "text" || !predicate(child)
+  );
+  for (const child of node.children) {
+    if (child.type === "element") removeNodes(child, predicate);
+  }
+}
+
+function resolveUrl(url: string, baseUrl?: string): string {
+  try {
+    return new URL(url, baseUrl).toString();
+  } catch {
+    return url;
+  }
+}
+
+function extractMetadata(root: HtmlElement, url?: string) {
+  const meta: Record<string, string> = {};
+  for (const el of findAll(root, (item) => item.tag === "meta")) {
+    const key = (
+      el.attrs.property ||
+      el.attrs.name ||
+      el.attrs.itemprop ||
+      ""
+    ).toLowerCase();
+    if (key && el.attrs.content && !meta[key]) meta[key] = el.attrs.content;
+  }
+
+  // 结构化数据（JSON-LD）中的作者与发布时间
+  let jsonLd: Record<string, any> = {};
+  for (const el of findAll(
+    root,
+    (item) =>
+      item.tag === "script" && item.attrs.type === "application/ld+json"
+  )) {
+    try {
+      const data = JSON.parse(getText(el));
+      const items: Record<string, any>[] = Array.isArray(data)
+        ? data
+        : data["@graph"] || [data];
+      const article = items.find(
+        (item) => item && (item.datePublished || item.author)
+      );
+      if (article) {
+        jsonLd = article;
+        break;
+      }
+    } catch {
+      // 忽略格式错误的结构化数据
+    }
+  }
+  const jsonLdAuthor = [jsonLd.author]
+    .flat()
+    .map((author) => (typeof author === "string" ? author : author?.name))
+    .filter(Boolean)
+    .join(", ");
+
+  const titleElement = findAll(root, (item) => item.tag === "title")[0];
+  const h1 = findAll(root, (item) => item.tag === "h1")[0];
+  const authorElement = findAll(
+    root,
+    (item) => item.attrs.rel === "author" || item.attrs.itemprop === "author"
+  )[0];
+  const timeElement = findAll(
+    root,
+    (item) => item.tag === "time" && !!item.attrs.datetime
+  )[0];
+  const canonicalElement = findAll(
+    root,
+    (item) =>
+      item.tag === "link" &&
+      (item.attrs.rel || "").toLowerCase().split(/\s+/).includes("canonical")
+  )[0];
+  const baseElement = findAll(root, (item) => item.tag === "base")[0];
+  const htmlElement = findAll(root, (item) => item.tag === "html")[0];
+
+  const clean = (value?: string) =>
+    value ? value.replace(/\s+/g, " ").trim() || undefined : undefined;
+  const canonical = canonicalElement?.attrs.href || meta["og:url"];
+
+  return {
+    title:
+      clean(meta["og:title"]) ||
+      clean(meta["twitter:title"]) ||
+      clean(titleElement && getText(titleElement)) ||
+      clean(h1 && getText(h1)) ||
+      "",
+    author: clean(
+      meta["author"] ||
+        meta["article:author"] ||
+        meta["parsely-author"] ||
+        meta["dc.creator"] ||
+        jsonLdAuthor ||
+        (authorElement && getText(authorElement))
+    ),
+    publishedTime: clean(
+      meta["article:published_time"] ||
+        meta["datepublished"] ||
+        meta["pubdate"] ||
+        meta["publishdate"] ||
+        meta["dc.date"] ||
+        meta["date"] ||
+        jsonLd.datePublished ||
+        timeElement?.attrs.datetime
+    ),
+    canonicalUrl: canonical ? resolveUrl(canonical, url) : undefined,
+    description: clean(meta["description"] || meta["og:description"]),
+    siteName: clean(meta["og:site_name"]),
+    language: clean(htmlElement?.attrs.lang),
+    baseUrl: baseElement?.attrs.href
+      ? resolveUrl(baseElement.attrs.href, url)
+      : url,
+  };
+}
+
+/**
+ * 查找正文所在的元素：优先使用 article / main 等语义标签，
+ * 否则按段落文本量、链接密度和 class/id 特征为容器打分
+ */
+function findMainContent(body: HtmlElement): HtmlElement {
+  const articles = findAll(body, (el) => el.tag === "article").filter(
+    (el) => getTextLength(el) >= 200
+  );
+  if (articles.length > 0) {
+    return articles.reduce((a, b) =>
+      getTextLength(b) > getTextLength(a) ? b : a
+    );
+  }
+  const main = findAll(
+    body,
+    (el) => el.tag === "main" || el.attrs.role === "main"
+  ).find((el) => getTextLength(el) >= 200);
+  if (main) return main;
+
+  const scores = new Map<HtmlElement, number>();
+  const visit = (el: HtmlElement, ancestors: HtmlElement[]) => {
+    if (["p", "pre", "blockquote"].includes(el.tag)) {
+      const length = getTextLength(el);
+      if (length >= 25) {
+        const text = getText(el);
+        const commas = (text.match(/[,，、]/g) || []).length;
+        const score = 1 + commas + Math.min(length / 100, 3);
+        const containers = ancestors
+          .filter((item) => CONTAINER_TAGS.has(item.tag))
+          .slice(-2)
+          .reverse();
+        containers.forEach((container, level) => {
+          scores.set(
+            container,
+            (scores.get(container) || 0) + (level === 0 ? score : score / 2)
+          );
+        });
+      }
+    }
+    for (const child of el.children) {
+      if (child.type === "element") visit(child, [...ancestors, el]);
+    }
+  };
+  visit(body, []);
+
+  let best: HtmlElement = body;
+  let bestScore = 0;
+  for (const [el, score] of scores) {
+    const hints = getHints(el);
+    let weight = 0;
+    if (POSITIVE_HINTS.test(hints)) weight += 25;
+    if (NEGATIVE_HINTS.test(hints)) weight -= 25;
+    const finalScore = (score + weight) * (1 - getLinkDensity(el));
+    if (finalScore > bestScore) {
+      best = el;
+      bestScore = finalScore;
+    }
+  }
+  return best;
+}
+
+// 移除正文中的导航、侧边栏、分享按钮等模板内容
+function removeBoilerplate(content: HtmlElement) {
+  removeNodes(content, (el) => {
+    if (["nav", "aside", "footer"].includes(el.tag)) return true;
+    if (el.tag === "header") {
+      return !findAll(el, (item) => item.tag === "h1").length;
+    }
+    const hints = getHints(el);
+    if (NEGATIVE_HINTS.test(hints) && !POSITIVE_HINTS.test(hints)) {
+      return true;
+    }
+    if (["div", "section", "ul"].includes(el.tag)) {
+      const length = getTextLength(el);
+      return length > 0 && length < 200 && getLinkDensity(el) > 0.5;
+    }
+    return false;
+  });
+}
+
+class MarkdownRenderer {
+  private codeBlocks: string[] = [];
+  private baseUrl?: string;
+
+  constructor(baseUrl?: string) {
+    this.baseUrl = baseUrl;
+  }
+
+  render(node: HtmlElement): string {
+    const markdown = this.renderChildren(node)
+      .split("\n")
+      .map((line) => line.replace(/\s+/g, " ").trim())
+      .join("\n")
+      .replace(/\n{3,}/g, "\n\n")
+      .trim();
+    return markdown
+      .replaceAll(INDENT, "  ")
+      .replace(
+        new RegExp(`${CODE_PLACEHOLDER}(\\d+)${CODE_PLACEHOLDER}`, "g"),
+        (_, idx) => this.codeBlocks[Number(idx)]
+      );
+  }
+
+  private renderChildren(el: HtmlElement): string {
+    return el.children.map((child) => this.renderNode(child)).join("");
+  }
+
+  private renderInline(el: HtmlElement): string {
+    return this.renderChildren(el).replace(/\s+/g, " ").trim();
+  }
+
+  private block(content: string): string {
+    return content.trim() ? `\n\n${content.trim()}\n\n` : "";
+  }
+
+  // 标记内侧不能有空白，原有的首尾空白移到标记外侧
+  private wrap(el: HtmlElement, mark: string): string {
+    const raw = this.renderChildren(el);
+    const content = raw.replace(/\s+/g, " ").trim();
+    if (!content) return raw.trim() ? "" : raw;
+    const leading = /^\s/.test(raw) ? " " : "";
+    const trailing = /\s$/.test(raw) ? " " : "";
+    return `${leading}${mark}${content}${mark}${trailing}`;
+  }
+
+  private renderNode(node: HtmlNode): string {
+    if (node.type === "text") return node.text.replace(/\s+/g, " ");
+    if (BOILERPLATE_TAGS.has(node.tag) || isHidden(node)) return "";
+
+    const { tag, attrs } = node;
+    switch (tag) {
+      case "h1":
+      case "h2":
+      case "h3":
+      case "h4":
+      case "h5":
+      case "h6": {
+        const content = this.renderInline(node);
+        if (!content) return "";
+        return this.block(`${"#".repeat(Number(tag[1]))} ${content}`);
+      }
+      case "br":
+        return "\n";
+      case "hr":
+        return "\n\n---\n\n";
+      case "a": {
+        const content = this.renderInline(node);
+        const href = attrs.href || "";
+        if (!content) return "";
+        if (!href || href.startsWith("#") || /^javascript:/i.test(href)) {
+          return content;
+        }
+        return `[${content}](${resolveUrl(href, this.baseUrl)})`;
+      }
+      case "img": {
+        const src =
+          attrs["data-src"] ||
+          attrs["data-original"] ||
+          attrs.src ||
+          (attrs.srcset || "").split(/\s+/)[0];
+        if (!src || src.startsWith("data:")) return "";
+        const alt = (attrs.alt || "").replace(/\s+/g, " ").trim();
+        return `![${alt}](${resolveUrl(src, this.baseUrl)})`;
+      }
+      case "strong":
+      case "b":
+        return this.wrap(node, "**");
+      case "em":
+      case "i":
+        return this.wrap(node, "*");
+      case "del":
+      case "s":
+        return this.wrap(node, "~~");
+      case "code": {
+        const content = getText(node).replace(/\s+/g, " ").trim();
+        if (!content) return "";
+        const fence = content.includes("`") ? "``" : "`";
+        return `${fence}${content}${fence}`;
+      }
+      case "pre":
+        return this.renderCodeBlock(node);
+      case "blockquote": {
+        const content = this.renderChildren(node)
+          .replace(/[ \t]*\n[ \t]*/g, "\n")
+          .replace(/\n{3,}/g, "\n\n")
+          .trim();
+        if (!content) return "";
+        return this.block(
+          content
+            .split("\n")
+            .map((line) => `> ${line}`)
+            .join("\n")
+        );
+      }
+      case "ul":
+      case "ol":
+        return this.renderList(node);
+      case "table":
+        return this.renderTable(node);
+      case "dt":
+        return this.block(this.wrap(node, "**"));
+      case "p":
+      case "div":
+      case "section":
+      case "article":
+      case "main":
+      case "header":
+      case "figure":
+      case "figcaption":
+      case "details":
+      case "summary":
+      case "dl":
+      case "dd":
+      case "address":
+        return this.block(this.renderChildren(node));
+      default:
+        return this.renderChildren(node);
+    }
+  }
+
+  private renderCodeBlock(el: HtmlElement): string {
+    const code = findAll(el, (item) => item.tag === "code")[0];
+    const className = `${el.attrs.class || ""} ${code?.attrs.class || ""}`;
+    const language = className.match(/(?:language|lang)-([\w+#-]+)/)?.[1] || "";
+    const content = getText(el).replace(/^\n+|\s+$/g, "");
+    if (!content) return "";
+    const fence = content.includes("```") ? "````" : "```";
+    this.codeBlocks.push(`${fence}${language}\n${content}\n${fence}`);
+    return this.block(
+      `${CODE_PLACEHOLDER}${this.codeBlocks.length - 1}${CODE_PLACEHOLDER}`
+    );
+  }
+
+  private renderList(el: HtmlElement): string {
+    const ordered = el.tag === "ol";
+    let index = Number(el.attrs.start) || 1;
+    const items = el.children
+      .filter(
+        (child): child is HtmlElement =>
+          child.type === "element" && child.tag === "li"
+      )
+      .map((item) => {
+        const lines = this.renderChildren(item)
+          .split("\n")
+          .map((line) => line.replace(/\s+/g, " ").trim())
+          .filter(Boolean);
+        if (lines.length === 0) return "";
+        const marker = ordered ? `${index++}.` : "-";
+        return lines
+          .map((line, idx) =>
+            idx === 0 ? `${marker} ${line}` : `${INDENT}${line}`
+          )
+          .join("\n");
+      })
+      .filter(Boolean);
+    return items.length > 0 ? this.block(items.join("\n")) : "";
+  }
+
+  private renderTable(el: HtmlElement): string {
+    // 只处理当前表格的行，不包括嵌套表格中的行
+    const rows: HtmlElement[] = [];
+    const collectRows = (node: HtmlElement) => {
+      for (const child of node.children) {
+        if (child.type !== "element") continue;
+        if (child.tag === "tr") rows.push(child);
+        else if (["thead", "tbody", "tfoot"].includes(child.tag)) {
+          collectRows(child);
+        }
+      }
+    };
+    collectRows(el);
+
+    const cells = rows
+      .map((row) =>
+        row.children
+          .filter(
+            (child): child is HtmlElement =>
+              child.type === "element" && ["td", "th"].includes(child.tag)
+          )
+          .flatMap((cell) => {
+            const content = this.renderInline(cell)
+              .replaceAll(INDENT, "")
+              .replaceAll("|", "\\|");
+            const colspan = Math.min(Number(cell.attrs.colspan) || 1, 20);
+            return [content, ...new Array(colspan - 1).fill("")];
+          })
+      )
+      .filter((row) => row.some(Boolean));
+    if (cells.length === 0) return "";
+
+    // 单列表格多用于排版，直接按段落输出
+    const columns = Math.max(...cells.map((row) => row.length));
+    if (columns === 1) {
+      return this.block(cells.map((row) => row[0]).join("\n\n"));
+    }
+
+    const formatRow = (row: string[]) =>
+      `| ${Array.from({ length: columns }, (_, idx) => row[idx] || "").join(
+        " | "
+      )} |`;
+    const [header, ...body] = cells;
+    return this.block(
+      [
+        formatRow(header),
+        `| ${new Array(columns).fill("---").join(" | ")} |`,
+        ...body.map(formatRow),
+      ].join("\n")
+    );
+  }
+}
+
+/**
+ * 提取网页正文并转换为 Markdown，同时返回作者、发布时间、规范链接等元数据
+ */
+export function extractReadableContent(
+  html: string,
+  url?: string
+): ReadableContent {
+  const root = parseHtml(html);
+  const { baseUrl, ...metadata } = extractMetadata(root, url);
+
+  const body = findAll(root, (el) => el.tag === "body")[0] || root;
+  // 在移除导航等内容之前收集链接，导航通常包含站点的大部分页面
+  const links = new Set<string>();
+  for (const el of findAll(body, (item) => item.tag === "a")) {
+    const href = el.attrs.href;
+    if (!href || href.startsWith("#")) continue;
+    const link = resolveUrl(href, baseUrl);
+    if (/^https?:/i.test(link)) links.add(link.split("#")[0]);
+  }
+  removeNodes(
+    body,
+    (el) => BOILERPLATE_TAGS.has(el.tag) || isHidden(el)
+  );
+  const main = findMainContent(body);
+  removeBoilerplate(main);
+
+  let content = new MarkdownRenderer(baseUrl).render(main);
+  // 正文识别失败时退回到整个页面
+  if (main !== body && content.length < 200) {
+    content = new MarkdownRenderer(baseUrl).render(body);
+  }
+
+  return { ...metadata, content, links: Array.from(links) };
+}
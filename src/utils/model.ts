@@ -140,3 +140,34 @@ export function getCustomModelList(customModelList: string[]) {
   });
   return { availableModelList, disabledModelList };
 }
+
+const AIProviders = [
+  "google",
+  "openai",
+  "anthropic",
+  "deepseek",
+  "xai",
+  "mistral",
+  "openaicompatible",
+  "pollinations",
+  "azure",
+  "google-vertex",
+  "openrouter",
+  "ollama",
+];
+
+/**
+ * 解析 `provider:model` 格式的模型名称，前缀不是服务商时整体作为模型名称，
+ * 例如 `llama3:8b` 和 `deepseek/deepseek-r1:free`
+ */
+export function parseProviderModel(value: string): {
+  provider?: string;
+  model: string;
+} {
+  const idx = value.indexOf(":");
+  const provider = value.slice(0, idx);
+  if (idx > 0 && AIProviders.includes(provider)) {
+    return { provider, model: value.slice(idx + 1) };
+  }
+  return { model: value };
+}
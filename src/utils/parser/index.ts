@@ -1,4 +1,5 @@
 import { readTextFromFile } from "./textParser";
+import { isDelimitedTextFile, readTextFromCSV } from "./tableParser";
 
 const TextFormatFileMimeTypes = [
   "application/json",
@@ -22,7 +23,9 @@ const TextFormatFileMimeTypes = [
 ];
 
 export async function fileParser(file: File): Promise<string> {
-  if (
+  if (isDelimitedTextFile(file)) {
+    return await readTextFromCSV(file);
+  } else if (
     file.type.startsWith("text/") ||
     TextFormatFileMimeTypes.includes(file.type)
   ) {
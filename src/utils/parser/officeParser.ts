@@ -2,6 +2,7 @@
  * Modified from https://github.com/harshankur/officeParser
  */
 import { ZipReader, BlobReader, BlobWriter, type Entry } from "@zip.js/zip.js";
+import { sheetsToMarkdown, type TableSheet } from "./tableParser";
 
 /**
  * Resolves to an array of object
@@ -137,6 +138,133 @@ function extractFiles(
   });
 }
 
+/** Get elements by their local name, the namespace prefix of spreadsheet xml differs between generators */
+function getElements(node: Document | Element, localName: string) {
+  return Array.from(node.getElementsByTagNameNS("*", localName));
+}
+
+/** Join the text of all t nodes inside a rich text node, ignoring the phonetic hints inside rPh nodes */
+function getInlineText(node: Element) {
+  return getElements(node, "t")
+    .filter((tNode) => tNode.parentElement?.localName != "rPh")
+    .map((tNode) => tNode.textContent ?? "")
+    .join("");
+}
+
+/** Convert the column letters of a cell reference like "AB12" to a 1-based column index */
+function getColumnIndex(cellRef: string) {
+  const letters = cellRef.replace(/[^A-Z]/gi, "").toUpperCase();
+  let index = 0;
+  for (const letter of letters) {
+    index = index * 26 + letter.charCodeAt(0) - 64;
+  }
+  return index;
+}
+
+/** Built-in excel number formats that display a date or time */
+const excelDateFormatIds = [
+  14, 15, 16, 17, 18, 19, 20, 21, 22, 27, 28, 29, 30, 31, 32, 33, 34, 35, 36,
+  45, 46, 47, 50, 51, 52, 53, 54, 55, 56, 57, 58,
+];
+
+function isDateFormatCode(formatCode: string) {
+  // Ignore quoted text, escaped characters and [Red] like sections
+  const code = formatCode.replace(/"[^"]*"|\\.|\[[^\]]*\]/g, "");
+  return /[dmyhs]/i.test(code);
+}
+
+/** Excel stores dates as the number of days since 1899-12-30 (or 1904-01-01) */
+function formatExcelDate(serial: number, date1904 = false) {
+  const epoch = date1904 ? Date.UTC(1904, 0, 1) : Date.UTC(1899, 11, 30);
+  const date = new Date(epoch + Math.round(serial * 86400) * 1000);
+  const [day, time] = date.toISOString().slice(0, 19).split("T");
+  if (serial < 1) return time;
+  return Number.isInteger(serial) ? day : `${day} ${time}`;
+}
+
+async function parseWorkbook(
+  files: ExtractedFiles[],
+  sheetFiles: ExtractedFiles[]
+) {
+  async function getXml(filename: string) {
+    const file = files.find((item) => item.filename == filename);
+    return file ? parseXMLString(await file.data.text()) : undefined;
+  }
+  const workbookXml = await getXml("xl/workbook.xml");
+  const relsXml = await getXml("xl/_rels/workbook.xml.rels");
+  const stylesXml = await getXml("xl/styles.xml");
+
+  /** Map of relationship ids to the sheet xml file paths */
+  const targets = new Map<string, string>();
+  if (relsXml) {
+    for (const relNode of getElements(relsXml, "Relationship")) {
+      const target = relNode.getAttribute("Target") ?? "";
+      targets.set(
+        relNode.getAttribute("Id") ?? "",
+        target.startsWith("/") ? target.slice(1) : `xl/${target}`
+      );
+    }
+  }
+
+  const sheets: { name: string; file: ExtractedFiles }[] = [];
+  if (workbookXml) {
+    for (const sheetNode of getElements(workbookXml, "sheet")) {
+      const relId = Array.from(sheetNode.attributes).find(
+        (attr) => attr.localName == "id"
+      )?.value;
+      const sheetFile = sheetFiles.find(
+        (file) => file.filename == targets.get(relId ?? "")
+      );
+      if (sheetFile) {
+        sheets.push({
+          name: sheetNode.getAttribute("name") ?? "",
+          file: sheetFile,
+        });
+      }
+    }
+  }
+  // Fall back to the sheet files in numeric order if the workbook can not be read
+  if (sheets.length == 0) {
+    const getSheetNumber = (file: ExtractedFiles) =>
+      parseInt(file.filename.replace(/\D/g, ""), 10);
+    [...sheetFiles]
+      .sort((a, b) => getSheetNumber(a) - getSheetNumber(b))
+      .forEach((file) =>
+        sheets.push({ name: `Sheet${getSheetNumber(file)}`, file })
+      );
+  }
+
+  const workbookPrNode = workbookXml
+    ? getElements(workbookXml, "workbookPr")[0]
+    : undefined;
+  const date1904 = ["1", "true"].includes(
+    workbookPrNode?.getAttribute("date1904") ?? ""
+  );
+
+  /** Indexes of the cell styles that use a date format */
+  const dateStyles = new Set<number>();
+  if (stylesXml) {
+    const customDateFormatIds = getElements(stylesXml, "numFmt")
+      .filter((numFmtNode) =>
+        isDateFormatCode(numFmtNode.getAttribute("formatCode") ?? "")
+      )
+      .map((numFmtNode) => Number(numFmtNode.getAttribute("numFmtId")));
+    const cellXfsNode = getElements(stylesXml, "cellXfs")[0];
+    if (cellXfsNode) {
+      getElements(cellXfsNode, "xf").forEach((xfNode, index) => {
+        const numFmtId = Number(xfNode.getAttribute("numFmtId") ?? "0");
+        if (
+          excelDateFormatIds.includes(numFmtId) ||
+          customDateFormatIds.includes(numFmtId)
+        )
+          dateStyles.add(index);
+      });
+    }
+  }
+
+  return { sheets, date1904, dateStyles };
+}
+
 export function parseWord(
   file: File,
   config: Partial<OfficeParserConfig>
@@ -348,6 +476,13 @@ export function parseExcel(
   const drawingsRegex = /xl\/drawings\/drawing\d+.xml/g;
   const chartsRegex = /xl\/charts\/chart\d+.xml/g;
   const stringsFilePath = "xl/sharedStrings.xml";
+  const workbookFilePaths = [
+    "xl/workbook.xml",
+    "xl/_rels/workbook.xml.rels",
+    "xl/styles.xml",
+  ];
+  /** Workbook files are only used to structure the text output */
+  let workbookFiles: ExtractedFiles[] = [];
 
   return new Promise((resolve, reject) => {
     extractFiles(
@@ -355,9 +490,14 @@ export function parseExcel(
       (x) =>
         [sheetsRegex, drawingsRegex, chartsRegex].some((fileRegex) =>
           x.match(fileRegex)
-        ) || x == stringsFilePath
+        ) ||
+        x == stringsFilePath ||
+        workbookFilePaths.includes(x)
     )
       .then((files: ExtractedFiles[]) => {
+        workbookFiles = files.filter((file) =>
+          workbookFilePaths.includes(file.filename)
+        );
         // Verify if atleast the slides xml files exist in the extracted files list.
         if (
           files.length == 0 ||
@@ -390,6 +530,8 @@ export function parseExcel(
       // If the "t" attribute of c tag is "s", then we use the value to select value from sharedStrings array with the value as its index.
       // However, if the "t" attribute of c tag is "inlineStr", strings can be inline inside "is"(probably inside String) > "t".
       // We extract either the inline strings or use the value to get numbers of text from shared strings.
+      // The "r" attribute of c tag (like "C5") tells which column the cell belongs to, so that empty cells do not shift the values of a row.
+      // Sheet names and their xml files are listed in workbook.xml and its rels file. Number cells are dates if their "s" (style) points to a date format in styles.xml.
       // Drawing files contain all text for each drawing and have text nodes in a:t and paragraph nodes in a:p.
       // ******************************************************************************************************
       .then(async (xmlContentFilesObject) => {
@@ -411,95 +553,88 @@ export function parseExcel(
         /** Store all the text content to respond */
         const responseText: string[] = [];
 
-        /** Function to check if the given c node is a valid inline string node. */
-        function isValidInlineStringCNode(cNode: Element) {
-          // Initial check to see if the passed node is a cNode
-          if (cNode.tagName.toLowerCase() != "c") return false;
-          if (cNode.getAttribute("t") != "inlineStr") return false;
-          const childNodesNamedIs = cNode.getElementsByTagName("is");
-          if (childNodesNamedIs.length != 1) return false;
-          const childNodesNamedT =
-            childNodesNamedIs[0].getElementsByTagName("t");
-          if (childNodesNamedT.length != 1) return false;
-          return (
-            childNodesNamedT[0].childNodes[0] &&
-            childNodesNamedT[0].childNodes[0].nodeValue != ""
-          );
-        }
-
-        /** Function to check if the given c node has a valid v node */
-        function hasValidVNodeInCNode(cNode: Element) {
-          return (
-            cNode.getElementsByTagName("v")[0] &&
-            cNode.getElementsByTagName("v")[0].childNodes[0] &&
-            cNode.getElementsByTagName("v")[0].childNodes[0].nodeValue != ""
-          );
-        }
-
-        /** Find text nodes with t tags in sharedStrings xml file. If the sharedStringsFile is not present, we return an empty array. */
-        const sharedStringsXmlTNodesList =
-          xmlContentFilesObject.sharedStringsFile != undefined
-            ? parseXMLString(
+        /** Shared strings may contain rich text runs, so we join all t nodes inside each si node. Phonetic hints in rPh nodes are ignored. */
+        const sharedStrings = xmlContentFilesObject.sharedStringsFile
+          ? getElements(
+              parseXMLString(
                 await xmlContentFilesObject.sharedStringsFile.data.text()
-              ).getElementsByTagName("t")
-            : [];
-        /** Create shared string array. This will be used as a map to get strings from within sheet files. */
-        const sharedStrings = Array.from(sharedStringsXmlTNodesList).map(
-          (tNode) => tNode.childNodes[0]?.nodeValue ?? ""
+              ),
+              "si"
+            ).map((siNode) => getInlineText(siNode))
+          : [];
+
+        /** Workbook settings, sheet names and the number formats that indicate a cell holds a date. */
+        const workbook = await parseWorkbook(
+          workbookFiles,
+          xmlContentFilesObject.sheetFiles
         );
 
-        // Parse Sheet files
-        for await (const sheetFile of xmlContentFilesObject.sheetFiles) {
-          const sheetXmlContent = await sheetFile.data.text();
-          /** Find text nodes with c tags in sharedStrings xml file */
-          const sheetsXmlCNodesList =
-            parseXMLString(sheetXmlContent).getElementsByTagName("c");
-          // Traverse through the nodes list and fill responseText with either the number value in its v node or find a mapped string from sharedStrings or an inline string.
-          responseText.push(
-            Array.from(sheetsXmlCNodesList)
-              // Filter out invalid c nodes
-              .filter(
-                (cNode) =>
-                  isValidInlineStringCNode(cNode) || hasValidVNodeInCNode(cNode)
-              )
-              .map((cNode) => {
-                // Processing if this is a valid inline string c node.
-                if (isValidInlineStringCNode(cNode))
-                  return cNode
-                    .getElementsByTagName("is")[0]
-                    .getElementsByTagName("t")[0].childNodes[0].nodeValue;
-
-                // Processing if this c node has a valid v node.
-                if (hasValidVNodeInCNode(cNode)) {
-                  /** Flag whether this node's value represents an index in the shared string array */
-                  const isIndexInSharedStrings = cNode.getAttribute("t") == "s";
-
-                  /** Find value nodes represented by v tags */
-                  const cNodeValue =
-                    cNode.getElementsByTagName("v")[0].childNodes[0].nodeValue;
-                  if (cNodeValue) {
-                    const value = parseInt(cNodeValue, 10);
-                    // Validate text
-                    if (isIndexInSharedStrings && value >= sharedStrings.length)
-                      handleError(
-                        ERRORMSG.fileCorrupted(file.name),
-                        config.outputErrorToConsole
-                      );
-
-                    return isIndexInSharedStrings
-                      ? sharedStrings[value]
-                      : value;
-                  }
-                }
-                // TODO: Add debug asserts for if we reach here which would mean we are filtering more items than we are processing.
-                // Not the case now but it could happen and it is better to be safe.
-                return "";
-              })
-              // Join each cell text within a sheet with a space.
-              .join(config.newlineDelimiter ?? "\n")
-          );
+        /** Function to get the text value of a c node. */
+        function getCellValue(cNode: Element) {
+          const type = cNode.getAttribute("t");
+          if (type == "inlineStr") {
+            const isNode = getElements(cNode, "is")[0];
+            return isNode ? getInlineText(isNode) : "";
+          }
+
+          const value = getElements(cNode, "v")[0]?.textContent ?? "";
+          if (value == "") return "";
+          switch (type) {
+            case "s": {
+              const index = parseInt(value, 10);
+              // Validate text
+              if (isNaN(index) || index >= sharedStrings.length)
+                handleError(
+                  ERRORMSG.fileCorrupted(file.name),
+                  config.outputErrorToConsole
+                );
+              return sharedStrings[index];
+            }
+            case "b":
+              return value == "1" ? "TRUE" : "FALSE";
+            case "str":
+            case "e":
+            case "d":
+              return value;
+            default: {
+              const number = Number(value);
+              if (isNaN(number)) return value;
+              const style = parseInt(cNode.getAttribute("s") ?? "0", 10);
+              if (workbook.dateStyles.has(style))
+                return formatExcelDate(number, workbook.date1904);
+              // Remove floating point noise such as 0.30000000000000004
+              return String(parseFloat(number.toPrecision(15)));
+            }
+          }
         }
 
+        // Parse Sheet files into tables, using the cell references to keep every value in its row and column.
+        const sheets: TableSheet[] = [];
+        for await (const sheet of workbook.sheets) {
+          const sheetXmlContent = await sheet.file.data.text();
+          const rows: string[][] = [];
+          for (const rowNode of getElements(
+            parseXMLString(sheetXmlContent),
+            "row"
+          )) {
+            const row: string[] = [];
+            let columnIndex = 0;
+            for (const cNode of getElements(rowNode, "c")) {
+              const cellRef = cNode.getAttribute("r");
+              columnIndex = cellRef
+                ? getColumnIndex(cellRef)
+                : columnIndex + 1;
+              const value = getCellValue(cNode);
+              if (value != "") row[columnIndex - 1] = value;
+            }
+            // Empty rows are skipped, they carry no data for the table
+            if (row.length > 0)
+              rows.push(Array.from(row, (cell) => cell ?? ""));
+          }
+          sheets.push({ name: sheet.name, rows });
+        }
+        responseText.push(sheetsToMarkdown(sheets));
+
         // Parse Drawing files
         for await (const drawingFile of xmlContentFilesObject.drawingFiles) {
           const drawingXmlContent = await drawingFile.data.text();
@@ -717,6 +852,84 @@ export function parseOpenOffice(
   });
 }
 
+export function parseOpenOfficeSpreadsheet(
+  file: File,
+  config: Partial<OfficeParserConfig>
+): Promise<string | File> {
+  if (config.type === "file") return parseOpenOffice(file, config);
+
+  /** The target content xml file for the openoffice file. */
+  const mainContentFilePath = "content.xml";
+
+  return new Promise((resolve, reject) => {
+    extractFiles(file, (x) => x == mainContentFilePath)
+      .then(async (files) => {
+        // Verify if atleast the content xml file exists in the extracted files list.
+        if (files.length == 0)
+          handleError(
+            ERRORMSG.fileCorrupted(file.name),
+            config.outputErrorToConsole
+          );
+
+        // ********************************** ods xml files explanation *****************************************
+        // Each sheet is a table:table tag with its name in the table:name attribute.
+        // Rows are table:table-row tags and cells are table:table-cell or table:covered-table-cell (merged) tags.
+        // Repeated rows and cells are stored once with a table:number-rows-repeated or table:number-columns-repeated attribute.
+        // Empty trailing rows and cells are often repeated up to the sheet limits, so we only expand repeats followed by content.
+        // The displayed text of a cell is inside text:p tags.
+        // ******************************************************************************************************
+        const xmlContent = parseXMLString(await files[0].data.text());
+        const sheets: TableSheet[] = Array.from(
+          xmlContent.getElementsByTagName("table:table")
+        ).map((tableNode) => {
+          const rows: string[][] = [];
+          for (const rowNode of Array.from(
+            tableNode.getElementsByTagName("table:table-row")
+          )) {
+            // Skip rows of tables nested inside cells
+            let parentNode = rowNode.parentElement;
+            while (parentNode && parentNode.tagName != "table:table")
+              parentNode = parentNode.parentElement;
+            if (parentNode !== tableNode) continue;
+            const row: string[] = [];
+            let pendingEmptyCells = 0;
+            for (const cellNode of Array.from(rowNode.children)) {
+              if (
+                cellNode.tagName != "table:table-cell" &&
+                cellNode.tagName != "table:covered-table-cell"
+              )
+                continue;
+              const repeat = parseInt(
+                cellNode.getAttribute("table:number-columns-repeated") ?? "1",
+                10
+              );
+              const text = Array.from(cellNode.getElementsByTagName("text:p"))
+                .map((pNode) => pNode.textContent ?? "")
+                .join(config.newlineDelimiter ?? "\n");
+              if (text == "") {
+                pendingEmptyCells += repeat;
+                continue;
+              }
+              for (let i = 0; i < pendingEmptyCells; i++) row.push("");
+              pendingEmptyCells = 0;
+              for (let i = 0; i < repeat; i++) row.push(text);
+            }
+            if (row.length == 0) continue;
+            const repeat = parseInt(
+              rowNode.getAttribute("table:number-rows-repeated") ?? "1",
+              10
+            );
+            for (let i = 0; i < repeat; i++) rows.push(row);
+          }
+          return { name: tableNode.getAttribute("table:name") ?? "", rows };
+        });
+
+        resolve(sheetsToMarkdown(sheets));
+      })
+      .catch(reject);
+  });
+}
+
 export function readTextFromOffice(
   file: File,
   config?: Partial<OfficeParserConfig>
@@ -741,9 +954,10 @@ export function readTextFromOffice(
       return parsePowerPoint(file, internalConfig);
     case officeFileTypes.xlsx:
       return parseExcel(file, internalConfig);
+    case officeFileTypes.ods:
+      return parseOpenOfficeSpreadsheet(file, internalConfig);
     case officeFileTypes.odt:
     case officeFileTypes.odp:
-    case officeFileTypes.ods:
       return parseOpenOffice(file, internalConfig);
     default:
       return handleError(
@@ -1,4 +1,219 @@
 import * as pdfjsLib from "pdfjs-dist";
+import { tableToMarkdown } from "./tableParser";
+
+type TextContentItem = Awaited<
+  ReturnType<pdfjsLib.PDFPageProxy["getTextContent"]>
+>["items"][number];
+type TextItem = Extract<TextContentItem, { str: string }>;
+
+interface PdfLine {
+  /** 同一行中间隔较大的文本片段，连续多行出现多个片段时视为表格 */
+  cells: string[];
+  x: number;
+  y: number;
+  right: number;
+  fontSize: number;
+}
+
+interface PdfBlock {
+  type: "heading" | "paragraph" | "list" | "table";
+  lines: PdfLine[];
+  fontSize: number;
+}
+
+const LIST_MARKER = /^([•◦▪▫‣●○■□–\-*]|\d{1,3}[.)]|[a-z]\)|\(\d{1,3}\))\s/;
+const BULLET = /^[•◦▪▫‣●○■□–*]\s*/;
+const SENTENCE_END = /[.!?:;。！？：；]$/;
+const CJK = /[\u3040-\u30ff\u3400-\u4dbf\u4e00-\u9fff\uac00-\ud7af\uff00-\uffef]/;
+
+// 页眉页脚中的页码等数字在每页不同，比较时忽略
+function normalizeRepeatedLine(line: PdfLine) {
+  return line.cells.join(" ").replace(/\d+/g, "#").trim().toLowerCase();
+}
+
+function getLineText(line: PdfLine) {
+  return line.cells.join(" ");
+}
+
+function joinText(a: string, b: string) {
+  if (a === "") return b;
+  // 行尾连字符断开的单词直接拼接
+  if (/[a-zA-Z]-$/.test(a) && /^[a-z]/.test(b)) return a.slice(0, -1) + b;
+  if (CJK.test(a.slice(-1)) && CJK.test(b[0])) return a + b;
+  return `${a} ${b}`;
+}
+
+/**
+ * 按文本在页面中的位置将文本片段组合成行。保持 PDF 内容流的顺序，
+ * 多栏排版的 PDF 通常按栏输出内容，这样可以保留正确的阅读顺序
+ */
+function groupLines(items: TextItem[]): PdfLine[] {
+  const lines: PdfLine[] = [];
+  let current: PdfLine | null = null;
+  let breakLine = false;
+
+  for (const item of items) {
+    const [, , c, d, x, y] = item.transform as number[];
+    const fontSize = Math.hypot(c, d) || item.height;
+    const text = item.str.replace(/\s+/g, " ");
+
+    if (text.trim() !== "") {
+      const tolerance = Math.max(fontSize, current?.fontSize || 0) * 0.5;
+      if (!current || breakLine || Math.abs(current.y - y) > tolerance) {
+        current = {
+          cells: [text.trimStart()],
+          x,
+          y,
+          right: x + item.width,
+          fontSize,
+        };
+        lines.push(current);
+      } else {
+        const gap = x - current.right;
+        const last = current.cells.length - 1;
+        if (gap > current.fontSize * 2) {
+          current.cells.push(text.trimStart());
+        } else if (
+          gap > current.fontSize * 0.15 &&
+          !/\s$/.test(current.cells[last]) &&
+          !/^\s/.test(text)
+        ) {
+          current.cells[last] += ` ${text}`;
+        } else {
+          current.cells[last] += text;
+        }
+        current.right = Math.max(current.right, x + item.width);
+        current.fontSize = Math.max(current.fontSize, fontSize);
+      }
+    }
+    breakLine = item.hasEOL;
+  }
+
+  return lines
+    .map((line) => ({
+      ...line,
+      cells: line.cells.map((cell) => cell.trim()).filter(Boolean),
+    }))
+    .filter((line) => line.cells.length > 0);
+}
+
+/**
+ * 正文字号：按字符数加权出现最多的字号
+ */
+function getBodyFontSize(pages: PdfLine[][]) {
+  const counts = new Map<number, number>();
+  for (const line of pages.flat()) {
+    const size = Math.round(line.fontSize * 2) / 2;
+    counts.set(size, (counts.get(size) || 0) + getLineText(line).length);
+  }
+  let bodySize = 0;
+  let maxCount = 0;
+  counts.forEach((count, size) => {
+    if (count > maxCount) {
+      bodySize = size;
+      maxCount = count;
+    }
+  });
+  return bodySize;
+}
+
+/**
+ * 去掉在多数页面顶部或底部重复出现的页眉、页脚和单独的页码
+ */
+function removeRunningLines(pages: PdfLine[][]) {
+  const counts = new Map<string, number>();
+  for (const lines of pages) {
+    const edges = new Set([lines[0], lines[lines.length - 1]]);
+    edges.forEach((line) => {
+      if (!line) return;
+      const key = normalizeRepeatedLine(line);
+      counts.set(key, (counts.get(key) || 0) + 1);
+    });
+  }
+  const threshold = Math.max(3, pages.length / 2);
+  return pages.map((lines) =>
+    lines.filter((line, idx) => {
+      if (idx !== 0 && idx !== lines.length - 1) return true;
+      const text = getLineText(line);
+      if (/^(page\s*)?\d+(\s*(of|\/)\s*\d+)?$/i.test(text)) return false;
+      return (counts.get(normalizeRepeatedLine(line)) || 0) < threshold;
+    })
+  );
+}
+
+function groupBlocks(lines: PdfLine[], bodySize: number): PdfBlock[] {
+  const blocks: PdfBlock[] = [];
+  const gaps = lines
+    .slice(1)
+    .map((line, idx) => lines[idx].y - line.y)
+    .filter((gap) => gap > 0)
+    .sort((a, b) => a - b);
+  // 常规行距取中位数
+  const lineSpacing =
+    gaps.length > 0 ? gaps[gaps.length >> 1] : bodySize * 1.2;
+
+  let block: PdfBlock | null = null;
+  lines.forEach((line, idx) => {
+    const text = getLineText(line);
+    const isHeading =
+      line.fontSize >= bodySize * 1.15 &&
+      line.cells.length === 1 &&
+      text.length <= 150;
+    const type: PdfBlock["type"] =
+      line.cells.length > 1
+        ? "table"
+        : isHeading
+        ? "heading"
+        : LIST_MARKER.test(text)
+        ? "list"
+        : "paragraph";
+
+    let isNewBlock = !block;
+    if (block) {
+      const prev = lines[idx - 1];
+      const gap = prev.y - line.y;
+      if (type === "table" || block.type === "table") {
+        isNewBlock = type !== block.type;
+      } else {
+        isNewBlock =
+          type === "list" ||
+          (type === "heading") !== (block.type === "heading") ||
+          Math.abs(line.fontSize - block.fontSize) > 1 ||
+          gap < 0 ||
+          gap > lineSpacing * 1.5 ||
+          // 句末换行且首行缩进，视为新段落
+          (SENTENCE_END.test(getLineText(prev)) &&
+            line.x > block.lines[0].x + bodySize);
+      }
+    }
+
+    if (isNewBlock || !block) {
+      block = { type, lines: [line], fontSize: line.fontSize };
+      blocks.push(block);
+    } else {
+      block.lines.push(line);
+    }
+  });
+  return blocks;
+}
+
+function renderBlock(block: PdfBlock, headingSizes: number[]) {
+  if (block.type === "table") {
+    // 只有一行的多片段文本不构成表格
+    if (block.lines.length < 2) {
+      return block.lines.map(getLineText).join(" ");
+    }
+    return tableToMarkdown(block.lines.map((line) => line.cells));
+  }
+  const text = block.lines.map(getLineText).reduce(joinText, "");
+  if (block.type === "heading") {
+    const level = headingSizes.indexOf(Math.round(block.fontSize * 2) / 2);
+    const depth = level === -1 ? 3 : Math.min(level + 1, 3);
+    return `${"#".repeat(depth)} ${text}`;
+  }
+  if (block.type === "list") return text.replace(BULLET, "- ");
+  return text;
+}
 
 async function getTextContent(file: string | ArrayBuffer) {
   try {
@@ -8,25 +223,52 @@ async function getTextContent(file: string | ArrayBuffer) {
     const loadingTask = pdfjsLib.getDocument(file);
     const pdfDocument = await loadingTask.promise;
 
-    let fullText = "";
-
-    // 循环处理每一页
+    // 循环处理每一页，将文本片段组合成行
+    let pages: PdfLine[][] = [];
     for (let pageNum = 1; pageNum <= pdfDocument.numPages; pageNum++) {
       const page = await pdfDocument.getPage(pageNum);
       const textContent = await page.getTextContent();
+      const items = textContent.items.filter(
+        (item): item is TextItem => "str" in item
+      );
+      pages.push(groupLines(items));
+    }
 
-      // 将文本内容组合起来
-      const pageText = textContent.items
-        .filter((item) => "str" in item)
-        .map((item) => item.str)
-        .join(" ");
-      fullText += pageText + "\n"; // 可以添加换行符来区分页面
+    // 没有任何文本层，通常是扫描件或纯图片 PDF
+    if (pages.every((lines) => lines.length === 0)) {
+      throw new Error(
+        "No text found in this PDF. It may be a scanned document, please convert it with OCR first."
+      );
     }
 
-    return fullText;
+    if (pages.length >= 3) pages = removeRunningLines(pages);
+    const bodySize = getBodyFontSize(pages);
+    const pageBlocks = pages.map((lines) => groupBlocks(lines, bodySize));
+    // 标题按字号从大到小分级
+    const headingSizes = Array.from(
+      new Set(
+        pageBlocks
+          .flat()
+          .filter((block) => block.type === "heading")
+          .map((block) => Math.round(block.fontSize * 2) / 2)
+      )
+    ).sort((a, b) => b - a);
+
+    // 保留页码标记，便于引用知识库内容时注明页码
+    return pageBlocks
+      .map((blocks, idx) => {
+        const content =
+          blocks.length > 0
+            ? blocks
+                .map((block) => renderBlock(block, headingSizes))
+                .join("\n\n")
+            : "(No text on this page, it may be a scanned image)";
+        return `[Page ${idx + 1}]\n\n${content}`;
+      })
+      .join("\n\n");
   } catch (error) {
     console.error("Error extracting text:", error);
-    throw new Error("Error extracting text");
+    throw error instanceof Error ? error : new Error("Error extracting text");
   }
 }
 
@@ -45,7 +287,9 @@ export async function readTextFromPDF(file: File): Promise<string> {
           resolve(text);
         } catch (error) {
           console.error("Error processing PDF:", error);
-          reject(new Error("Error processing PDF"));
+          reject(
+            error instanceof Error ? error : new Error("Error processing PDF")
+          );
         }
       } else {
         reject(new Error("File reading failed"));
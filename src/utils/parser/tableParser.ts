@@ -0,0 +1,263 @@
+import { readTextFromFile } from "./textParser";
+
+export interface TableSheet {
+  name?: string;
+  rows: string[][];
+}
+
+export interface TableMarkdownOptions {
+  /** 超过该行数的表格只输出列结构和示例行 */
+  maxRows?: number;
+  /** 大表格输出的示例行数 */
+  sampleRows?: number;
+}
+
+// Windows 上 CSV 文件的类型常为 application/vnd.ms-excel，但二进制的 .xls
+// 文件也是这个类型，因此该类型只按扩展名判断
+const DelimitedTextMimeTypes = [
+  "text/csv",
+  "text/tab-separated-values",
+  "application/csv",
+];
+
+const DELIMITERS = [",", "\t", ";", "|"];
+
+export function isDelimitedTextFile(file: File) {
+  return (
+    DelimitedTextMimeTypes.includes(file.type) ||
+    /\.(csv|tsv)$/i.test(file.name)
+  );
+}
+
+function splitDelimitedText(text: string, delimiter: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = "";
+  let inQuotes = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (inQuotes) {
+      if (char === '"') {
+        // 引号内的两个连续引号表示一个引号字符
+        if (text[i + 1] === '"') {
+          cell += '"';
+          i++;
+        } else {
+          inQuotes = false;
+        }
+      } else {
+        cell += char;
+      }
+    } else if (char === '"' && cell.trim() === "") {
+      cell = "";
+      inQuotes = true;
+    } else if (char === delimiter) {
+      row.push(cell);
+      cell = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && text[i + 1] === "\n") i++;
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = "";
+    } else {
+      cell += char;
+    }
+  }
+  if (cell !== "" || row.length > 0) {
+    row.push(cell);
+    rows.push(row);
+  }
+  return rows;
+}
+
+/**
+ * 根据前几行推断分隔符：选择每行拆分出的列数最多且最稳定的字符
+ */
+export function detectDelimiter(text: string): string {
+  const sample = text.slice(0, 10000);
+  let best = ",";
+  let bestScore = 0;
+  for (const delimiter of DELIMITERS) {
+    const rows = splitDelimitedText(sample, delimiter)
+      .slice(0, 20)
+      .filter((row) => row.some((cell) => cell.trim() !== ""));
+    if (rows.length === 0) continue;
+    const counts = rows.map((row) => row.length);
+    const columns = Math.min(...counts);
+    if (columns < 2) continue;
+    const consistent = counts.filter((count) => count === counts[0]).length;
+    const score = columns * (consistent / counts.length);
+    if (score > bestScore) {
+      best = delimiter;
+      bestScore = score;
+    }
+  }
+  return best;
+}
+
+export function parseDelimitedText(text: string, delimiter?: string) {
+  // 去掉 Excel 导出 CSV 时常带的 BOM
+  const content = text.replace(/^\ufeff/, "");
+  return splitDelimitedText(content, delimiter || detectDelimiter(content));
+}
+
+function escapeCell(value: string) {
+  return value
+    .replace(/\r?\n|\r/g, " ")
+    .replace(/\|/g, "\\|")
+    .trim();
+}
+
+function toMarkdownTable(header: string[], rows: string[][]) {
+  const lines = [
+    `| ${header.map(escapeCell).join(" | ")} |`,
+    `| ${header.map(() => "---").join(" | ")} |`,
+  ];
+  for (const row of rows) {
+    lines.push(
+      `| ${header.map((_, idx) => escapeCell(row[idx] || "")).join(" | ")} |`
+    );
+  }
+  return lines.join("\n");
+}
+
+// 去掉空行以及末尾的空列
+function normalizeRows(rows: string[][]) {
+  const result = rows
+    .map((row) => row.map((cell) => (cell ?? "").trim()))
+    .filter((row) => row.some((cell) => cell !== ""));
+  let width = 0;
+  for (const row of result) {
+    for (let idx = row.length - 1; idx >= width; idx--) {
+      if (row[idx] !== "") {
+        width = idx + 1;
+        break;
+      }
+    }
+  }
+  return result.map((row) => {
+    const cells = row.slice(0, width);
+    while (cells.length < width) cells.push("");
+    return cells;
+  });
+}
+
+function getHeader(row: string[]) {
+  const names = new Map<string, number>();
+  return row.map((cell, idx) => {
+    const name = cell || `Column ${idx + 1}`;
+    // 重名的列加上序号，方便在列结构中区分
+    const count = (names.get(name) || 0) + 1;
+    names.set(name, count);
+    return count > 1 ? `${name} (${count})` : name;
+  });
+}
+
+function isNumeric(value: string) {
+  return (
+    /\d/.test(value) &&
+    /^[-+]?(\d{1,3}(,\d{3})+|\d+)?(\.\d+)?([eE][-+]?\d+)?%?$/.test(value)
+  );
+}
+
+function toNumber(value: string) {
+  return parseFloat(value.replace(/,/g, ""));
+}
+
+function isDate(value: string) {
+  return (
+    /^\d{4}[-/.]\d{1,2}[-/.]\d{1,2}([ T]\d{1,2}:\d{2}(:\d{2})?)?/.test(value) ||
+    /^\d{1,2}[-/.]\d{1,2}[-/.]\d{4}$/.test(value)
+  );
+}
+
+function inferColumnType(values: string[]) {
+  if (values.length === 0) return "empty";
+  if (values.every(isNumeric)) {
+    return values.every((value) => /^[-+]?[\d,]+$/.test(value))
+      ? "integer"
+      : "number";
+  }
+  if (values.every((value) => /^(true|false)$/i.test(value))) {
+    return "boolean";
+  }
+  if (values.every(isDate)) return "date";
+  return "text";
+}
+
+function describeColumn(values: string[], type: string) {
+  if (values.length === 0) return "";
+  if (type === "integer" || type === "number") {
+    const numbers = values.map(toNumber).filter((value) => !isNaN(value));
+    if (numbers.length > 0) {
+      // 大表格的数值较多，避免展开参数导致栈溢出
+      const min = numbers.reduce((a, b) => Math.min(a, b));
+      const max = numbers.reduce((a, b) => Math.max(a, b));
+      return `${min} ~ ${max}`;
+    }
+  }
+  if (type === "date") {
+    const dates = [...values].sort();
+    return `${dates[0]} ~ ${dates[dates.length - 1]}`;
+  }
+  const distinct = Array.from(new Set(values));
+  const examples = distinct
+    .slice(0, 3)
+    .map((value) => (value.length > 30 ? `${value.slice(0, 30)}…` : value))
+    .join(", ");
+  return `${distinct.length} distinct, e.g. ${examples}`;
+}
+
+/**
+ * 将表格转换为 Markdown，第一行作为表头。
+ * 行数过多的表格只输出列结构（列名、类型、取值范围）和前几行示例，避免撑爆上下文
+ */
+export function tableToMarkdown(
+  rows: string[][],
+  { maxRows = 200, sampleRows = 20 }: TableMarkdownOptions = {}
+): string {
+  const table = normalizeRows(rows);
+  if (table.length === 0) return "";
+
+  const header = getHeader(table[0]);
+  const body = table.slice(1);
+  if (body.length <= maxRows) return toMarkdownTable(header, body);
+
+  const schema = header.map((name, idx) => {
+    const values = body.map((row) => row[idx]).filter((value) => value !== "");
+    const type = inferColumnType(values);
+    return [name, type, `${values.length}`, describeColumn(values, type)];
+  });
+  return [
+    `Rows: ${body.length}, Columns: ${header.length}. The table is too large to include in full, showing the column schema and the first ${sampleRows} rows.`,
+    "### Schema",
+    toMarkdownTable(["Column", "Type", "Non-empty", "Values"], schema),
+    "### Sample rows",
+    toMarkdownTable(header, body.slice(0, sampleRows)),
+  ].join("\n\n");
+}
+
+export function sheetsToMarkdown(
+  sheets: TableSheet[],
+  options?: TableMarkdownOptions
+): string {
+  return sheets
+    .map(({ name, rows }) => {
+      const table = tableToMarkdown(rows, options);
+      if (!name) return table;
+      return `## ${name}\n\n${table || "(Empty sheet)"}`;
+    })
+    .filter((content) => content !== "")
+    .join("\n\n");
+}
+
+export async function readTextFromCSV(file: File): Promise<string> {
+  const text = await readTextFromFile(file);
+  const delimiter =
+    file.type === "text/tab-separated-values" || /\.tsv$/i.test(file.name)
+      ? "\t"
+      : undefined;
+  return tableToMarkdown(parseDelimitedText(text, delimiter));
+}
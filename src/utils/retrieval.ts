@@ -0,0 +1,267 @@
+// 中日韩字符没有空格分词，按单字和相邻双字切分
+const CJK_CHARS = "\\u3040-\\u30ff\\u3400-\\u4dbf\\u4e00-\\u9fff\\uac00-\\ud7af";
+const CJK_REGEX = new RegExp(`[${CJK_CHARS}]`);
+const TOKEN_REGEX = new RegExp(`[${CJK_CHARS}]+|[a-z0-9_]+`, "g");
+// PDF 解析结果中每页开头的页码标记，例如 [Page 3]
+const PAGE_MARKER_REGEX = /^\[Page \d+\]$/;
+
+export interface ChunkOptions {
+  /** 每个片段的最大字符数 */
+  chunkSize?: number;
+  /** 相邻片段重叠的字符数 */
+  chunkOverlap?: number;
+}
+
+export interface RetrieveOptions {
+  topK?: number;
+}
+
+/** 批量计算文本向量，用于建立向量索引 */
+export type EmbedFunction = (texts: string[]) => Promise<number[][]>;
+
+/** 在向量索引中按语义相似度搜索指定知识的片段 */
+export type SemanticSearchFunction = (
+  query: string,
+  options: { knowledgeIds: string[]; topK: number }
+) => Promise<{ knowledgeId: string; content: string; score: number }[]>;
+
+export function tokenize(text: string): string[] {
+  const tokens: string[] = [];
+  for (const word of text.toLowerCase().match(TOKEN_REGEX) || []) {
+    if (CJK_REGEX.test(word[0])) {
+      for (let i = 0; i < word.length; i++) {
+        tokens.push(word[i]);
+        if (i + 1 < word.length) tokens.push(word.slice(i, i + 2));
+      }
+    } else if (word.length > 1 || /\d/.test(word)) {
+      tokens.push(word);
+    }
+  }
+  return tokens;
+}
+
+/**
+ * 按段落切分文本，段落超过 chunkSize 时再按长度硬切，
+ * 相邻片段保留 chunkOverlap 个字符的重叠以免切断上下文。
+ * 文本包含页码标记时，不以页码标记开头的片段会补上所在页的标记，以便引用页码
+ */
+export function splitIntoChunks(
+  text: string,
+  { chunkSize = 1200, chunkOverlap = 200 }: ChunkOptions = {}
+): string[] {
+  const paragraphs = text
+    .split(/\n\s*\n/)
+    .map((paragraph) => paragraph.trim())
+    .filter(Boolean);
+
+  const chunks: string[] = [];
+  let current = "";
+  // current 中是否有尚未输出的新内容（而不只是上一片段的重叠部分）
+  let pending = false;
+  // 当前段落所在页和 current 开头所在页的标记
+  let page = "";
+  let currentPage = "";
+
+  const push = (chunk: string, chunkPage: string) => {
+    chunks.push(
+      chunkPage && !chunk.startsWith("[Page ")
+        ? `${chunkPage}\n\n${chunk}`
+        : chunk
+    );
+  };
+
+  const flush = () => {
+    if (pending) push(current, currentPage);
+    current = chunkOverlap > 0 ? current.slice(-chunkOverlap) : "";
+    currentPage = page;
+    pending = false;
+  };
+
+  for (const paragraph of paragraphs) {
+    if (paragraph.length > chunkSize) {
+      flush();
+      const step = Math.max(chunkSize - chunkOverlap, 1);
+      for (let start = 0; start < paragraph.length; start += step) {
+        push(paragraph.slice(start, start + chunkSize), page);
+        if (start + chunkSize >= paragraph.length) break;
+      }
+      current = "";
+      continue;
+    }
+    if (pending && current.length + paragraph.length + 2 > chunkSize) {
+      flush();
+    }
+    if (!current) currentPage = page;
+    if (PAGE_MARKER_REGEX.test(paragraph)) page = paragraph;
+    current = current ? `${current}\n\n${paragraph}` : paragraph;
+    pending = true;
+  }
+  flush();
+
+  return chunks;
+}
+
+/**
+ * 将知识库切分为片段，片段编号形如 K2.3（第 2 个知识的第 3 个片段），
+ * 用于在回答中引用
+ */
+export function chunkKnowledges(
+  knowledges: Pick<Knowledge, "id" | "title" | "content">[],
+  options?: ChunkOptions
+): KnowledgeChunk[] {
+  return knowledges.flatMap((knowledge, docIndex) =>
+    splitIntoChunks(knowledge.content, options).map((content, chunkIndex) => ({
+      id: `K${docIndex + 1}.${chunkIndex + 1}`,
+      knowledgeId: knowledge.id,
+      title: knowledge.title,
+      content,
+    }))
+  );
+}
+
+export class BM25Index {
+  private chunks: KnowledgeChunk[];
+  private termFreqs: Map<string, number>[];
+  private docFreqs = new Map<string, number>();
+  private lengths: number[];
+  private avgLength: number;
+  private k1: number;
+  private b: number;
+
+  constructor(chunks: KnowledgeChunk[], { k1 = 1.2, b = 0.75 } = {}) {
+    this.chunks = chunks;
+    this.k1 = k1;
+    this.b = b;
+    this.termFreqs = chunks.map((chunk) => {
+      const freqs = new Map<string, number>();
+      for (const token of tokenize(`${chunk.title}\n${chunk.content}`)) {
+        freqs.set(token, (freqs.get(token) || 0) + 1);
+      }
+      for (const token of freqs.keys()) {
+        this.docFreqs.set(token, (this.docFreqs.get(token) || 0) + 1);
+      }
+      return freqs;
+    });
+    this.lengths = this.termFreqs.map((freqs) =>
+      Array.from(freqs.values()).reduce((sum, count) => sum + count, 0)
+    );
+    this.avgLength =
+      this.lengths.reduce((sum, length) => sum + length, 0) /
+      Math.max(chunks.length, 1);
+  }
+
+  /**
+   * 返回所有得分大于 0 的片段，按得分从高到低排列
+   */
+  search(query: string): { chunk: KnowledgeChunk; score: number }[] {
+    const terms = Array.from(new Set(tokenize(query)));
+    const total = this.chunks.length;
+
+    return this.chunks
+      .map((chunk, idx) => {
+        const freqs = this.termFreqs[idx];
+        const norm =
+          1 - this.b + (this.b * this.lengths[idx]) / (this.avgLength || 1);
+        let score = 0;
+        for (const term of terms) {
+          const tf = freqs.get(term);
+          if (!tf) continue;
+          const df = this.docFreqs.get(term) || 0;
+          const idf = Math.log(1 + (total - df + 0.5) / (df + 0.5));
+          score += (idf * tf * (this.k1 + 1)) / (tf + this.k1 * norm);
+        }
+        return { chunk, score };
+      })
+      .filter((item) => item.score > 0)
+      .sort((a, b) => b.score - a.score);
+  }
+}
+
+export function cosineSimilarity(a: number[], b: number[]): number {
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+  return normA && normB ? dot / Math.sqrt(normA * normB) : 0;
+}
+
+/**
+ * 本地知识检索：BM25 关键词排序，提供 semanticSearch 时再与向量索引的
+ * 相似度排序做倒数排名融合
+ */
+export class KnowledgeRetriever {
+  readonly chunks: KnowledgeChunk[];
+  private index: BM25Index;
+  private semanticSearch?: SemanticSearchFunction;
+
+  constructor(
+    knowledges: Pick<Knowledge, "id" | "title" | "content">[],
+    options: ChunkOptions & { semanticSearch?: SemanticSearchFunction } = {}
+  ) {
+    this.chunks = chunkKnowledges(knowledges, options);
+    this.index = new BM25Index(this.chunks);
+    this.semanticSearch = options.semanticSearch;
+  }
+
+  /**
+   * 使用持久化的向量索引排序，索引与 chunkKnowledges 的切分方式相同，
+   * 按知识和片段原文对应回本地片段
+   */
+  private async rankByEmbedding(query: string): Promise<KnowledgeChunk[]> {
+    const getKey = (item: { knowledgeId: string; content: string }) =>
+      `${item.knowledgeId}\n${item.content}`;
+    const chunkMap = new Map(this.chunks.map((chunk) => [getKey(chunk), chunk]));
+    const knowledgeIds = new Set(this.chunks.map((chunk) => chunk.knowledgeId));
+
+    const results = await this.semanticSearch!(query, {
+      knowledgeIds: Array.from(knowledgeIds),
+      topK: this.chunks.length,
+    });
+    return results
+      .map((result) => chunkMap.get(getKey(result)))
+      .filter((chunk): chunk is KnowledgeChunk => !!chunk);
+  }
+
+  async retrieve(
+    query: string,
+    { topK = 8 }: RetrieveOptions = {}
+  ): Promise<KnowledgeChunk[]> {
+    if (this.chunks.length <= topK) return this.chunks;
+
+    const keywordRanking = this.index.search(query).map((item) => item.chunk);
+    const rankings = [keywordRanking];
+
+    if (this.semanticSearch) {
+      try {
+        rankings.push(await this.rankByEmbedding(query));
+      } catch (err) {
+        // 向量服务不可用时只使用关键词排序
+        console.warn("Embedding ranking failed:", err);
+      }
+    }
+
+    // 倒数排名融合，k=60 为常用取值
+    const scores = new Map<KnowledgeChunk, number>();
+    for (const ranking of rankings) {
+      ranking.forEach((chunk, rank) => {
+        scores.set(chunk, (scores.get(chunk) || 0) + 1 / (60 + rank + 1));
+      });
+    }
+
+    const ranked = Array.from(scores.entries())
+      .sort((a, b) => b[1] - a[1])
+      .map(([chunk]) => chunk);
+
+    // 相关片段不足时按原文顺序补齐，保证总能提供一些上下文
+    for (const chunk of this.chunks) {
+      if (ranked.length >= topK) break;
+      if (!scores.has(chunk)) ranked.push(chunk);
+    }
+
+    return ranked.slice(0, topK);
+  }
+}
@@ -0,0 +1,274 @@
+import type { CrawlerResult } from "@/utils/crawler";
+
+// 这些扩展名的链接不是网页，爬取整站时跳过
+const NON_PAGE_EXTENSIONS =
+  /\.(pdf|zip|gz|tar|rar|7z|exe|dmg|pkg|apk|iso|png|jpe?g|gif|webp|svg|ico|bmp|mp3|mp4|avi|mov|webm|woff2?|ttf|eot|css|js|json|xml|rss|atom)$/i;
+
+// 一个 sitemap 索引最多展开的子 sitemap 数
+const MAX_SITEMAPS = 20;
+// 遵守 robots.txt 的 Crawl-delay，但不超过该值（秒）
+const MAX_CRAWL_DELAY = 10;
+
+interface RobotsRule {
+  allow: boolean;
+  pattern: RegExp;
+  length: number;
+}
+
+export interface RobotsTxt {
+  isAllowed: (url: string) => boolean;
+  sitemaps: string[];
+  crawlDelay?: number;
+}
+
+export interface SitePage {
+  url: string;
+  depth: number;
+  status: "processing" | "completed" | "failed" | "skipped";
+  title?: string;
+  error?: string;
+}
+
+export interface CrawlSiteOptions {
+  /** 从起始页开始跟随链接的层数，0 表示只抓取起始页或 sitemap 中的页面 */
+  maxDepth?: number;
+  /** 最多抓取的页面数 */
+  maxPages?: number;
+  /** 获取 robots.txt、sitemap 等文本文件 */
+  fetchText: (url: string) => Promise<string>;
+  /** 抓取单个页面，返回正文和页面中的链接 */
+  fetchPage: (url: string) => Promise<CrawlerResult>;
+  /** 页面抓取成功后调用，用于保存页面内容 */
+  onPage: (page: SitePage, result: CrawlerResult) => Promise<void> | void;
+  onProgress?: (page: SitePage) => void;
+  signal?: AbortSignal;
+}
+
+function toPattern(path: string) {
+  const source = path
+    .split("*")
+    .map((part) => part.replace(/[.+?^${}()|[\]\\]/g, "\\$&"))
+    .join(".*");
+  return new RegExp(
+    `^${source.endsWith("\\$") ? `${source.slice(0, -2)}$` : source}`
+  );
+}
+
+/**
+ * 解析 robots.txt，使用针对所有爬虫（User-agent: *）的规则，
+ * 同时匹配多条规则时以最长的规则为准，长度相同时 Allow 优先
+ */
+export function parseRobotsTxt(text: string): RobotsTxt {
+  const rules: RobotsRule[] = [];
+  const sitemaps: string[] = [];
+  let crawlDelay: number | undefined;
+  let agents: string[] = [];
+  let inGroup = false;
+
+  for (const rawLine of text.split(/\r?\n/)) {
+    const line = rawLine.replace(/#.*$/, "").trim();
+    const idx = line.indexOf(":");
+    if (idx === -1) continue;
+    const key = line.slice(0, idx).trim().toLowerCase();
+    const value = line.slice(idx + 1).trim();
+
+    if (key === "sitemap") {
+      if (value) sitemaps.push(value);
+    } else if (key === "user-agent") {
+      // 连续的 User-agent 行属于同一组
+      if (inGroup) agents = [];
+      agents.push(value.toLowerCase());
+      inGroup = false;
+    } else {
+      inGroup = true;
+      if (!agents.includes("*")) continue;
+      if (key === "allow" || key === "disallow") {
+        if (!value) continue;
+        rules.push({
+          allow: key === "allow",
+          pattern: toPattern(value),
+          length: value.length,
+        });
+      } else if (key === "crawl-delay") {
+        const delay = Number(value);
+        if (!isNaN(delay)) crawlDelay = delay;
+      }
+    }
+  }
+
+  return {
+    isAllowed: (url: string) => {
+      let path = url;
+      try {
+        const urlObj = new URL(url);
+        path = `${urlObj.pathname}${urlObj.search}`;
+      } catch {
+        // 使用原始路径匹配
+      }
+      let matched: RobotsRule | undefined;
+      for (const rule of rules) {
+        if (!rule.pattern.test(path)) continue;
+        if (
+          !matched ||
+          rule.length > matched.length ||
+          (rule.length === matched.length && rule.allow)
+        ) {
+          matched = rule;
+        }
+      }
+      return matched ? matched.allow : true;
+    },
+    sitemaps,
+    crawlDelay,
+  };
+}
+
+/**
+ * 解析 sitemap.xml，sitemap 索引文件返回子 sitemap 列表
+ */
+export function parseSitemap(xml: string): {
+  urls: string[];
+  sitemaps: string[];
+} {
+  const locs = Array.from(xml.matchAll(/<loc>\s*([\s\S]*?)\s*<\/loc>/gi)).map(
+    (match) =>
+      match[1]
+        .replace(/^<!\[CDATA\[|\]\]>$/g, "")
+        .replaceAll("&amp;", "&")
+        .trim()
+  );
+  return /<sitemapindex[\s>]/i.test(xml)
+    ? { urls: [], sitemaps: locs }
+    : { urls: locs, sitemaps: [] };
+}
+
+export function isSitemapUrl(url: string) {
+  try {
+    return /sitemap[^/]*\.xml$/i.test(new URL(url).pathname);
+  } catch {
+    return false;
+  }
+}
+
+// 去掉锚点和末尾斜杠，用于判断页面是否已访问
+function normalizePageUrl(url: string): string {
+  const urlObj = new URL(url);
+  urlObj.hash = "";
+  const href = urlObj.toString();
+  return href.endsWith("/") ? href.slice(0, -1) : href;
+}
+
+function sleep(ms: number) {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+async function loadSitemaps(
+  entries: string[],
+  fetchText: (url: string) => Promise<string>
+): Promise<string[]> {
+  const urls: string[] = [];
+  const queue = [...entries];
+  const visited = new Set<string>();
+  while (queue.length > 0 && visited.size < MAX_SITEMAPS) {
+    const sitemap = queue.shift()!;
+    if (visited.has(sitemap)) continue;
+    visited.add(sitemap);
+    try {
+      const result = parseSitemap(await fetchText(sitemap));
+      urls.push(...result.urls);
+      queue.push(...result.sitemaps);
+    } catch (err) {
+      console.warn(`Failed to load sitemap ${sitemap}:`, err);
+    }
+  }
+  return urls;
+}
+
+/**
+ * 爬取整个站点：从起始页（或 sitemap.xml 中列出的页面）开始，
+ * 按广度优先跟随同源链接，遵守 robots.txt，达到层数或页数上限后停止
+ */
+export async function crawlSite(
+  url: string,
+  {
+    maxDepth = 2,
+    maxPages = 50,
+    fetchText,
+    fetchPage,
+    onPage,
+    onProgress,
+    signal,
+  }: CrawlSiteOptions
+): Promise<SitePage[]> {
+  const { origin } = new URL(url);
+
+  let robots: RobotsTxt;
+  try {
+    robots = parseRobotsTxt(await fetchText(`${origin}/robots.txt`));
+  } catch {
+    // 没有 robots.txt 时允许抓取所有页面
+    robots = parseRobotsTxt("");
+  }
+  const crawlDelay = Math.min(robots.crawlDelay || 0, MAX_CRAWL_DELAY) * 1000;
+
+  const isSameOrigin = (link: string) => {
+    try {
+      return new URL(link).origin === origin;
+    } catch {
+      return false;
+    }
+  };
+
+  const seeds = isSitemapUrl(url)
+    ? (await loadSitemaps([url], fetchText)).filter(isSameOrigin)
+    : [url];
+  const queue: { url: string; depth: number }[] = seeds.map((item) => ({
+    url: item,
+    depth: 0,
+  }));
+  const visited = new Set(seeds.map(normalizePageUrl));
+  const pages: SitePage[] = [];
+
+  while (queue.length > 0 && !signal?.aborted) {
+    if (pages.filter((page) => page.status !== "skipped").length >= maxPages) {
+      break;
+    }
+    const { url: pageUrl, depth } = queue.shift()!;
+    const page: SitePage = { url: pageUrl, depth, status: "processing" };
+    pages.push(page);
+
+    if (!robots.isAllowed(pageUrl)) {
+      page.status = "skipped";
+      page.error = "Disallowed by robots.txt";
+      onProgress?.({ ...page });
+      continue;
+    }
+
+    onProgress?.({ ...page });
+    try {
+      const result = await fetchPage(pageUrl);
+      page.title = result.title;
+      await onPage({ ...page, status: "completed" }, result);
+      page.status = "completed";
+
+      if (depth < maxDepth) {
+        for (const link of result.links || []) {
+          if (!isSameOrigin(link)) continue;
+          if (NON_PAGE_EXTENSIONS.test(new URL(link).pathname)) continue;
+          const normalized = normalizePageUrl(link);
+          if (visited.has(normalized)) continue;
+          visited.add(normalized);
+          queue.push({ url: link, depth: depth + 1 });
+        }
+      }
+    } catch (err) {
+      page.status = "failed";
+      page.error = err instanceof Error ? err.message : String(err);
+    }
+    onProgress?.({ ...page });
+
+    if (crawlDelay > 0 && queue.length > 0) await sleep(crawlDelay);
+  }
+
+  return pages;
+}
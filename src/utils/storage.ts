@@ -5,3 +5,9 @@ export const researchStore = localforage.createInstance({
   storeName: "researchStore",
   description: "Stores the history and results of in-depth research.",
 });
+
+export const vectorStore = localforage.createInstance({
+  name: "DeepResearch",
+  storeName: "vectorStore",
+  description: "Stores the embedding vectors of knowledge chunks.",
+});
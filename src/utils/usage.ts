@@ -0,0 +1,123 @@
+import { clone } from "radash";
+
+export interface ModelPrice {
+  /** 每百万输入 token 的价格（美元） */
+  input: number;
+  /** 每百万输出 token 的价格（美元） */
+  output: number;
+}
+
+export function createTokenUsage(): TokenUsage {
+  return { promptTokens: 0, completionTokens: 0, totalTokens: 0 };
+}
+
+export function createThinkUsage(): ThinkUsage {
+  return {
+    total: createTokenUsage(),
+    byStage: {},
+    byModel: {},
+    byIteration: {},
+    byAgent: {},
+  };
+}
+
+/**
+ * 累加 token 用量，部分 provider 不返回用量时字段为 NaN，按 0 处理
+ */
+export function addTokenUsage(
+  target: TokenUsage,
+  usage?: Partial<TokenUsage>
+): TokenUsage {
+  const promptTokens = Number(usage?.promptTokens) || 0;
+  const completionTokens = Number(usage?.completionTokens) || 0;
+  target.promptTokens += promptTokens;
+  target.completionTokens += completionTokens;
+  target.totalTokens +=
+    Number(usage?.totalTokens) || promptTokens + completionTokens;
+  return target;
+}
+
+function addToRecord(
+  record: Record<string, TokenUsage>,
+  key: string,
+  usage?: Partial<TokenUsage>
+) {
+  record[key] = addTokenUsage(record[key] || createTokenUsage(), usage);
+}
+
+export function recordThinkUsage(
+  target: ThinkUsage,
+  options: {
+    stage: string;
+    model: string;
+    usage?: Partial<TokenUsage>;
+    iteration?: number;
+    agentId?: string;
+  }
+): ThinkUsage {
+  const { stage, model, usage, iteration, agentId } = options;
+  addTokenUsage(target.total, usage);
+  addToRecord(target.byStage, stage, usage);
+  addToRecord(target.byModel, model, usage);
+  if (iteration !== undefined) {
+    addToRecord(target.byIteration, String(iteration), usage);
+  }
+  if (agentId) addToRecord(target.byAgent, agentId, usage);
+  return target;
+}
+
+/**
+ * 合并 agent 的用量：模型维度保持原样，阶段维度归入 agentThinking
+ */
+export function mergeAgentUsage(
+  target: ThinkUsage,
+  agentId: string,
+  usage: ThinkUsage
+): ThinkUsage {
+  const result = clone(target);
+  addTokenUsage(result.total, usage.total);
+  addToRecord(result.byStage, "agentThinking", usage.total);
+  addToRecord(result.byAgent, agentId, usage.total);
+  for (const [model, modelUsage] of Object.entries(usage.byModel)) {
+    addToRecord(result.byModel, model, modelUsage);
+  }
+  return result;
+}
+
+/**
+ * 解析价格表，每行一个模型：`model=输入价格,输出价格`，单位为美元/百万 token
+ */
+export function parseModelPrices(text: string = ""): Record<string, ModelPrice> {
+  const prices: Record<string, ModelPrice> = {};
+  text.split("\n").forEach((line) => {
+    const [model, price = ""] = line.split("=").map((item) => item.trim());
+    if (!model || !price) return;
+    const [input, output = input] = price
+      .split(",")
+      .map((item) => parseFloat(item));
+    if (isNaN(input) || isNaN(output)) return;
+    prices[model] = { input, output };
+  });
+  return prices;
+}
+
+/**
+ * 查找模型价格，精确匹配优先，否则使用最长的前缀匹配（如 gpt-4o 匹配 gpt-4o-2024-08-06）
+ */
+export function getModelPrice(
+  prices: Record<string, ModelPrice>,
+  model: string
+): ModelPrice | undefined {
+  if (prices[model]) return prices[model];
+  const prefix = Object.keys(prices)
+    .filter((name) => model.startsWith(name))
+    .sort((a, b) => b.length - a.length)[0];
+  return prefix ? prices[prefix] : undefined;
+}
+
+export function calculateCost(usage: TokenUsage, price: ModelPrice): number {
+  return (
+    (usage.promptTokens * price.input + usage.completionTokens * price.output) /
+    1_000_000
+  );
+}
@@ -0,0 +1,117 @@
+import {
+  splitIntoChunks,
+  cosineSimilarity,
+  type EmbedFunction,
+} from "@/utils/retrieval";
+import { vectorStore } from "@/utils/storage";
+
+// 切分方式改变后递增，使旧的索引重建
+const CHUNK_VERSION = 2;
+
+interface KnowledgeVectors {
+  knowledgeId: string;
+  provider: string; // 生成向量的服务商和模型，切换后需要重建索引
+  model: string;
+  updatedAt: number; // 建立索引时知识的更新时间，用于判断索引是否过期
+  version?: number; // 建立索引时的切分方式版本
+  chunks: { content: string; embedding: number[] }[];
+}
+
+/** 生成向量的服务商和模型 */
+export interface EmbeddingTarget {
+  provider: string;
+  model: string;
+}
+
+export interface VectorSearchResult {
+  knowledgeId: string;
+  content: string;
+  score: number;
+}
+
+export interface VectorSearchOptions {
+  /** 只在这些知识中搜索，未指定时搜索全部已索引的知识 */
+  knowledgeIds?: string[];
+  topK?: number;
+}
+
+function isSameTarget(vectors: KnowledgeVectors, target: EmbeddingTarget) {
+  return vectors.provider === target.provider && vectors.model === target.model;
+}
+
+function isIndexed(
+  vectors: KnowledgeVectors | null,
+  knowledge: Knowledge,
+  target: EmbeddingTarget
+): vectors is KnowledgeVectors {
+  return (
+    !!vectors &&
+    isSameTarget(vectors, target) &&
+    vectors.version === CHUNK_VERSION &&
+    vectors.updatedAt >= knowledge.updatedAt
+  );
+}
+
+/**
+ * 切分知识并写入向量索引，索引已是最新时跳过
+ */
+export async function indexKnowledge(
+  knowledge: Knowledge,
+  target: EmbeddingTarget,
+  embed: EmbedFunction
+): Promise<void> {
+  const vectors = await vectorStore.getItem<KnowledgeVectors>(knowledge.id);
+  if (isIndexed(vectors, knowledge, target)) return;
+
+  const chunks = splitIntoChunks(knowledge.content);
+  const embeddings = chunks.length > 0 ? await embed(chunks) : [];
+  await vectorStore.setItem<KnowledgeVectors>(knowledge.id, {
+    knowledgeId: knowledge.id,
+    provider: target.provider,
+    model: target.model,
+    updatedAt: knowledge.updatedAt,
+    version: CHUNK_VERSION,
+    chunks: chunks.map((content, idx) => ({
+      content,
+      embedding: embeddings[idx],
+    })),
+  });
+}
+
+export async function removeKnowledgeVectors(id: string): Promise<void> {
+  await vectorStore.removeItem(id);
+}
+
+/**
+ * 按余弦相似度返回最相关的片段，忽略由其他服务商或模型生成的向量
+ */
+export async function searchVectors(
+  queryEmbedding: number[],
+  target: EmbeddingTarget,
+  { knowledgeIds, topK = 8 }: VectorSearchOptions = {}
+): Promise<VectorSearchResult[]> {
+  const results: VectorSearchResult[] = [];
+
+  const collect = (vectors: KnowledgeVectors | null) => {
+    if (!vectors || !isSameTarget(vectors, target)) return;
+    for (const chunk of vectors.chunks) {
+      results.push({
+        knowledgeId: vectors.knowledgeId,
+        content: chunk.content,
+        score: cosineSimilarity(queryEmbedding, chunk.embedding),
+      });
+    }
+  };
+
+  if (knowledgeIds) {
+    for (const id of knowledgeIds) {
+      collect(await vectorStore.getItem<KnowledgeVectors>(id));
+    }
+  } else {
+    await vectorStore.iterate<KnowledgeVectors, void>((vectors) => {
+      collect(vectors);
+    });
+  }
+
+  return results.sort((a, b) => b.score - a.score).slice(0, topK);
+}